@@ -106,6 +106,11 @@ build_nodes() {
         export NODE_ENV=development
         info "Building for development"
     fi
+    # Generate src/index.ts and the package.json manifest from src
+    if ! npm run discover; then
+        error "Build failed - fix the node and credential file names above"
+        return 1
+    fi
     # Run TypeScript compilation
     if [[ "$verbose" == "true" ]]; then
         npm run compile -- --verbose
@@ -117,11 +122,16 @@ build_nodes() {
         error "Build failed - dist directory not created"
         return 1
     fi
+    # Load the build like n8n does, so no node or credential is left out
+    if ! npm run discover:verify; then
+        error "Build failed - n8n would not load every node and credential"
+        return 1
+    fi
     # Count built files
     local node_files
     node_files=$(find dist -name "*.node.js" | wc -l)
     local credential_files
-    credential_files=$(find dist -name "*.credential.js" | wc -l)
+    credential_files=$(find dist -name "*.credentials.js" | wc -l)
     log "Build completed successfully"
     info "Built $node_files node(s) and $credential_files credential(s)"
     # List built files
@@ -134,6 +144,7 @@ build_nodes() {
 # Watch for changes
 watch_build() {
     log "Starting watch mode..."
+    npm run discover
     # Start TypeScript compiler in watch mode
     npm run compile:watch
 }
@@ -196,7 +207,7 @@ show_build_info() {
         local node_count
         node_count=$(find dist -name "*.node.js" | wc -l)
         local credential_count
-        credential_count=$(find dist -name "*.credential.js" | wc -l)
+        credential_count=$(find dist -name "*.credentials.js" | wc -l)
         echo "  Built Nodes: $node_count"
         echo "  Built Credentials: $credential_count"
         echo "  Build Size: $(du -sh dist | cut -f1)"
@@ -0,0 +1,287 @@
+#!/usr/bin/env node
+/**
+ * Finds the nodes and credentials of the package and generates `src/index.ts`
+ * and the `n8n` manifest of package.json from them.
+ *
+ *   node scripts/discover-nodes.js           Checks the file names and writes both files
+ *   node scripts/discover-nodes.js --check   Fails when either file is out of date
+ *   node scripts/discover-nodes.js --verify  Loads the built package like n8n does
+ *
+ * n8n loads a package from the paths in its manifest, and the custom folder from
+ * every `*.node.js` and `*.credentials.js` file in it, so a wrongly named file is
+ * silently left out. Every problem found here fails the build instead.
+ */
+'use strict';
+
+const fs = require('fs');
+const path = require('path');
+
+const PACKAGE_DIR = path.resolve(__dirname, '..');
+
+const kinds = [
+	{ key: 'nodes', dir: 'nodes', suffix: '.node.ts' },
+	{ key: 'credentials', dir: 'credentials', suffix: '.credentials.ts' },
+];
+
+const toPosix = (file) => file.split(path.sep).join('/');
+
+// Manifest entries of other packages, such as installed community nodes, are kept as they are
+const externalEntries = (packageJson, key) =>
+	(packageJson.n8n?.[key] ?? []).filter((file) => !file.startsWith('dist/'));
+
+// `node_modules/@scope/name/dist/...` → `@scope/name`
+const dependencyOf = (file) => {
+	const [, scope, name] = /^node_modules\/(@[^/]+\/)?([^/]+)\//.exec(file) ?? [];
+
+	return name === undefined ? undefined : `${scope ?? ''}${name}`;
+};
+
+// All .ts files below `dir`, relative to it and sorted
+const listFiles = (dir, prefix = '') =>
+	fs
+		.readdirSync(path.join(dir, prefix), { withFileTypes: true })
+		.flatMap((entry) => {
+			const relative = path.join(prefix, entry.name);
+
+			if (entry.isDirectory()) return listFiles(dir, relative);
+
+			return entry.name.endsWith('.ts') && !entry.name.endsWith('.d.ts') ? [toPosix(relative)] : [];
+		})
+		.sort();
+
+/**
+ * Scans `srcDir` for nodes and credentials. Each kind lives directly in its
+ * folder as `<ClassName>.node.ts` or `<ClassName>.credentials.ts` and exports a
+ * class of that name, which is how n8n finds it. Helpers and node versions go
+ * in subfolders without those suffixes.
+ */
+const discover = (srcDir) => {
+	const found = { nodes: [], credentials: [] };
+	const errors = [];
+	const files = listFiles(srcDir);
+
+	for (const file of files) {
+		const kind = kinds.find(({ suffix }) => file.endsWith(suffix));
+		const folder = path.posix.dirname(file);
+
+		if (kind === undefined) {
+			const expected = kinds.find(({ dir }) => folder === dir);
+
+			if (expected) {
+				errors.push(
+					`src/${file} is not named <ClassName>${expected.suffix}, so n8n would not load it`,
+				);
+			}
+
+			continue;
+		}
+
+		if (folder !== kind.dir) {
+			errors.push(
+				`src/${file} must be directly in src/${kind.dir}, n8n would load it from the custom folder on its own`,
+			);
+			continue;
+		}
+
+		const className = path.posix.basename(file, kind.suffix);
+		const source = fs.readFileSync(path.join(srcDir, file), 'utf8');
+
+		if (!new RegExp(`^export class ${className}\\b`, 'm').test(source)) {
+			errors.push(
+				`src/${file} must export a class named ${className}, n8n looks the class up by the file name`,
+			);
+			continue;
+		}
+
+		found[kind.key].push({ className, module: file.replace(/\.ts$/, '') });
+	}
+
+	for (const { key, dir } of kinds) {
+		if (found[key].length === 0 && !errors.some((error) => error.startsWith(`src/${dir}/`))) {
+			errors.push(`No ${key} found in src/${dir}`);
+		}
+	}
+
+	return { ...found, errors };
+};
+
+/** Renders `src/index.ts`, which re-exports every node and credential. */
+const renderIndex = ({ nodes, credentials }, version) => {
+	const exportsOf = (entries) => entries.map(({ module }) => `export * from './${module}';`);
+	const pathsOf = (entries) => entries.map(({ module }) => `\t'./${module}',`);
+
+	return [
+		'// N8N-R8 Custom Nodes Entry Point',
+		'// Generated by scripts/discover-nodes.js from src/nodes and src/credentials,',
+		'// run `npm run discover` after adding or renaming a node or credential',
+		'',
+		'// Export all nodes',
+		...exportsOf(nodes),
+		'',
+		'// Export all credentials',
+		...exportsOf(credentials),
+		'',
+		'// Version information',
+		`export const version = '${version}';`,
+		"export const description = 'N8N-R8 Custom Nodes Package';",
+		'',
+		'// Node metadata for N8N discovery',
+		'export const nodes = [',
+		...pathsOf(nodes),
+		'];',
+		'',
+		'export const credentials = [',
+		...pathsOf(credentials),
+		'];',
+		'',
+	].join('\n');
+};
+
+/**
+ * Returns package.json with the `n8n` manifest listing the compiled files,
+ * followed by the entries outside `dist`, which are maintained by hand.
+ */
+const renderPackageJson = (packageJson, { nodes, credentials }) => {
+	const distPaths = (entries) => entries.map(({ module }) => `dist/${module}.js`);
+
+	return `${JSON.stringify(
+		{
+			...packageJson,
+			n8n: {
+				...packageJson.n8n,
+				// n8n requires each of these paths, globs are not expanded
+				credentials: [...distPaths(credentials), ...externalEntries(packageJson, 'credentials')],
+				nodes: [...distPaths(nodes), ...externalEntries(packageJson, 'nodes')],
+			},
+		},
+		null,
+		2,
+	)}\n`;
+};
+
+const generatedFiles = (packageDir, found) => {
+	const packageJsonPath = path.join(packageDir, 'package.json');
+	const packageJson = JSON.parse(fs.readFileSync(packageJsonPath, 'utf8'));
+
+	return [
+		[path.join(packageDir, 'src', 'index.ts'), renderIndex(found, packageJson.version)],
+		[packageJsonPath, renderPackageJson(packageJson, found)],
+	];
+};
+
+const typeNames = (types) => Object.keys(types).sort().join(', ');
+
+/**
+ * Loads the built package with n8n's own loaders: as a community package from
+ * the manifest, and as the custom folder that `dist` is mounted as. Both must
+ * find exactly the nodes and credentials of `src`, the manifest also those of
+ * its entries outside `dist`.
+ */
+const verifyBuild = async (packageDir) => {
+	const packageJson = JSON.parse(fs.readFileSync(path.join(packageDir, 'package.json'), 'utf8'));
+	const errors = [];
+
+	for (const { key } of kinds) {
+		for (const file of packageJson.n8n?.[key] ?? []) {
+			if (!fs.existsSync(path.join(packageDir, file))) {
+				const dependency = dependencyOf(file);
+				const hint = dependency ? `, is ${dependency} installed?` : '';
+
+				errors.push(`package.json n8n.${key} lists ${file}, which does not exist${hint}`);
+			}
+		}
+	}
+
+	if (errors.length > 0) return errors;
+
+	const { CustomDirectoryLoader, PackageDirectoryLoader } = require('n8n-core');
+	const packageLoader = new PackageDirectoryLoader(packageDir);
+	const customLoader = new CustomDirectoryLoader(path.join(packageDir, 'dist'));
+
+	for (const [name, loader] of [
+		['package manifest', packageLoader],
+		['custom folder', customLoader],
+	]) {
+		try {
+			await loader.loadAll();
+		} catch (error) {
+			errors.push(`Loading the ${name} failed: ${error.message}`);
+		}
+	}
+
+	const found = discover(path.join(packageDir, 'src'));
+
+	for (const { key } of kinds) {
+		const loaded = key === 'nodes' ? 'nodeTypes' : 'credentialTypes';
+		const manifestNames = Object.keys(packageLoader[loaded]);
+		const customNames = Object.keys(customLoader[loaded]);
+		const external = externalEntries(packageJson, key).length;
+
+		if (manifestNames.length !== found[key].length + external) {
+			errors.push(
+				`The package manifest loads ${manifestNames.length} ${key} (${typeNames(packageLoader[loaded])}), ` +
+					`src has ${found[key].length} and other packages ${external}`,
+			);
+		}
+
+		if (
+			customNames.length !== found[key].length ||
+			customNames.some((name) => !manifestNames.includes(name))
+		) {
+			errors.push(
+				`The custom folder loads ${key} ${typeNames(customLoader[loaded])}, ` +
+					`the package manifest ${typeNames(packageLoader[loaded])}`,
+			);
+		}
+	}
+
+	return errors;
+};
+
+const fail = (errors) => {
+	for (const error of errors) console.error(`✗ ${error}`);
+	process.exitCode = 1;
+};
+
+const main = async (args) => {
+	if (args.includes('--verify')) {
+		const errors = await verifyBuild(PACKAGE_DIR);
+
+		if (errors.length > 0) return fail(errors);
+
+		return console.log('✓ n8n loads every node and credential of the build');
+	}
+
+	const found = discover(path.join(PACKAGE_DIR, 'src'));
+
+	if (found.errors.length > 0) return fail(found.errors);
+
+	const files = generatedFiles(PACKAGE_DIR, found);
+
+	if (args.includes('--check')) {
+		const stale = files.filter(([file, content]) => fs.readFileSync(file, 'utf8') !== content);
+
+		if (stale.length > 0) {
+			return fail(
+				stale.map(
+					([file]) =>
+						`${path.relative(PACKAGE_DIR, file)} is out of date, run \`npm run discover\``,
+				),
+			);
+		}
+
+		return console.log('✓ src/index.ts and the package.json manifest are up to date');
+	}
+
+	for (const [file, content] of files) fs.writeFileSync(file, content);
+
+	console.log(
+		`✓ Found ${found.nodes.length} node(s) and ${found.credentials.length} credential(s)`,
+	);
+};
+
+if (require.main === module) {
+	main(process.argv.slice(2)).catch((error) => fail([error.stack ?? error.message]));
+}
+
+module.exports = { discover, renderIndex, renderPackageJson, verifyBuild };
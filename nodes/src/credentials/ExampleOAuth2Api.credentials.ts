@@ -0,0 +1,111 @@
+import { ICredentialType, INodeProperties } from 'n8n-workflow';
+
+import { oAuth2ConnectionProperties } from '../utils/connection';
+
+export class ExampleOAuth2Api implements ICredentialType {
+	name = 'exampleOAuth2Api';
+
+	extends = ['oAuth2Api'];
+
+	displayName = 'Example OAuth2 API';
+
+	documentationUrl = 'https://docs.example.com/api';
+
+	properties: INodeProperties[] = [
+		{
+			displayName: 'Grant Type',
+			name: 'grantType',
+			type: 'options',
+			options: [
+				{
+					name: 'Client Credentials',
+					value: 'clientCredentials',
+				},
+				{
+					name: 'Authorization Code',
+					value: 'authorizationCode',
+				},
+			],
+			default: 'clientCredentials',
+			description:
+				'Client Credentials for service accounts, Authorization Code to act on behalf of a user',
+		},
+		{
+			displayName: 'Authorization URL',
+			name: 'authUrl',
+			type: 'string',
+			displayOptions: {
+				show: {
+					grantType: ['authorizationCode'],
+				},
+			},
+			default: 'https://api.example.com/oauth/authorize',
+			required: true,
+		},
+		{
+			displayName: 'Access Token URL',
+			name: 'accessTokenUrl',
+			type: 'string',
+			default: 'https://api.example.com/oauth/token',
+			required: true,
+		},
+		{
+			displayName: 'Scope',
+			name: 'scope',
+			type: 'string',
+			default: '',
+			description: 'Space-separated list of scopes to request',
+		},
+		{
+			displayName: 'Auth URI Query Parameters',
+			name: 'authQueryParameters',
+			type: 'hidden',
+			default: '',
+		},
+		{
+			displayName: 'Authentication',
+			name: 'authentication',
+			type: 'options',
+			options: [
+				{
+					name: 'Body',
+					value: 'body',
+					description: 'Send the client ID and secret in the token request body',
+				},
+				{
+					name: 'Header',
+					value: 'header',
+					description: 'Send the client ID and secret as a Basic Auth header',
+				},
+			],
+			default: 'header',
+		},
+		// Common settings, as in the Example API credential
+		{
+			displayName: 'Base URL',
+			name: 'baseUrl',
+			type: 'string',
+			default: 'https://api.example.com',
+			placeholder: 'https://api.example.com',
+			description: 'The base URL of the API',
+		},
+		{
+			displayName: 'API Version',
+			name: 'apiVersion',
+			type: 'options',
+			options: [
+				{
+					name: 'v1',
+					value: 'v1',
+				},
+				{
+					name: 'v2',
+					value: 'v2',
+				},
+			],
+			default: 'v1',
+			description: 'The API version to use',
+		},
+		...oAuth2ConnectionProperties,
+	];
+}
@@ -1,4 +1,9 @@
-import { ICredentialType, INodeProperties } from 'n8n-workflow';
+import {
+	IAuthenticateGeneric,
+	ICredentialTestRequest,
+	ICredentialType,
+	INodeProperties,
+} from 'n8n-workflow';
 
 export class SimpleApi implements ICredentialType {
 	name = 'simpleApi';
@@ -23,4 +28,55 @@ export class SimpleApi implements ICredentialType {
 			description: 'The base URL of the API',
 		},
 	];
+
+	authenticate: IAuthenticateGeneric = {
+		type: 'generic',
+		properties: {
+			headers: {
+				'X-API-Key': '={{$credentials.apiKey}}',
+			},
+		},
+	};
+
+	// No node uses this credential, so n8n runs this request itself; connection and TLS
+	// errors are reported with their error code
+	test: ICredentialTestRequest = {
+		request: {
+			baseURL: '={{$credentials.baseUrl.replace(/\\/+$/, "")}}',
+			url: '/auth/test',
+			method: 'GET',
+		},
+		// n8n types the rules as a list of one kind, but checks mixed lists in order
+		rules: [
+			{
+				type: 'responseCode',
+				properties: {
+					value: 401,
+					message: 'Authentication failed: the API rejected the API key (401)',
+				},
+			},
+			{
+				type: 'responseCode',
+				properties: {
+					value: 403,
+					message: 'Access denied: the API key is not allowed to use this API (403)',
+				},
+			},
+			{
+				type: 'responseCode',
+				properties: {
+					value: 404,
+					message: 'Not found (404): check the Base URL',
+				},
+			},
+			{
+				type: 'responseSuccessBody',
+				properties: {
+					key: 'authenticated',
+					value: false,
+					message: 'The API did not accept the API key',
+				},
+			},
+		] as ICredentialTestRequest['rules'],
+	};
 }
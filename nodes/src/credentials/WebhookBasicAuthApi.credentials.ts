@@ -0,0 +1,26 @@
+import { ICredentialType, INodeProperties } from 'n8n-workflow';
+
+export class WebhookBasicAuthApi implements ICredentialType {
+	name = 'webhookBasicAuthApi';
+	displayName = 'Webhook Basic Auth';
+	documentationUrl = 'https://docs.n8n.io/credentials/';
+	properties: INodeProperties[] = [
+		{
+			displayName: 'User',
+			name: 'user',
+			type: 'string',
+			default: '',
+			description: 'The username callers must send',
+		},
+		{
+			displayName: 'Password',
+			name: 'password',
+			type: 'string',
+			typeOptions: {
+				password: true,
+			},
+			default: '',
+			description: 'The password callers must send',
+		},
+	];
+}
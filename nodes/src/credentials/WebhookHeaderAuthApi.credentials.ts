@@ -0,0 +1,27 @@
+import { ICredentialType, INodeProperties } from 'n8n-workflow';
+
+export class WebhookHeaderAuthApi implements ICredentialType {
+	name = 'webhookHeaderAuthApi';
+	displayName = 'Webhook Header Auth';
+	documentationUrl = 'https://docs.n8n.io/credentials/';
+	properties: INodeProperties[] = [
+		{
+			displayName: 'Header Name',
+			name: 'name',
+			type: 'string',
+			default: '',
+			placeholder: 'X-API-Key',
+			description: 'The request header that carries the token',
+		},
+		{
+			displayName: 'Header Value',
+			name: 'value',
+			type: 'string',
+			typeOptions: {
+				password: true,
+			},
+			default: '',
+			description: 'The value callers must send in the header',
+		},
+	];
+}
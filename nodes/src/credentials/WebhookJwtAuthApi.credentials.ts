@@ -0,0 +1,112 @@
+import { ICredentialType, INodeProperties } from 'n8n-workflow';
+
+export class WebhookJwtAuthApi implements ICredentialType {
+	name = 'webhookJwtAuthApi';
+	displayName = 'Webhook JWT Auth';
+	documentationUrl = 'https://docs.n8n.io/credentials/';
+	properties: INodeProperties[] = [
+		{
+			displayName: 'Algorithm',
+			name: 'algorithm',
+			type: 'options',
+			options: [
+				{
+					name: 'HS256',
+					value: 'HS256',
+				},
+				{
+					name: 'RS256',
+					value: 'RS256',
+				},
+			],
+			default: 'HS256',
+			description: 'The algorithm tokens must be signed with',
+		},
+		{
+			displayName: 'Key Type',
+			name: 'keyType',
+			type: 'options',
+			options: [
+				{
+					name: 'Secret or PEM Key',
+					value: 'key',
+				},
+				{
+					name: 'JWKS File',
+					value: 'jwksFile',
+				},
+			],
+			default: 'key',
+			description: 'Where the verification key comes from',
+		},
+		{
+			displayName: 'Secret',
+			name: 'secret',
+			type: 'string',
+			typeOptions: {
+				password: true,
+			},
+			displayOptions: {
+				show: {
+					keyType: ['key'],
+					algorithm: ['HS256'],
+				},
+			},
+			default: '',
+			required: true,
+			description: 'The shared secret used to sign HS256 tokens',
+		},
+		{
+			displayName: 'Public Key',
+			name: 'publicKey',
+			type: 'string',
+			typeOptions: {
+				rows: 4,
+			},
+			displayOptions: {
+				show: {
+					keyType: ['key'],
+					algorithm: ['RS256'],
+				},
+			},
+			default: '',
+			required: true,
+			placeholder: '-----BEGIN PUBLIC KEY-----',
+			description: 'The PEM encoded public key used to verify RS256 tokens',
+		},
+		{
+			displayName: 'JWKS File Path',
+			name: 'jwksFilePath',
+			type: 'string',
+			displayOptions: {
+				show: {
+					keyType: ['jwksFile'],
+				},
+			},
+			default: '',
+			placeholder: '/home/node/.n8n/jwks.json',
+			description: 'Path to a local JSON Web Key Set file readable by n8n',
+		},
+		{
+			displayName: 'Issuer',
+			name: 'issuer',
+			type: 'string',
+			default: '',
+			description: 'Expected "iss" claim. Leave empty to accept any issuer.',
+		},
+		{
+			displayName: 'Audience',
+			name: 'audience',
+			type: 'string',
+			default: '',
+			description: 'Expected "aud" claim. Leave empty to accept any audience.',
+		},
+		{
+			displayName: 'Clock Tolerance (Seconds)',
+			name: 'clockTolerance',
+			type: 'number',
+			default: 0,
+			description: 'Leeway applied when checking the "exp" and "nbf" claims',
+		},
+	];
+}
@@ -0,0 +1,20 @@
+import { ICredentialType, INodeProperties } from 'n8n-workflow';
+
+export class WebhookSignatureApi implements ICredentialType {
+	name = 'webhookSignatureApi';
+	displayName = 'Webhook Signature';
+	documentationUrl = 'https://docs.n8n.io/credentials/';
+	properties: INodeProperties[] = [
+		{
+			displayName: 'Signing Secret',
+			name: 'secret',
+			type: 'string',
+			typeOptions: {
+				password: true,
+			},
+			default: '',
+			required: true,
+			description: 'The shared secret the sender uses to sign webhook payloads',
+		},
+	];
+}
@@ -1,17 +1,23 @@
 // N8N-R8 Custom Nodes Entry Point
-// This file exports all custom nodes and credentials
+// Generated by scripts/discover-nodes.js from src/nodes and src/credentials,
+// run `npm run discover` after adding or renaming a node or credential
 
 // Export all nodes
-export * from './nodes/SimpleExample.node';
+export * from './nodes/ExampleDeclarative.node';
+export * from './nodes/ExampleNode.node';
+export * from './nodes/HttpRespond.node';
 export * from './nodes/HttpTrigger.node';
+export * from './nodes/ListOperations.node';
+export * from './nodes/SimpleExample.node';
 
 // Export all credentials
+export * from './credentials/ExampleApi.credentials';
+export * from './credentials/ExampleOAuth2Api.credentials';
 export * from './credentials/SimpleApi.credentials';
-
-// You can also export them individually for better tree-shaking
-// export { SimpleExample } from './nodes/SimpleExample.node';
-// export { HttpTrigger } from './nodes/HttpTrigger.node';
-// export { SimpleApi } from './credentials/SimpleApi.credentials';
+export * from './credentials/WebhookBasicAuthApi.credentials';
+export * from './credentials/WebhookHeaderAuthApi.credentials';
+export * from './credentials/WebhookJwtAuthApi.credentials';
+export * from './credentials/WebhookSignatureApi.credentials';
 
 // Version information
 export const version = '1.0.0';
@@ -19,10 +25,20 @@ export const description = 'N8N-R8 Custom Nodes Package';
 
 // Node metadata for N8N discovery
 export const nodes = [
-	'./nodes/SimpleExample.node',
+	'./nodes/ExampleDeclarative.node',
+	'./nodes/ExampleNode.node',
+	'./nodes/HttpRespond.node',
 	'./nodes/HttpTrigger.node',
+	'./nodes/ListOperations.node',
+	'./nodes/SimpleExample.node',
 ];
 
 export const credentials = [
+	'./credentials/ExampleApi.credentials',
+	'./credentials/ExampleOAuth2Api.credentials',
 	'./credentials/SimpleApi.credentials',
+	'./credentials/WebhookBasicAuthApi.credentials',
+	'./credentials/WebhookHeaderAuthApi.credentials',
+	'./credentials/WebhookJwtAuthApi.credentials',
+	'./credentials/WebhookSignatureApi.credentials',
 ];
@@ -0,0 +1,69 @@
+import { INodeType, INodeTypeDescription } from 'n8n-workflow';
+
+import { postFields, postOperations } from './ExampleDeclarative/PostDescription';
+import { applyConnectionOptions } from './ExampleDeclarative/shared';
+import { userFields, userOperations } from './ExampleDeclarative/UserDescription';
+
+/**
+ * Declarative counterpart of the Example Node. Requests are built by n8n from the
+ * `routing` metadata of the properties, so a resource is added by writing its
+ * description and listing it here; no execute() code is involved.
+ */
+export class ExampleDeclarative implements INodeType {
+	description: INodeTypeDescription = {
+		displayName: 'Example Declarative',
+		name: 'exampleDeclarative',
+		icon: 'fa:exchange-alt',
+		group: ['transform'],
+		version: 1,
+		subtitle: '={{$parameter["operation"] + ": " + $parameter["resource"]}}',
+		description: 'Manage users and posts of a REST API using declarative routing',
+		defaults: {
+			name: 'Example Declarative',
+		},
+		inputs: ['main'],
+		outputs: ['main'],
+		credentials: [
+			{
+				name: 'exampleApi',
+				required: true,
+			},
+		],
+		requestDefaults: {
+			baseURL: '={{$credentials.baseUrl.replace(/\\/$/, "")}}/{{$credentials.apiVersion}}',
+			headers: {
+				Accept: 'application/json',
+				'Content-Type': 'application/json',
+			},
+		},
+		properties: [
+			{
+				displayName: 'Resource',
+				name: 'resource',
+				type: 'options',
+				noDataExpression: true,
+				options: [
+					{
+						name: 'User',
+						value: 'user',
+					},
+					{
+						name: 'Post',
+						value: 'post',
+					},
+				],
+				default: 'user',
+				// Always shown, so every request gets the credential's connection options
+				routing: {
+					send: {
+						preSend: [applyConnectionOptions],
+					},
+				},
+			},
+			...userOperations,
+			...postOperations,
+			...userFields,
+			...postFields,
+		],
+	};
+}
@@ -0,0 +1,148 @@
+import type { INodeProperties } from 'n8n-workflow';
+
+import { additionalFields, deletedOutput, getManyFields } from './shared';
+
+const postPath = '=/posts/{{encodeURIComponent($parameter.postId)}}';
+
+export const postOperations: INodeProperties[] = [
+	{
+		displayName: 'Operation',
+		name: 'operation',
+		type: 'options',
+		noDataExpression: true,
+		displayOptions: {
+			show: {
+				resource: ['post'],
+			},
+		},
+		options: [
+			{
+				name: 'Create',
+				value: 'create',
+				description: 'Create a new post',
+				action: 'Create a post',
+				routing: {
+					request: {
+						method: 'POST',
+						url: '/posts',
+					},
+				},
+			},
+			{
+				name: 'Get',
+				value: 'get',
+				description: 'Get a post',
+				action: 'Get a post',
+				routing: {
+					request: {
+						method: 'GET',
+						url: postPath,
+					},
+				},
+			},
+			{
+				name: 'Get Many',
+				value: 'getAll',
+				description: 'Get many posts',
+				action: 'Get many posts',
+				routing: {
+					request: {
+						method: 'GET',
+						url: '/posts',
+					},
+				},
+			},
+			{
+				name: 'Update',
+				value: 'update',
+				description: 'Update a post',
+				action: 'Update a post',
+				routing: {
+					request: {
+						method: 'PATCH',
+						url: postPath,
+					},
+				},
+			},
+			{
+				name: 'Delete',
+				value: 'delete',
+				description: 'Delete a post',
+				action: 'Delete a post',
+				routing: {
+					request: {
+						method: 'DELETE',
+						url: postPath,
+					},
+					output: deletedOutput('postId'),
+				},
+			},
+		],
+		default: 'get',
+	},
+];
+
+export const postFields: INodeProperties[] = [
+	{
+		displayName: 'Post ID',
+		name: 'postId',
+		type: 'string',
+		required: true,
+		displayOptions: {
+			show: {
+				resource: ['post'],
+				operation: ['get', 'update', 'delete'],
+			},
+		},
+		default: '',
+		placeholder: '12345',
+		description: 'The ID of the post',
+	},
+	{
+		displayName: 'Title',
+		name: 'title',
+		type: 'string',
+		required: true,
+		displayOptions: {
+			show: {
+				resource: ['post'],
+				operation: ['create', 'update'],
+			},
+		},
+		default: '',
+		placeholder: 'My Post Title',
+		description: 'The title of the post',
+		routing: {
+			send: {
+				type: 'body',
+				property: 'title',
+			},
+		},
+	},
+	{
+		displayName: 'Content',
+		name: 'content',
+		type: 'string',
+		typeOptions: {
+			rows: 4,
+		},
+		required: true,
+		displayOptions: {
+			show: {
+				resource: ['post'],
+				operation: ['create', 'update'],
+			},
+		},
+		default: '',
+		placeholder: 'Post content goes here...',
+		description: 'The content of the post',
+		routing: {
+			send: {
+				type: 'body',
+				property: 'content',
+			},
+		},
+	},
+	...getManyFields('post'),
+	additionalFields('post'),
+];
@@ -0,0 +1,145 @@
+import type { INodeProperties } from 'n8n-workflow';
+
+import { additionalFields, deletedOutput, getManyFields } from './shared';
+
+const userPath = '=/users/{{encodeURIComponent($parameter.userId)}}';
+
+export const userOperations: INodeProperties[] = [
+	{
+		displayName: 'Operation',
+		name: 'operation',
+		type: 'options',
+		noDataExpression: true,
+		displayOptions: {
+			show: {
+				resource: ['user'],
+			},
+		},
+		options: [
+			{
+				name: 'Create',
+				value: 'create',
+				description: 'Create a new user',
+				action: 'Create a user',
+				routing: {
+					request: {
+						method: 'POST',
+						url: '/users',
+					},
+				},
+			},
+			{
+				name: 'Get',
+				value: 'get',
+				description: 'Get a user',
+				action: 'Get a user',
+				routing: {
+					request: {
+						method: 'GET',
+						url: userPath,
+					},
+				},
+			},
+			{
+				name: 'Get Many',
+				value: 'getAll',
+				description: 'Get many users',
+				action: 'Get many users',
+				routing: {
+					request: {
+						method: 'GET',
+						url: '/users',
+					},
+				},
+			},
+			{
+				name: 'Update',
+				value: 'update',
+				description: 'Update a user',
+				action: 'Update a user',
+				routing: {
+					request: {
+						method: 'PATCH',
+						url: userPath,
+					},
+				},
+			},
+			{
+				name: 'Delete',
+				value: 'delete',
+				description: 'Delete a user',
+				action: 'Delete a user',
+				routing: {
+					request: {
+						method: 'DELETE',
+						url: userPath,
+					},
+					output: deletedOutput('userId'),
+				},
+			},
+		],
+		default: 'get',
+	},
+];
+
+export const userFields: INodeProperties[] = [
+	{
+		displayName: 'User ID',
+		name: 'userId',
+		type: 'string',
+		required: true,
+		displayOptions: {
+			show: {
+				resource: ['user'],
+				operation: ['get', 'update', 'delete'],
+			},
+		},
+		default: '',
+		placeholder: '12345',
+		description: 'The ID of the user',
+	},
+	{
+		displayName: 'User Name',
+		name: 'userName',
+		type: 'string',
+		required: true,
+		displayOptions: {
+			show: {
+				resource: ['user'],
+				operation: ['create', 'update'],
+			},
+		},
+		default: '',
+		placeholder: 'John Doe',
+		description: 'The name of the user',
+		routing: {
+			send: {
+				type: 'body',
+				property: 'name',
+			},
+		},
+	},
+	{
+		displayName: 'Email',
+		name: 'email',
+		type: 'string',
+		required: true,
+		displayOptions: {
+			show: {
+				resource: ['user'],
+				operation: ['create', 'update'],
+			},
+		},
+		default: '',
+		placeholder: 'john@example.com',
+		description: 'The email address of the user',
+		routing: {
+			send: {
+				type: 'body',
+				property: 'email',
+			},
+		},
+	},
+	...getManyFields('user'),
+	additionalFields('user'),
+];
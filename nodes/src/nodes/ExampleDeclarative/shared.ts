@@ -0,0 +1,160 @@
+import type { IExecuteSingleFunctions, IHttpRequestOptions, INodeProperties } from 'n8n-workflow';
+
+import { getConnectionOptions } from '../../utils/connection';
+
+/**
+ * Applies the timeout and the skip-verify toggle of the credential to a request.
+ * n8n sets the timeout of declarative requests after `requestDefaults`, so this runs
+ * before sending instead. Its requests take no CA or client certificates, those
+ * fields of the credential only apply to the Example Node.
+ */
+export async function applyConnectionOptions(
+	this: IExecuteSingleFunctions,
+	requestOptions: IHttpRequestOptions,
+): Promise<IHttpRequestOptions> {
+	const { timeout, rejectUnauthorized } = getConnectionOptions(
+		await this.getCredentials('exampleApi'),
+	);
+
+	if (timeout !== undefined) requestOptions.timeout = timeout;
+	if (rejectUnauthorized === false) requestOptions.skipSslCertificateValidation = true;
+
+	return requestOptions;
+}
+
+/**
+ * Return All, Limit and pagination for the "Get Many" operation of a resource.
+ * Pages are requested with `offset` and `limit` query parameters.
+ */
+export const getManyFields = (resource: string): INodeProperties[] => [
+	{
+		displayName: 'Return All',
+		name: 'returnAll',
+		type: 'boolean',
+		displayOptions: {
+			show: {
+				resource: [resource],
+				operation: ['getAll'],
+			},
+		},
+		default: false,
+		description: 'Whether to return all results or only up to a given limit',
+		routing: {
+			send: {
+				paginate: '={{$value}}',
+			},
+			operations: {
+				pagination: {
+					type: 'offset',
+					properties: {
+						limitParameter: 'limit',
+						offsetParameter: 'offset',
+						pageSize: 50,
+						type: 'query',
+					},
+				},
+			},
+		},
+	},
+	{
+		displayName: 'Limit',
+		name: 'limit',
+		type: 'number',
+		displayOptions: {
+			show: {
+				resource: [resource],
+				operation: ['getAll'],
+				returnAll: [false],
+			},
+		},
+		typeOptions: {
+			minValue: 1,
+		},
+		default: 50,
+		description: 'Max number of results to return',
+		routing: {
+			send: {
+				type: 'query',
+				property: 'limit',
+			},
+			output: {
+				maxResults: '={{$value}}',
+			},
+		},
+	},
+];
+
+/**
+ * Optional fields sent in the body of create and update requests.
+ */
+export const additionalFields = (resource: string): INodeProperties => ({
+	displayName: 'Additional Fields',
+	name: 'additionalFields',
+	type: 'collection',
+	placeholder: 'Add Field',
+	default: {},
+	displayOptions: {
+		show: {
+			resource: [resource],
+			operation: ['create', 'update'],
+		},
+	},
+	options: [
+		{
+			displayName: 'Tags',
+			name: 'tags',
+			type: 'string',
+			default: '',
+			placeholder: 'tag1, tag2, tag3',
+			description: 'Comma-separated list of tags',
+			routing: {
+				send: {
+					type: 'body',
+					property: 'tags',
+					value: '={{$value.split(",").map(tag => tag.trim()).filter(tag => tag !== "")}}',
+				},
+			},
+		},
+		{
+			displayName: 'Status',
+			name: 'status',
+			type: 'options',
+			options: [
+				{
+					name: 'Active',
+					value: 'active',
+				},
+				{
+					name: 'Inactive',
+					value: 'inactive',
+				},
+				{
+					name: 'Pending',
+					value: 'pending',
+				},
+			],
+			default: 'active',
+			description: 'The status of the item',
+			routing: {
+				send: {
+					type: 'body',
+					property: 'status',
+				},
+			},
+		},
+	],
+});
+
+/**
+ * Replaces the empty response of a delete with a confirmation item.
+ */
+export const deletedOutput = (idParameter: string) => ({
+	postReceive: [
+		{
+			type: 'set' as const,
+			properties: {
+				value: `={{ { "id": $parameter["${idParameter}"], "deleted": true } }}`,
+			},
+		},
+	],
+});
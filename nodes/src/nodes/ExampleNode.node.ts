@@ -0,0 +1,870 @@
+import {
+	IDataObject,
+	IExecuteFunctions,
+	IHttpRequestMethods,
+	INodeExecutionData,
+	INodeType,
+	INodeTypeDescription,
+	NodeOperationError,
+} from 'n8n-workflow';
+
+import { BatchingOptions, chunk, runConcurrently } from '../utils/batching';
+import { PaginationOptions, PaginationStyle } from '../utils/pagination';
+import {
+	exampleApiCredentialTest,
+	exampleOAuth2ApiCredentialTest,
+} from './ExampleNode/credentialTest';
+import { exampleApiRequest, exampleApiRequestPages } from './ExampleNode/transport';
+
+type Resource = 'user' | 'post';
+
+const idParameters: Record<Resource, string> = {
+	user: 'userId',
+	post: 'postId',
+};
+
+// Operations that can send several items per request through the bulk endpoint
+const bulkMethods: Record<string, IHttpRequestMethods> = {
+	create: 'POST',
+	update: 'PATCH',
+	delete: 'DELETE',
+};
+
+// Path of the resource collection, see the "Endpoints" option
+const getCollection = (ctx: IExecuteFunctions, resource: Resource, itemIndex: number): string => {
+	const endpoints = ctx.getNodeParameter('endpoints', itemIndex, {}) as IDataObject;
+
+	return ((endpoints[`${resource}s`] as string | undefined) ?? `/${resource}s`).replace(/\/+$/, '');
+};
+
+// Request body for create and update, built from the resource fields and Additional Fields
+function getRequestBody(
+	ctx: IExecuteFunctions,
+	resource: Resource,
+	itemIndex: number,
+): IDataObject {
+	const additionalFields = ctx.getNodeParameter('additionalFields', itemIndex, {}) as IDataObject;
+	const body: IDataObject =
+		resource === 'user'
+			? {
+					name: ctx.getNodeParameter('userName', itemIndex) as string,
+					email: ctx.getNodeParameter('email', itemIndex) as string,
+				}
+			: {
+					title: ctx.getNodeParameter('title', itemIndex) as string,
+					content: ctx.getNodeParameter('content', itemIndex) as string,
+				};
+
+	if (typeof additionalFields.tags === 'string') {
+		additionalFields.tags = additionalFields.tags
+			.split(',')
+			.map((tag) => tag.trim())
+			.filter((tag) => tag !== '');
+	}
+
+	return { ...body, ...additionalFields };
+}
+
+// Builds the pagination settings of a "Get Many" operation from its parameters
+function getPaginationOptions(ctx: IExecuteFunctions, itemIndex: number): PaginationOptions {
+	const returnAll = ctx.getNodeParameter('returnAll', itemIndex) as boolean;
+	const pagination = ctx.getNodeParameter('pagination', itemIndex, {}) as IDataObject;
+
+	return {
+		style: (pagination.style as PaginationStyle | undefined) ?? 'offset',
+		pageSize: (pagination.pageSize as number | undefined) ?? 50,
+		maxPages: (pagination.maxPages as number | undefined) ?? 100,
+		limit: returnAll ? undefined : (ctx.getNodeParameter('limit', itemIndex, 50) as number),
+		itemsPath: pagination.itemsPath as string | undefined,
+		limitParameter: pagination.limitParameter as string | undefined,
+		offsetParameter: pagination.offsetParameter as string | undefined,
+		pageParameter: pagination.pageParameter as string | undefined,
+		cursorParameter: pagination.cursorParameter as string | undefined,
+		nextCursorPath: pagination.nextCursorPath as string | undefined,
+	};
+}
+
+async function executeOperation(
+	ctx: IExecuteFunctions,
+	resource: Resource,
+	operation: string,
+	itemIndex: number,
+): Promise<IDataObject | IDataObject[]> {
+	const collection = getCollection(ctx, resource, itemIndex);
+	const endpointFor = () => {
+		const id = ctx.getNodeParameter(idParameters[resource], itemIndex) as string;
+
+		return { id, path: `${collection}/${encodeURIComponent(id)}` };
+	};
+	const request = async (
+		method: IHttpRequestMethods,
+		endpoint: string,
+		body?: IDataObject,
+		qs?: IDataObject,
+	) => (await exampleApiRequest(ctx, method, endpoint, body, qs, itemIndex)) as IDataObject;
+
+	switch (operation) {
+		case 'create':
+			return await request('POST', collection, getRequestBody(ctx, resource, itemIndex));
+		case 'get':
+			return await request('GET', endpointFor().path);
+		case 'getAll': {
+			const results: IDataObject[] = [];
+			const pages = exampleApiRequestPages(
+				ctx,
+				collection,
+				getPaginationOptions(ctx, itemIndex),
+				{},
+				itemIndex,
+			);
+
+			for await (const page of pages) {
+				results.push(...page);
+			}
+
+			return results;
+		}
+		case 'update':
+			return await request('PATCH', endpointFor().path, getRequestBody(ctx, resource, itemIndex));
+		case 'delete': {
+			const { id, path } = endpointFor();
+			const response = await request('DELETE', path);
+
+			// Many APIs answer deletes with 204 No Content
+			return response && typeof response === 'object' ? response : { id, deleted: true };
+		}
+		default:
+			throw new NodeOperationError(
+				ctx.getNode(),
+				`The operation "${operation}" is not supported for resource "${resource}"!`,
+				{ itemIndex },
+			);
+	}
+}
+
+// Sends the items of a batch in one request to <collection>/bulk. The API answers
+// with an array in the same order, or with no content for deletes.
+async function executeBulk(
+	ctx: IExecuteFunctions,
+	resource: Resource,
+	operation: string,
+	itemIndexes: number[],
+): Promise<INodeExecutionData[]> {
+	const entries = itemIndexes.map((itemIndex) => {
+		const id =
+			operation === 'create'
+				? undefined
+				: (ctx.getNodeParameter(idParameters[resource], itemIndex) as string);
+
+		return operation === 'delete'
+			? { id }
+			: { ...(id === undefined ? {} : { id }), ...getRequestBody(ctx, resource, itemIndex) };
+	});
+	const response = await exampleApiRequest(
+		ctx,
+		bulkMethods[operation],
+		`${getCollection(ctx, resource, itemIndexes[0])}/bulk`,
+		entries,
+		undefined,
+		itemIndexes[0],
+	);
+
+	if (Array.isArray(response) && response.length === itemIndexes.length) {
+		return response.map((json: IDataObject, index) => ({
+			json,
+			pairedItem: { item: itemIndexes[index] },
+		}));
+	}
+
+	if (operation === 'delete' && (!response || typeof response !== 'object')) {
+		return entries.map(({ id }, index) => ({
+			json: { id, deleted: true },
+			pairedItem: { item: itemIndexes[index] },
+		}));
+	}
+
+	// Without a one-to-one answer every result stems from all items of the batch
+	return ctx.helpers.returnJsonArray(response as IDataObject | IDataObject[]).map((item) => ({
+		...item,
+		pairedItem: itemIndexes.map((itemIndex) => ({ item: itemIndex })),
+	}));
+}
+
+// Runs create, update and delete in batches of items, with several requests in flight.
+// Single-item batches use the regular endpoints.
+async function executeBatched(
+	ctx: IExecuteFunctions,
+	itemCount: number,
+	resource: Resource,
+	operation: string,
+	options: BatchingOptions,
+): Promise<INodeExecutionData[]> {
+	const itemIndexes = Array.from({ length: itemCount }, (_, index) => index);
+
+	const results = await runConcurrently(
+		chunk(itemIndexes, options.batchSize),
+		async (batch) => {
+			try {
+				if (batch.length > 1) {
+					return await executeBulk(ctx, resource, operation, batch);
+				}
+
+				return ctx.helpers.constructExecutionMetaData(
+					ctx.helpers.returnJsonArray(await executeOperation(ctx, resource, operation, batch[0])),
+					{ itemData: { item: batch[0] } },
+				);
+			} catch (error) {
+				if (ctx.continueOnFail()) {
+					return batch.map((item) => ({
+						json: { error: (error as Error).message },
+						pairedItem: { item },
+					}));
+				}
+				throw error;
+			}
+		},
+		options,
+	);
+
+	return results.flat();
+}
+
+export class ExampleNode implements INodeType {
+	description: INodeTypeDescription = {
+		displayName: 'Example Node',
+		name: 'exampleNode',
+		icon: 'fa:exchange-alt',
+		group: ['transform'],
+		version: 1,
+		subtitle: '={{$parameter["operation"] + ": " + $parameter["resource"]}}',
+		description: 'Manage users and posts of a REST API',
+		defaults: {
+			name: 'Example Node',
+		},
+		inputs: ['main'],
+		outputs: ['main'],
+		credentials: [
+			{
+				name: 'exampleApi',
+				required: true,
+				testedBy: 'exampleApiCredentialTest',
+				displayOptions: {
+					show: {
+						authentication: ['exampleApi'],
+					},
+				},
+			},
+			{
+				name: 'exampleOAuth2Api',
+				required: true,
+				testedBy: 'exampleOAuth2ApiCredentialTest',
+				displayOptions: {
+					show: {
+						authentication: ['exampleOAuth2Api'],
+					},
+				},
+			},
+		],
+		properties: [
+			{
+				displayName: 'Authentication',
+				name: 'authentication',
+				type: 'options',
+				options: [
+					{
+						name: 'API Key, Bearer Token or Basic Auth',
+						value: 'exampleApi',
+					},
+					{
+						name: 'OAuth2',
+						value: 'exampleOAuth2Api',
+					},
+				],
+				default: 'exampleApi',
+			},
+			{
+				displayName: 'Resource',
+				name: 'resource',
+				type: 'options',
+				noDataExpression: true,
+				options: [
+					{
+						name: 'User',
+						value: 'user',
+					},
+					{
+						name: 'Post',
+						value: 'post',
+					},
+				],
+				default: 'user',
+			},
+			{
+				displayName: 'Operation',
+				name: 'operation',
+				type: 'options',
+				noDataExpression: true,
+				displayOptions: {
+					show: {
+						resource: ['user'],
+					},
+				},
+				options: [
+					{
+						name: 'Create',
+						value: 'create',
+						description: 'Create a new user',
+						action: 'Create a user',
+					},
+					{
+						name: 'Get',
+						value: 'get',
+						description: 'Get a user',
+						action: 'Get a user',
+					},
+					{
+						name: 'Get Many',
+						value: 'getAll',
+						description: 'Get many users',
+						action: 'Get many users',
+					},
+					{
+						name: 'Update',
+						value: 'update',
+						description: 'Update a user',
+						action: 'Update a user',
+					},
+					{
+						name: 'Delete',
+						value: 'delete',
+						description: 'Delete a user',
+						action: 'Delete a user',
+					},
+				],
+				default: 'get',
+			},
+			{
+				displayName: 'Operation',
+				name: 'operation',
+				type: 'options',
+				noDataExpression: true,
+				displayOptions: {
+					show: {
+						resource: ['post'],
+					},
+				},
+				options: [
+					{
+						name: 'Create',
+						value: 'create',
+						description: 'Create a new post',
+						action: 'Create a post',
+					},
+					{
+						name: 'Get',
+						value: 'get',
+						description: 'Get a post',
+						action: 'Get a post',
+					},
+					{
+						name: 'Get Many',
+						value: 'getAll',
+						description: 'Get many posts',
+						action: 'Get many posts',
+					},
+					{
+						name: 'Update',
+						value: 'update',
+						description: 'Update a post',
+						action: 'Update a post',
+					},
+					{
+						name: 'Delete',
+						value: 'delete',
+						description: 'Delete a post',
+						action: 'Delete a post',
+					},
+				],
+				default: 'get',
+			},
+			// User operations parameters
+			{
+				displayName: 'User ID',
+				name: 'userId',
+				type: 'string',
+				required: true,
+				displayOptions: {
+					show: {
+						resource: ['user'],
+						operation: ['get', 'update', 'delete'],
+					},
+				},
+				default: '',
+				placeholder: '12345',
+				description: 'The ID of the user',
+			},
+			{
+				displayName: 'User Name',
+				name: 'userName',
+				type: 'string',
+				required: true,
+				displayOptions: {
+					show: {
+						resource: ['user'],
+						operation: ['create', 'update'],
+					},
+				},
+				default: '',
+				placeholder: 'John Doe',
+				description: 'The name of the user',
+			},
+			{
+				displayName: 'Email',
+				name: 'email',
+				type: 'string',
+				required: true,
+				displayOptions: {
+					show: {
+						resource: ['user'],
+						operation: ['create', 'update'],
+					},
+				},
+				default: '',
+				placeholder: 'john@example.com',
+				description: 'The email address of the user',
+			},
+			{
+				displayName: 'Return All',
+				name: 'returnAll',
+				type: 'boolean',
+				displayOptions: {
+					show: {
+						resource: ['user', 'post'],
+						operation: ['getAll'],
+					},
+				},
+				default: false,
+				description: 'Whether to return all results or only up to a given limit',
+			},
+			{
+				displayName: 'Limit',
+				name: 'limit',
+				type: 'number',
+				displayOptions: {
+					show: {
+						resource: ['user', 'post'],
+						operation: ['getAll'],
+						returnAll: [false],
+					},
+				},
+				typeOptions: {
+					minValue: 1,
+				},
+				default: 50,
+				description: 'Max number of results to return',
+			},
+			{
+				displayName: 'Pagination',
+				name: 'pagination',
+				type: 'collection',
+				placeholder: 'Add Pagination Setting',
+				displayOptions: {
+					show: {
+						resource: ['user', 'post'],
+						operation: ['getAll'],
+					},
+				},
+				default: {},
+				options: [
+					{
+						displayName: 'Style',
+						name: 'style',
+						type: 'options',
+						options: [
+							{
+								name: 'Offset and Limit',
+								value: 'offset',
+								description: 'Pages are requested with ?offset=100&limit=50',
+							},
+							{
+								name: 'Page Number',
+								value: 'page',
+								description: 'Pages are requested with ?page=3&limit=50',
+							},
+							{
+								name: 'Cursor',
+								value: 'cursor',
+								description: 'Each response carries a cursor or token for the next page',
+							},
+							{
+								name: 'Link Header',
+								value: 'linkHeader',
+								description: 'The next page is announced in an RFC 5988 Link header',
+							},
+						],
+						default: 'offset',
+						description: 'How the API splits results into pages',
+					},
+					{
+						displayName: 'Page Size',
+						name: 'pageSize',
+						type: 'number',
+						typeOptions: {
+							minValue: 1,
+						},
+						default: 50,
+						description: 'Number of results to request per page',
+					},
+					{
+						displayName: 'Max Pages',
+						name: 'maxPages',
+						type: 'number',
+						typeOptions: {
+							minValue: 1,
+						},
+						default: 100,
+						description: 'Stop after this many requests, even if the API reports more pages',
+					},
+					{
+						displayName: 'Items Path',
+						name: 'itemsPath',
+						type: 'string',
+						default: '',
+						placeholder: 'data.users',
+						description:
+							'Dot-notation path of the result list in the response. Leave empty to use the response itself or its data, items or results field.',
+					},
+					{
+						displayName: 'Limit Parameter',
+						name: 'limitParameter',
+						type: 'string',
+						default: 'limit',
+						description: 'Query parameter that sets the page size',
+					},
+					{
+						displayName: 'Offset Parameter',
+						name: 'offsetParameter',
+						type: 'string',
+						default: 'offset',
+						description: 'Query parameter that sets the offset, for the offset style',
+					},
+					{
+						displayName: 'Page Parameter',
+						name: 'pageParameter',
+						type: 'string',
+						default: 'page',
+						description: 'Query parameter that sets the page number, for the page number style',
+					},
+					{
+						displayName: 'Cursor Parameter',
+						name: 'cursorParameter',
+						type: 'string',
+						default: 'cursor',
+						description: 'Query parameter that passes the cursor, for the cursor style',
+					},
+					{
+						displayName: 'Next Cursor Path',
+						name: 'nextCursorPath',
+						type: 'string',
+						default: 'next_cursor',
+						placeholder: 'meta.next_token',
+						description:
+							'Dot-notation path of the next cursor in the response, for the cursor style',
+					},
+				],
+			},
+			// Post operations parameters
+			{
+				displayName: 'Post ID',
+				name: 'postId',
+				type: 'string',
+				required: true,
+				displayOptions: {
+					show: {
+						resource: ['post'],
+						operation: ['get', 'update', 'delete'],
+					},
+				},
+				default: '',
+				placeholder: '67890',
+				description: 'The ID of the post',
+			},
+			{
+				displayName: 'Title',
+				name: 'title',
+				type: 'string',
+				required: true,
+				displayOptions: {
+					show: {
+						resource: ['post'],
+						operation: ['create', 'update'],
+					},
+				},
+				default: '',
+				placeholder: 'My Post Title',
+				description: 'The title of the post',
+			},
+			{
+				displayName: 'Content',
+				name: 'content',
+				type: 'string',
+				typeOptions: {
+					rows: 4,
+				},
+				required: true,
+				displayOptions: {
+					show: {
+						resource: ['post'],
+						operation: ['create', 'update'],
+					},
+				},
+				default: '',
+				placeholder: 'Post content goes here...',
+				description: 'The content of the post',
+			},
+			{
+				displayName: 'Additional Fields',
+				name: 'additionalFields',
+				type: 'collection',
+				placeholder: 'Add Field',
+				default: {},
+				displayOptions: {
+					show: {
+						resource: ['user', 'post'],
+						operation: ['create', 'update'],
+					},
+				},
+				options: [
+					{
+						displayName: 'Tags',
+						name: 'tags',
+						type: 'string',
+						default: '',
+						placeholder: 'tag1, tag2, tag3',
+						description: 'Comma-separated list of tags',
+					},
+					{
+						displayName: 'Status',
+						name: 'status',
+						type: 'options',
+						options: [
+							{
+								name: 'Active',
+								value: 'active',
+							},
+							{
+								name: 'Inactive',
+								value: 'inactive',
+							},
+							{
+								name: 'Pending',
+								value: 'pending',
+							},
+						],
+						default: 'active',
+						description: 'The status of the item',
+					},
+				],
+			},
+			{
+				displayName: 'Endpoints',
+				name: 'endpoints',
+				type: 'collection',
+				placeholder: 'Override Endpoint',
+				default: {},
+				description:
+					'Paths of the resources, relative to the base URL and API version of the credential',
+				options: [
+					{
+						displayName: 'Users Path',
+						name: 'users',
+						type: 'string',
+						default: '/users',
+						description:
+							'Path of the user collection. Single users are read from <path>/<User ID>.',
+					},
+					{
+						displayName: 'Posts Path',
+						name: 'posts',
+						type: 'string',
+						default: '/posts',
+						description:
+							'Path of the post collection. Single posts are read from <path>/<Post ID>.',
+					},
+				],
+			},
+			{
+				displayName: 'Batching',
+				name: 'batching',
+				type: 'collection',
+				placeholder: 'Add Option',
+				default: {},
+				displayOptions: {
+					show: {
+						operation: ['create', 'update', 'delete'],
+					},
+				},
+				options: [
+					{
+						displayName: 'Items per Request',
+						name: 'batchSize',
+						type: 'number',
+						typeOptions: {
+							minValue: 1,
+						},
+						default: 1,
+						description:
+							'Items sent together in one request. Above 1, the items go as an array to the bulk endpoint <path>/bulk, which must answer with an array in the same order.',
+					},
+					{
+						displayName: 'Max Concurrent Requests',
+						name: 'concurrency',
+						type: 'number',
+						typeOptions: {
+							minValue: 1,
+						},
+						default: 1,
+						description: 'How many requests may be in flight at the same time',
+					},
+					{
+						displayName: 'Batch Interval (Ms)',
+						name: 'batchInterval',
+						type: 'number',
+						typeOptions: {
+							minValue: 0,
+						},
+						default: 0,
+						description: 'Time to wait after a request before sending the next batch',
+					},
+				],
+			},
+			{
+				displayName: 'Retry',
+				name: 'retry',
+				type: 'collection',
+				placeholder: 'Add Option',
+				default: {},
+				description:
+					'How requests failing with 429, 5xx or network errors are retried. Retries wait with exponential backoff and jitter, or as long as the Retry-After header asks. Create requests (POST) are only retried on 429 and refused connections, so they never create duplicates.',
+				options: [
+					{
+						displayName: 'Max Retries per Request',
+						name: 'maxRetries',
+						type: 'number',
+						typeOptions: {
+							minValue: 0,
+						},
+						default: 3,
+						description: 'How often a single request is retried. Set to 0 to disable retries.',
+					},
+					{
+						displayName: 'Retry Budget',
+						name: 'retryBudget',
+						type: 'number',
+						typeOptions: {
+							minValue: 0,
+						},
+						default: 50,
+						description:
+							'Total number of retries this node may make in one execution, across all items',
+					},
+					{
+						displayName: 'Initial Delay (Ms)',
+						name: 'initialDelay',
+						type: 'number',
+						typeOptions: {
+							minValue: 0,
+						},
+						default: 1000,
+						description: 'Upper bound of the first delay, doubled with every further retry',
+					},
+					{
+						displayName: 'Max Delay (Ms)',
+						name: 'maxDelay',
+						type: 'number',
+						typeOptions: {
+							minValue: 0,
+						},
+						default: 30000,
+						description:
+							'Longest time to wait before a retry. Requests whose Retry-After asks for more are not retried.',
+					},
+					{
+						displayName: 'Circuit Breaker Threshold',
+						name: 'failureThreshold',
+						type: 'number',
+						typeOptions: {
+							minValue: 1,
+						},
+						default: 5,
+						description:
+							'Consecutive failed attempts after which requests with this credential are refused for a while',
+					},
+					{
+						displayName: 'Circuit Breaker Reset (Seconds)',
+						name: 'resetTimeout',
+						type: 'number',
+						typeOptions: {
+							minValue: 1,
+						},
+						default: 60,
+						description: 'How long requests are refused before a trial request is let through',
+					},
+				],
+			},
+		],
+	};
+
+	methods = {
+		credentialTest: {
+			exampleApiCredentialTest,
+			exampleOAuth2ApiCredentialTest,
+		},
+	};
+
+	async execute(this: IExecuteFunctions): Promise<INodeExecutionData[][]> {
+		const items = this.getInputData();
+		const returnData: INodeExecutionData[] = [];
+
+		const resource = this.getNodeParameter('resource', 0) as Resource;
+		const operation = this.getNodeParameter('operation', 0) as string;
+
+		if (operation in bulkMethods) {
+			const batching = this.getNodeParameter('batching', 0, {}) as IDataObject;
+
+			return [
+				await executeBatched(this, items.length, resource, operation, {
+					batchSize: (batching.batchSize as number | undefined) ?? 1,
+					concurrency: (batching.concurrency as number | undefined) ?? 1,
+					interval: (batching.batchInterval as number | undefined) ?? 0,
+				}),
+			];
+		}
+
+		for (let i = 0; i < items.length; i++) {
+			try {
+				const responseData = await executeOperation(this, resource, operation, i);
+
+				const executionData = this.helpers.constructExecutionMetaData(
+					this.helpers.returnJsonArray(responseData),
+					{ itemData: { item: i } },
+				);
+
+				returnData.push(...executionData);
+			} catch (error) {
+				if (this.continueOnFail()) {
+					const executionErrorData = this.helpers.constructExecutionMetaData(
+						this.helpers.returnJsonArray({ error: (error as Error).message }),
+						{ itemData: { item: i } },
+					);
+
+					returnData.push(...executionErrorData);
+					continue;
+				}
+				throw error;
+			}
+		}
+
+		return [returnData];
+	}
+}
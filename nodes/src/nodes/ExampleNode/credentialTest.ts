@@ -0,0 +1,180 @@
+import type {
+	ICredentialsDecrypted,
+	ICredentialTestFunctions,
+	IDataObject,
+	INodeCredentialTestResult,
+	IRequestOptions,
+} from 'n8n-workflow';
+
+import { ExampleApi } from '../../credentials/ExampleApi.credentials';
+import { getConnectionOptions } from '../../utils/connection';
+import { CredentialTestRule, runCredentialTest } from '../../utils/credentialTest';
+import { withRetry } from '../../utils/retry';
+import { defaultRetrySettings, getCircuit } from './transport';
+
+// A credential test should answer within a few seconds, so it retries less than the node
+const testRetrySettings = { ...defaultRetrySettings, maxRetries: 2, initialDelay: 500 };
+
+const apiTestRules: CredentialTestRule[] = [
+	{
+		type: 'responseSuccessBody',
+		properties: {
+			key: 'authenticated',
+			value: false,
+			message: 'The API did not accept the credentials',
+		},
+	},
+];
+
+const tokenTestRules: CredentialTestRule[] = [
+	{
+		type: 'responseCode',
+		properties: {
+			value: 400,
+			message:
+				'The token endpoint rejected the request (400): check the client ID, secret and scope',
+		},
+	},
+	{
+		type: 'responseCode',
+		properties: {
+			value: 401,
+			message: 'The token endpoint rejected the client ID or secret (401)',
+		},
+	},
+	{
+		type: 'responseSuccessBody',
+		properties: {
+			key: 'access_token',
+			value: undefined,
+			message: 'The token endpoint did not return an access token',
+		},
+	},
+];
+
+const getApiRoot = (data: IDataObject): string => {
+	const baseUrl = ((data.baseUrl as string | undefined) ?? '').replace(/\/+$/, '');
+	const apiVersion = (data.apiVersion as string | undefined) ?? '';
+
+	return apiVersion ? `${baseUrl}/${apiVersion}` : baseUrl;
+};
+
+// Sends the test request with the credential's timeout and TLS options, through the retry
+// wrapper and the circuit breaker of the credential
+async function sendTestRequest(
+	ctx: ICredentialTestFunctions,
+	credential: ICredentialsDecrypted,
+	options: IRequestOptions & { uri: string },
+	rules: CredentialTestRule[],
+): Promise<INodeCredentialTestResult> {
+	return await runCredentialTest(
+		async () =>
+			await withRetry(
+				async (): Promise<unknown> =>
+					await ctx.helpers.request({
+						json: true,
+						...getConnectionOptions(credential.data ?? {}),
+						...options,
+					}),
+				testRetrySettings,
+				{
+					logger: ctx.logger,
+					metadata: { credential: credential.name },
+					circuit: getCircuit(credential.id),
+				},
+			),
+		options.uri,
+		rules,
+	);
+}
+
+/**
+ * Tests an Example API credential against `/auth/test`. The request goes through
+ * the same retry and circuit breaker handling as the node's own requests, so a
+ * briefly unavailable API does not make a valid credential look broken.
+ */
+export async function exampleApiCredentialTest(
+	this: ICredentialTestFunctions,
+	credential: ICredentialsDecrypted,
+): Promise<INodeCredentialTestResult> {
+	const data = credential.data ?? {};
+	const { url, headers } = await new ExampleApi().authenticate(data, {
+		url: `${getApiRoot(data)}/auth/test`,
+		headers: {
+			Accept: 'application/json',
+		},
+	});
+
+	return await sendTestRequest(
+		this,
+		credential,
+		{ method: 'GET', uri: url, headers: headers as IDataObject },
+		apiTestRules,
+	);
+}
+
+/**
+ * Tests an Example OAuth2 credential. With the client credentials grant a token is
+ * requested from the token endpoint; with the authorization code grant the token
+ * of the connected account is sent to `/auth/test`.
+ */
+export async function exampleOAuth2ApiCredentialTest(
+	this: ICredentialTestFunctions,
+	credential: ICredentialsDecrypted,
+): Promise<INodeCredentialTestResult> {
+	const data = credential.data ?? {};
+
+	if (data.grantType === 'authorizationCode') {
+		const accessToken = (data.oauthTokenData as IDataObject | undefined)?.access_token;
+
+		if (typeof accessToken !== 'string' || accessToken === '') {
+			return {
+				status: 'Error',
+				message: 'Connect the credential to an account first',
+			};
+		}
+
+		return await sendTestRequest(
+			this,
+			credential,
+			{
+				method: 'GET',
+				uri: `${getApiRoot(data)}/auth/test`,
+				headers: {
+					Accept: 'application/json',
+					Authorization: `Bearer ${accessToken}`,
+				},
+			},
+			[
+				{
+					type: 'responseCode',
+					properties: {
+						value: 401,
+						message: 'The access token was rejected (401): reconnect the credential',
+					},
+				},
+				...apiTestRules,
+			],
+		);
+	}
+
+	const clientId = (data.clientId as string | undefined) ?? '';
+	const clientSecret = (data.clientSecret as string | undefined) ?? '';
+	const form: IDataObject = { grant_type: 'client_credentials' };
+	const headers: IDataObject = { Accept: 'application/json' };
+
+	if (data.scope) form.scope = data.scope;
+
+	if (data.authentication === 'body') {
+		Object.assign(form, { client_id: clientId, client_secret: clientSecret });
+	} else {
+		headers.Authorization = `Basic ${Buffer.from(`${clientId}:${clientSecret}`).toString('base64')}`;
+	}
+
+	return await sendTestRequest(
+		this,
+		credential,
+		{ method: 'POST', uri: data.accessTokenUrl as string, headers, form },
+		tokenTestRules,
+	);
+}
@@ -0,0 +1,232 @@
+import type {
+	IDataObject,
+	IExecuteFunctions,
+	IHttpRequestMethods,
+	IOAuth2Options,
+	IRequestOptions,
+	JsonObject,
+} from 'n8n-workflow';
+import { NodeApiError, NodeOperationError } from 'n8n-workflow';
+
+import { getConnectionOptions } from '../../utils/connection';
+import { paginate, PaginationOptions } from '../../utils/pagination';
+import {
+	CircuitBreakerSettings,
+	CircuitOpenError,
+	CircuitStore,
+	RetryBudget,
+	RetryHooks,
+	RetrySettings,
+	withRetry,
+} from '../../utils/retry';
+
+export const defaultRetrySettings: RetrySettings & CircuitBreakerSettings = {
+	maxRetries: 3,
+	initialDelay: 1000,
+	maxDelay: 30000,
+	failureThreshold: 5,
+	resetTimeout: 60000,
+};
+
+const DEFAULT_RETRY_BUDGET = 50;
+
+export type ExampleCredentialType = 'exampleApi' | 'exampleOAuth2Api';
+
+// n8n signs OAuth2 requests with the stored token. When the API answers 401 it fetches a
+// new token (refresh token or client credentials grant), stores it and resends once.
+const oAuth2Options: IOAuth2Options = {
+	tokenType: 'Bearer',
+	tokenExpiredStatusCode: 401,
+};
+
+/**
+ * Returns the credential type picked in the node's "Authentication" parameter.
+ */
+export const getCredentialType = (ctx: IExecuteFunctions): ExampleCredentialType =>
+	ctx.getNodeParameter('authentication', 0, 'exampleApi') as ExampleCredentialType;
+
+// Circuit breaker state per Example API credential, shared by every node using it
+const circuits: CircuitStore = new Map();
+
+// Retries left to each running node, see the node's "Retry Budget" option
+const budgets = new WeakMap<IExecuteFunctions, RetryBudget>();
+
+/**
+ * Returns the hooks that let withRetry() share the circuit breaker of a credential.
+ */
+export const getCircuit = (
+	credentialId: string,
+	settings: CircuitBreakerSettings = defaultRetrySettings,
+): RetryHooks['circuit'] => ({ store: circuits, key: credentialId, settings });
+
+// Reads the node's "Retry" option; the budget is created on the first request of an execution
+function getRetryOptions(ctx: IExecuteFunctions, itemIndex = 0) {
+	const retry = ctx.getNodeParameter('retry', itemIndex, {}) as IDataObject;
+	const settings = { ...defaultRetrySettings };
+
+	for (const key of ['maxRetries', 'initialDelay', 'maxDelay', 'failureThreshold'] as const) {
+		if (typeof retry[key] === 'number') settings[key] = retry[key];
+	}
+
+	if (typeof retry.resetTimeout === 'number') settings.resetTimeout = retry.resetTimeout * 1000;
+
+	let budget = budgets.get(ctx);
+
+	if (!budget) {
+		budget = {
+			remaining: typeof retry.retryBudget === 'number' ? retry.retryBudget : DEFAULT_RETRY_BUDGET,
+		};
+		budgets.set(ctx, budget);
+	}
+
+	const node = ctx.getNode();
+
+	return {
+		settings,
+		hooks: {
+			logger: ctx.logger,
+			metadata: { node: node.name, itemIndex },
+			budget,
+			circuit: getCircuit(
+				node.credentials?.[getCredentialType(ctx)]?.id ?? getCredentialType(ctx),
+				settings,
+			),
+		},
+	};
+}
+
+/**
+ * Returns the API root for the configured credential, e.g. `https://api.example.com/v1`.
+ */
+export async function getApiRoot(ctx: IExecuteFunctions): Promise<string> {
+	const credentials = await ctx.getCredentials<IDataObject>(getCredentialType(ctx));
+	const baseUrl = ((credentials.baseUrl as string | undefined) ?? '').replace(/\/+$/, '');
+	const apiVersion = (credentials.apiVersion as string | undefined) ?? '';
+
+	return apiVersion ? `${baseUrl}/${apiVersion}` : baseUrl;
+}
+
+const joinPath = (root: string, endpoint: string) =>
+	`${root}/${endpoint.replace(/^\/+/, '')}`.replace(/\/+$/, '');
+
+// Sends the request with the credential's timeout and TLS options, retrying transient failures,
+// and turns HTTP errors into a NodeApiError that carries the status code and the response body
+async function sendRequest(
+	ctx: IExecuteFunctions,
+	options: IRequestOptions,
+	itemIndex?: number,
+): Promise<unknown> {
+	const credentialType = getCredentialType(ctx);
+	const { settings, hooks } = getRetryOptions(ctx, itemIndex);
+	const requestOptions: IRequestOptions = {
+		...options,
+		...getConnectionOptions(await ctx.getCredentials<IDataObject>(credentialType, itemIndex)),
+	};
+
+	try {
+		return await withRetry(
+			async (): Promise<unknown> =>
+				await ctx.helpers.requestWithAuthentication.call(
+					ctx,
+					credentialType,
+					requestOptions,
+					credentialType === 'exampleOAuth2Api' ? { oauth2: oAuth2Options } : undefined,
+					itemIndex,
+				),
+			settings,
+			{ ...hooks, method: requestOptions.method },
+		);
+	} catch (error) {
+		if (error instanceof CircuitOpenError) {
+			throw new NodeOperationError(ctx.getNode(), error.message, {
+				itemIndex,
+				description:
+					'The Example API failed repeatedly for this credential. Requests resume once the reset timeout of the "Retry" option has passed.',
+			});
+		}
+
+		const { statusCode, error: responseBody } = error as JsonObject;
+
+		// A 401 that gets this far survived n8n's token refresh, so the grant itself is no longer valid
+		const tokenRejected = credentialType === 'exampleOAuth2Api' && statusCode === 401;
+
+		throw new NodeApiError(ctx.getNode(), error as JsonObject, {
+			itemIndex,
+			httpCode: statusCode === undefined ? undefined : String(statusCode),
+			message: tokenRejected
+				? 'The API rejected the OAuth2 access token, even after refreshing it'
+				: undefined,
+			description: tokenRejected
+				? 'Reconnect the OAuth2 credential, or check its client ID, secret and scopes.'
+				: responseBody === undefined || typeof responseBody === 'string'
+					? (responseBody as string | undefined)
+					: JSON.stringify(responseBody),
+		});
+	}
+}
+
+/**
+ * Sends an authenticated request to the Example API. HTTP errors are rethrown as
+ * a NodeApiError that carries the status code and the response body.
+ */
+export async function exampleApiRequest(
+	ctx: IExecuteFunctions,
+	method: IHttpRequestMethods,
+	endpoint: string,
+	body?: IDataObject | IDataObject[],
+	qs?: IDataObject,
+	itemIndex?: number,
+): Promise<unknown> {
+	const options: IRequestOptions = {
+		method,
+		uri: joinPath(await getApiRoot(ctx), endpoint),
+		headers: {
+			Accept: 'application/json',
+		},
+		json: true,
+	};
+
+	if (body !== undefined) {
+		options.body = body;
+	}
+
+	if (qs && Object.keys(qs).length > 0) {
+		options.qs = qs;
+	}
+
+	return await sendRequest(ctx, options, itemIndex);
+}
+
+/**
+ * Pages through a list endpoint of the Example API and yields the items of
+ * every page as it arrives.
+ */
+export async function* exampleApiRequestPages(
+	ctx: IExecuteFunctions,
+	endpoint: string,
+	pagination: PaginationOptions,
+	qs: IDataObject = {},
+	itemIndex?: number,
+): AsyncGenerator<IDataObject[]> {
+	const uri = joinPath(await getApiRoot(ctx), endpoint);
+
+	yield* paginate(async (request) => {
+		const url = request.url ?? uri;
+		const response = (await sendRequest(
+			ctx,
+			{
+				method: 'GET',
+				uri: url,
+				headers: {
+					Accept: 'application/json',
+				},
+				qs: request.url ? request.qs : { ...qs, ...request.qs },
+				json: true,
+				resolveWithFullResponse: true,
+			},
+			itemIndex,
+		)) as { body: unknown; headers: Record<string, string> };
+
+		return { body: response.body, headers: response.headers, url };
+	}, pagination);
+}
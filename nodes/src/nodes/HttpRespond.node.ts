@@ -0,0 +1,208 @@
+import {
+	IDataObject,
+	IExecuteFunctions,
+	IN8nHttpFullResponse,
+	INodeExecutionData,
+	INodeType,
+	INodeTypeDescription,
+	jsonParse,
+	NodeOperationError,
+} from 'n8n-workflow';
+
+export class HttpRespond implements INodeType {
+	description: INodeTypeDescription = {
+		displayName: 'HTTP Respond',
+		name: 'httpRespond',
+		icon: 'fa:reply',
+		group: ['transform'],
+		version: 1,
+		description: 'Returns data for an HTTP Trigger using the "Using Respond Node" response mode',
+		defaults: {
+			name: 'HTTP Respond',
+		},
+		inputs: ['main'],
+		outputs: ['main'],
+		properties: [
+			{
+				displayName: 'Respond With',
+				name: 'respondWith',
+				type: 'options',
+				options: [
+					{
+						name: 'Binary',
+						value: 'binary',
+						description: 'Respond with binary data from the first incoming item',
+					},
+					{
+						name: 'First Incoming Item',
+						value: 'firstIncomingItem',
+						description: 'Respond with the JSON of the first incoming item',
+					},
+					{
+						name: 'JSON',
+						value: 'json',
+						description: 'Respond with a custom JSON body',
+					},
+					{
+						name: 'No Data',
+						value: 'noData',
+						description: 'Respond with an empty body',
+					},
+					{
+						name: 'Text',
+						value: 'text',
+						description: 'Respond with a plain text body',
+					},
+				],
+				default: 'firstIncomingItem',
+				description: 'The data that should be returned',
+			},
+			{
+				displayName: 'Response Body',
+				name: 'responseBody',
+				type: 'json',
+				displayOptions: {
+					show: {
+						respondWith: ['json'],
+					},
+				},
+				default: '{\n  "myField": "value"\n}',
+				description: 'The JSON body to return',
+			},
+			{
+				displayName: 'Response Body',
+				name: 'responseText',
+				type: 'string',
+				typeOptions: {
+					rows: 4,
+				},
+				displayOptions: {
+					show: {
+						respondWith: ['text'],
+					},
+				},
+				default: '',
+				placeholder: 'e.g. Workflow completed',
+				description: 'The text body to return',
+			},
+			{
+				displayName: 'Binary Property',
+				name: 'binaryPropertyName',
+				type: 'string',
+				displayOptions: {
+					show: {
+						respondWith: ['binary'],
+					},
+				},
+				default: 'data',
+				description: 'Name of the binary property of the first incoming item to return',
+			},
+			{
+				displayName: 'Options',
+				name: 'options',
+				type: 'collection',
+				placeholder: 'Add Option',
+				default: {},
+				options: [
+					{
+						displayName: 'Response Code',
+						name: 'responseCode',
+						type: 'number',
+						typeOptions: {
+							minValue: 100,
+							maxValue: 599,
+						},
+						default: 200,
+						description: 'The HTTP response code to return',
+					},
+					{
+						displayName: 'Response Headers',
+						name: 'responseHeaders',
+						type: 'fixedCollection',
+						placeholder: 'Add Response Header',
+						typeOptions: {
+							multipleValues: true,
+						},
+						default: {},
+						options: [
+							{
+								name: 'entries',
+								displayName: 'Entries',
+								values: [
+									{
+										displayName: 'Name',
+										name: 'name',
+										type: 'string',
+										default: '',
+										description: 'Name of the header',
+									},
+									{
+										displayName: 'Value',
+										name: 'value',
+										type: 'string',
+										default: '',
+										description: 'Value of the header',
+									},
+								],
+							},
+						],
+					},
+				],
+			},
+		],
+	};
+
+	async execute(this: IExecuteFunctions): Promise<INodeExecutionData[][]> {
+		const items = this.getInputData();
+
+		// A webhook can only be answered once, so the first item decides the response
+		const respondWith = this.getNodeParameter('respondWith', 0) as string;
+		const options = this.getNodeParameter('options', 0, {}) as IDataObject;
+
+		const headers: IDataObject = {};
+		const headerEntries =
+			((options.responseHeaders as IDataObject | undefined)?.entries as IDataObject[]) ?? [];
+
+		for (const header of headerEntries) {
+			headers[(header.name as string).toLowerCase()] = header.value;
+		}
+
+		let body: IN8nHttpFullResponse['body'] = '';
+
+		if (respondWith === 'json') {
+			const responseBody = this.getNodeParameter('responseBody', 0) as string | IDataObject;
+
+			if (typeof responseBody === 'string') {
+				try {
+					body = jsonParse<IDataObject>(responseBody);
+				} catch {
+					throw new NodeOperationError(this.getNode(), 'Invalid JSON in "Response Body" field', {
+						itemIndex: 0,
+					});
+				}
+			} else {
+				body = responseBody;
+			}
+		} else if (respondWith === 'firstIncomingItem') {
+			body = items[0]?.json ?? {};
+		} else if (respondWith === 'text') {
+			body = this.getNodeParameter('responseText', 0) as string;
+			headers['content-type'] ??= 'text/plain; charset=utf-8';
+		} else if (respondWith === 'binary') {
+			const binaryPropertyName = this.getNodeParameter('binaryPropertyName', 0) as string;
+			const binaryData = this.helpers.assertBinaryData(0, binaryPropertyName);
+
+			body = await this.helpers.getBinaryDataBuffer(0, binaryPropertyName);
+			headers['content-type'] ??= binaryData.mimeType;
+			headers['content-length'] = (body as Buffer).length;
+		}
+
+		this.sendResponse({
+			body,
+			headers,
+			statusCode: (options.responseCode as number | undefined) ?? 200,
+		});
+
+		return [items];
+	}
+}
@@ -0,0 +1,66 @@
+import {
+	IDataObject,
+	INodeType,
+	INodeTypeBaseDescription,
+	INodeTypeDescription,
+	IWebhookFunctions,
+	IWebhookResponseData,
+} from 'n8n-workflow';
+
+import {
+	webhookBasicAuthApiTest,
+	webhookHeaderAuthApiTest,
+	webhookJwtAuthApiTest,
+	webhookSignatureApiTest,
+} from './credentialTest';
+import { versionDescription } from './description';
+import { handleWebhook, ReceivedRequest, webhookMethods } from './webhook';
+
+// Version 1 returns the query as `params` and path parameters only when the path has some
+const toJson = (request: ReceivedRequest): IDataObject => {
+	const returnData: IDataObject = {
+		headers: request.headers,
+		params: request.query,
+		body: request.body,
+		method: request.method,
+		url: request.url,
+		timestamp: new Date().toISOString(),
+	};
+
+	if (request.jwtPayload) {
+		returnData.jwtPayload = request.jwtPayload;
+	}
+
+	if (request.validationErrors) {
+		returnData.validationErrors = request.validationErrors;
+	}
+
+	if (Object.keys(request.pathParams).length > 0) {
+		returnData.pathParams = request.pathParams;
+	}
+
+	return returnData;
+};
+
+export class HttpTriggerV1 implements INodeType {
+	description: INodeTypeDescription;
+
+	constructor(baseDescription: INodeTypeBaseDescription) {
+		this.description = versionDescription(baseDescription, 1);
+	}
+
+	methods = {
+		credentialTest: {
+			webhookBasicAuthApiTest,
+			webhookHeaderAuthApiTest,
+			webhookJwtAuthApiTest,
+			webhookSignatureApiTest,
+		},
+	};
+
+	webhookMethods = webhookMethods;
+
+	async webhook(this: IWebhookFunctions): Promise<IWebhookResponseData> {
+		return handleWebhook.call(this, toJson);
+	}
+}
@@ -0,0 +1,66 @@
+import {
+	IDataObject,
+	INodeType,
+	INodeTypeBaseDescription,
+	INodeTypeDescription,
+	IWebhookFunctions,
+	IWebhookResponseData,
+} from 'n8n-workflow';
+
+import {
+	webhookBasicAuthApiTest,
+	webhookHeaderAuthApiTest,
+	webhookJwtAuthApiTest,
+	webhookSignatureApiTest,
+} from './credentialTest';
+import { versionDescription } from './description';
+import { handleWebhook, ReceivedRequest, webhookMethods } from './webhook';
+
+/**
+ * Version 2 outputs the request like n8n's Webhook node: path parameters as
+ * `params`, always present, and the query string as `query`.
+ */
+const toJson = (request: ReceivedRequest): IDataObject => {
+	const returnData: IDataObject = {
+		headers: request.headers,
+		params: request.pathParams,
+		query: request.query,
+		body: request.body,
+		method: request.method,
+		url: request.url,
+		timestamp: new Date().toISOString(),
+	};
+
+	if (request.jwtPayload) {
+		returnData.jwtPayload = request.jwtPayload;
+	}
+
+	if (request.validationErrors) {
+		returnData.validationErrors = request.validationErrors;
+	}
+
+	return returnData;
+};
+
+export class HttpTriggerV2 implements INodeType {
+	description: INodeTypeDescription;
+
+	constructor(baseDescription: INodeTypeBaseDescription) {
+		this.description = versionDescription(baseDescription, 2);
+	}
+
+	methods = {
+		credentialTest: {
+			webhookBasicAuthApiTest,
+			webhookHeaderAuthApiTest,
+			webhookJwtAuthApiTest,
+			webhookSignatureApiTest,
+		},
+	};
+
+	webhookMethods = webhookMethods;
+
+	async webhook(this: IWebhookFunctions): Promise<IWebhookResponseData> {
+		return handleWebhook.call(this, toJson);
+	}
+}
@@ -0,0 +1,177 @@
+import busboy from 'busboy';
+import type { IBinaryData, IBinaryKeyData, IDataObject, IWebhookFunctions } from 'n8n-workflow';
+
+import { WebhookRequestError } from './error';
+
+export interface BinaryUploadSettings {
+	binaryPropertyName: string;
+	// Maximum size of a single file in bytes, 0 for no limit
+	maxFileSize: number;
+	// Exact MIME types or wildcards such as "image/*", empty to allow any type
+	allowedMimeTypes: string[];
+}
+
+// Bodies of these types are parsed by n8n and stay JSON/text
+const parsedContentTypes = [
+	/^application\/(.+\+)?json$/,
+	/^application\/x-www-form-urlencoded$/,
+	/^application\/(.+\+)?xml$/,
+	/^text\//,
+	/^multipart\//,
+];
+
+export const getMimeType = (contentType: string | undefined): string =>
+	(contentType ?? '').split(';')[0].trim().toLowerCase();
+
+export const isMultipart = (contentType: string | undefined): boolean =>
+	getMimeType(contentType) === 'multipart/form-data';
+
+export const isBinaryContentType = (contentType: string | undefined): boolean => {
+	const mimeType = getMimeType(contentType);
+
+	return mimeType !== '' && !parsedContentTypes.some((pattern) => pattern.test(mimeType));
+};
+
+export const parseAllowedMimeTypes = (value: string): string[] =>
+	value
+		.split(',')
+		.map((entry) => entry.trim().toLowerCase())
+		.filter((entry) => entry !== '');
+
+export const isMimeTypeAllowed = (mimeType: string, allowed: string[]): boolean => {
+	if (allowed.length === 0) return true;
+
+	const normalized = mimeType.toLowerCase();
+
+	return allowed.some((pattern) =>
+		pattern.endsWith('/*')
+			? normalized.startsWith(pattern.slice(0, -1))
+			: pattern === '*/*' || pattern === normalized,
+	);
+};
+
+const addField = (fields: IDataObject, name: string, value: string) => {
+	const key = name.endsWith('[]') ? name.slice(0, -2) : name;
+	const existing = fields[key];
+
+	if (Array.isArray(existing)) {
+		(existing as string[]).push(value);
+	} else if (existing !== undefined) {
+		fields[key] = [existing as string, value];
+	} else {
+		fields[key] = name.endsWith('[]') ? [value] : value;
+	}
+};
+
+interface UploadedFile {
+	filename: string;
+	mimeType: string;
+	content: Buffer;
+}
+
+/**
+ * Parses a multipart/form-data request into its text fields and one binary
+ * property per uploaded file, named `<binaryPropertyName><index>`.
+ */
+export async function parseMultipartBody(
+	ctx: IWebhookFunctions,
+	settings: BinaryUploadSettings,
+): Promise<{ fields: IDataObject; binary: IBinaryKeyData }> {
+	const req = ctx.getRequestObject();
+
+	const { fields, files } = await new Promise<{ fields: IDataObject; files: UploadedFile[] }>(
+		(resolve, reject) => {
+			const fields: IDataObject = {};
+			const files: UploadedFile[] = [];
+			let failure: WebhookRequestError | undefined;
+
+			let parser: busboy.Busboy;
+
+			try {
+				parser = busboy({
+					headers: req.headers,
+					limits: settings.maxFileSize > 0 ? { fileSize: settings.maxFileSize } : undefined,
+				});
+			} catch {
+				reject(new WebhookRequestError(400, 'Malformed multipart body'));
+
+				return;
+			}
+
+			parser.on('field', (name, value) => addField(fields, name, value));
+
+			parser.on('file', (_name, stream, info) => {
+				if (!isMimeTypeAllowed(info.mimeType, settings.allowedMimeTypes)) {
+					failure ??= new WebhookRequestError(415, `File type "${info.mimeType}" is not allowed`);
+					stream.resume();
+
+					return;
+				}
+
+				const chunks: Buffer[] = [];
+
+				stream.on('data', (chunk: Buffer) => chunks.push(chunk));
+				stream.on('limit', () => {
+					failure ??= new WebhookRequestError(
+						413,
+						`File "${info.filename}" exceeds the maximum allowed size`,
+					);
+				});
+				stream.on('end', () => {
+					files.push({
+						filename: info.filename,
+						mimeType: info.mimeType,
+						content: Buffer.concat(chunks),
+					});
+				});
+			});
+
+			parser.on('error', () => reject(new WebhookRequestError(400, 'Malformed multipart body')));
+			parser.on('close', () => (failure ? reject(failure) : resolve({ fields, files })));
+
+			// The body may already have been consumed, e.g. for signature verification
+			if (req.rawBody) {
+				parser.end(req.rawBody);
+			} else {
+				req.pipe(parser);
+			}
+		},
+	);
+
+	const binary: IBinaryKeyData = {};
+
+	for (const [index, file] of files.entries()) {
+		binary[`${settings.binaryPropertyName}${index}`] = await ctx.helpers.prepareBinaryData(
+			file.content,
+			file.filename,
+			file.mimeType,
+		);
+	}
+
+	return { fields, binary };
+}
+
+/**
+ * Turns a raw binary request body into a single binary property.
+ */
+export async function prepareRawBinaryBody(
+	ctx: IWebhookFunctions,
+	rawBody: Buffer,
+	settings: BinaryUploadSettings,
+): Promise<IBinaryKeyData> {
+	const req = ctx.getRequestObject();
+	const mimeType = getMimeType(req.headers['content-type']);
+
+	if (!isMimeTypeAllowed(mimeType, settings.allowedMimeTypes)) {
+		throw new WebhookRequestError(415, `File type "${mimeType}" is not allowed`);
+	}
+
+	if (settings.maxFileSize > 0 && rawBody.length > settings.maxFileSize) {
+		throw new WebhookRequestError(413, 'Request body exceeds the maximum allowed size');
+	}
+
+	const fileName = req.contentDisposition?.filename;
+	const binaryData: IBinaryData = await ctx.helpers.prepareBinaryData(rawBody, fileName, mimeType);
+
+	return { [settings.binaryPropertyName]: binaryData };
+}
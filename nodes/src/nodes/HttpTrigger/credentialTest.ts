@@ -0,0 +1,113 @@
+import { createPublicKey } from 'crypto';
+import { readFile } from 'fs/promises';
+import type {
+	ICredentialsDecrypted,
+	ICredentialTestFunctions,
+	IDataObject,
+	INodeCredentialTestResult,
+} from 'n8n-workflow';
+
+import type { JsonWebKeySet } from './jwt';
+
+// Webhook credentials verify incoming requests, so there is no API to call. Their tests
+// check that the credential can verify anything at all, e.g. that a key parses.
+
+const valid: INodeCredentialTestResult = {
+	status: 'OK',
+	message: 'The credential is valid and will be checked against incoming requests',
+};
+
+const invalid = (message: string): INodeCredentialTestResult => ({ status: 'Error', message });
+
+const isEmpty = (value: unknown) => typeof value !== 'string' || value.trim() === '';
+
+// Header names allowed by RFC 9110
+const headerName = /^[!#$%&'*+.^_`|~0-9A-Za-z-]+$/;
+
+export async function webhookBasicAuthApiTest(
+	this: ICredentialTestFunctions,
+	credential: ICredentialsDecrypted,
+): Promise<INodeCredentialTestResult> {
+	const { user, password } = credential.data ?? {};
+
+	if (isEmpty(user) || isEmpty(password)) {
+		return invalid('Enter both a user and a password');
+	}
+
+	if ((user as string).includes(':')) {
+		return invalid('The user must not contain a colon');
+	}
+
+	return valid;
+}
+
+export async function webhookHeaderAuthApiTest(
+	this: ICredentialTestFunctions,
+	credential: ICredentialsDecrypted,
+): Promise<INodeCredentialTestResult> {
+	const { name, value } = credential.data ?? {};
+
+	if (isEmpty(name) || !headerName.test(name as string)) {
+		return invalid(`"${String(name ?? '')}" is not a valid header name`);
+	}
+
+	if (isEmpty(value)) {
+		return invalid('Enter the value the header must have');
+	}
+
+	return valid;
+}
+
+export async function webhookJwtAuthApiTest(
+	this: ICredentialTestFunctions,
+	credential: ICredentialsDecrypted,
+): Promise<INodeCredentialTestResult> {
+	const data: IDataObject = credential.data ?? {};
+	const algorithm = (data.algorithm as string | undefined) ?? 'HS256';
+
+	if (data.keyType === 'jwksFile') {
+		let jwks: JsonWebKeySet;
+
+		try {
+			jwks = JSON.parse(await readFile(data.jwksFilePath as string, 'utf8')) as JsonWebKeySet;
+		} catch (error) {
+			return invalid(`The JWKS file could not be read: ${(error as Error).message}`);
+		}
+
+		const wantedKty = algorithm === 'HS256' ? 'oct' : 'RSA';
+		const keys = Array.isArray(jwks?.keys) ? jwks.keys.filter((key) => key.kty === wantedKty) : [];
+
+		if (keys.length === 0) {
+			return invalid(`The JWKS file has no "${wantedKty}" key for ${algorithm}`);
+		}
+
+		try {
+			if (wantedKty === 'RSA') keys.forEach((key) => createPublicKey({ key, format: 'jwk' }));
+		} catch (error) {
+			return invalid(`The JWKS file has an invalid RSA key: ${(error as Error).message}`);
+		}
+
+		return valid;
+	}
+
+	if (algorithm === 'HS256') {
+		return isEmpty(data.secret) ? invalid('Enter the secret tokens are signed with') : valid;
+	}
+
+	try {
+		createPublicKey(data.publicKey as string);
+	} catch {
+		return invalid('The public key is not a valid PEM key');
+	}
+
+	return valid;
+}
+
+export async function webhookSignatureApiTest(
+	this: ICredentialTestFunctions,
+	credential: ICredentialsDecrypted,
+): Promise<INodeCredentialTestResult> {
+	return isEmpty(credential.data?.secret)
+		? invalid('Enter the secret the sender signs requests with')
+		: valid;
+}
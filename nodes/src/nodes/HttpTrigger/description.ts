@@ -0,0 +1,901 @@
+import { INodeTypeBaseDescription, INodeTypeDescription } from 'n8n-workflow';
+
+import { configuredOutputs } from './routing';
+
+/**
+ * Describes one version of the node. The versions share their parameters, only
+ * the help texts follow the fields each version outputs.
+ */
+export const versionDescription = (
+	baseDescription: INodeTypeBaseDescription,
+	version: 1 | 2,
+): INodeTypeDescription => ({
+	...baseDescription,
+	version,
+	defaults: {
+		name: 'HTTP Trigger',
+	},
+	inputs: [],
+	outputs: `={{(${configuredOutputs.toString()})($parameter)}}`,
+	credentials: [
+		{
+			name: 'webhookBasicAuthApi',
+			required: true,
+			testedBy: 'webhookBasicAuthApiTest',
+			displayOptions: {
+				show: {
+					authentication: ['basicAuth'],
+				},
+			},
+		},
+		{
+			name: 'webhookHeaderAuthApi',
+			required: true,
+			testedBy: 'webhookHeaderAuthApiTest',
+			displayOptions: {
+				show: {
+					authentication: ['headerAuth'],
+				},
+			},
+		},
+		{
+			name: 'webhookJwtAuthApi',
+			required: true,
+			testedBy: 'webhookJwtAuthApiTest',
+			displayOptions: {
+				show: {
+					authentication: ['jwtAuth'],
+				},
+			},
+		},
+		{
+			name: 'webhookSignatureApi',
+			required: true,
+			testedBy: 'webhookSignatureApiTest',
+			displayOptions: {
+				show: {
+					authentication: ['hmacSignature'],
+				},
+			},
+		},
+	],
+	webhooks: [
+		{
+			name: 'default',
+			httpMethod: '={{$parameter["httpMethod"]}}',
+			responseCode: '={{$parameter["responseCode"]}}',
+			responseMode: '={{$parameter["responseMode"]}}',
+			responseData:
+				'={{$parameter["options"]["noResponseBody"] ? "noData" : $parameter["lastNodeResponseData"]}}',
+			path: '={{$parameter["path"]}}',
+		},
+	],
+	properties: [
+		{
+			displayName: 'Allow Multiple HTTP Methods',
+			name: 'multipleMethods',
+			type: 'boolean',
+			default: false,
+			description: 'Whether to listen for more than one HTTP method on the same path',
+		},
+		{
+			displayName: 'HTTP Method',
+			name: 'httpMethod',
+			type: 'options',
+			displayOptions: {
+				show: {
+					multipleMethods: [false],
+				},
+			},
+			options: [
+				{
+					name: 'GET',
+					value: 'GET',
+				},
+				{
+					name: 'POST',
+					value: 'POST',
+				},
+				{
+					name: 'PUT',
+					value: 'PUT',
+				},
+				{
+					name: 'DELETE',
+					value: 'DELETE',
+				},
+				{
+					name: 'PATCH',
+					value: 'PATCH',
+				},
+				{
+					name: 'HEAD',
+					value: 'HEAD',
+				},
+				{
+					name: 'OPTIONS',
+					value: 'OPTIONS',
+				},
+			],
+			default: 'POST',
+			description: 'The HTTP method to listen for',
+		},
+		{
+			displayName: 'HTTP Methods',
+			name: 'httpMethod',
+			type: 'multiOptions',
+			displayOptions: {
+				show: {
+					multipleMethods: [true],
+				},
+			},
+			options: [
+				{
+					name: 'GET',
+					value: 'GET',
+				},
+				{
+					name: 'POST',
+					value: 'POST',
+				},
+				{
+					name: 'PUT',
+					value: 'PUT',
+				},
+				{
+					name: 'DELETE',
+					value: 'DELETE',
+				},
+				{
+					name: 'PATCH',
+					value: 'PATCH',
+				},
+				{
+					name: 'HEAD',
+					value: 'HEAD',
+				},
+				{
+					name: 'OPTIONS',
+					value: 'OPTIONS',
+				},
+			],
+			default: ['GET', 'POST'],
+			description: 'The HTTP methods to listen for',
+		},
+		{
+			displayName: 'Route Methods to Separate Outputs',
+			name: 'separateOutputs',
+			type: 'boolean',
+			displayOptions: {
+				show: {
+					multipleMethods: [true],
+				},
+			},
+			default: false,
+			description: 'Whether to give every selected method its own output',
+		},
+		{
+			displayName: 'Path',
+			name: 'path',
+			type: 'string',
+			default: '',
+			placeholder: 'orders/:orderId/items/:itemId',
+			required: true,
+			description: `The path for the webhook URL. Segments starting with a colon are parameters, their values are returned in ${
+				version === 1 ? 'pathParams' : 'params'
+			}.`,
+		},
+		{
+			displayName: 'Authentication',
+			name: 'authentication',
+			type: 'options',
+			options: [
+				{
+					name: 'None',
+					value: 'none',
+				},
+				{
+					name: 'Basic Auth',
+					value: 'basicAuth',
+				},
+				{
+					name: 'Header Auth',
+					value: 'headerAuth',
+				},
+				{
+					name: 'JWT',
+					value: 'jwtAuth',
+					description: 'Verify a bearer JSON Web Token and expose its claims',
+				},
+				{
+					name: 'HMAC Signature',
+					value: 'hmacSignature',
+					description: 'Verify an HMAC signature computed over the raw request body',
+				},
+			],
+			default: 'none',
+			description: 'The way to authenticate incoming requests',
+		},
+		{
+			displayName: 'Signature Profile',
+			name: 'signatureProfile',
+			type: 'options',
+			displayOptions: {
+				show: {
+					authentication: ['hmacSignature'],
+				},
+			},
+			options: [
+				{
+					name: 'Custom',
+					value: 'custom',
+					description: 'Configure the algorithm and headers manually',
+				},
+				{
+					name: 'GitHub',
+					value: 'github',
+					description: 'X-Hub-Signature-256 header with a sha256= prefix',
+				},
+				{
+					name: 'Shopify',
+					value: 'shopify',
+					description: 'Base64 encoded X-Shopify-Hmac-Sha256 header',
+				},
+				{
+					name: 'Slack',
+					value: 'slack',
+					description: 'X-Slack-Signature over the request timestamp and body',
+				},
+				{
+					name: 'Stripe',
+					value: 'stripe',
+					description: 'Stripe-Signature header with an embedded timestamp',
+				},
+			],
+			default: 'custom',
+			description: 'The signature scheme used by the sender',
+		},
+		{
+			displayName: 'Algorithm',
+			name: 'signatureAlgorithm',
+			type: 'options',
+			displayOptions: {
+				show: {
+					authentication: ['hmacSignature'],
+					signatureProfile: ['custom'],
+				},
+			},
+			options: [
+				{
+					name: 'SHA1',
+					value: 'sha1',
+				},
+				{
+					name: 'SHA256',
+					value: 'sha256',
+				},
+				{
+					name: 'SHA512',
+					value: 'sha512',
+				},
+			],
+			default: 'sha256',
+			description: 'The hash algorithm used for the HMAC',
+		},
+		{
+			displayName: 'Signature Header',
+			name: 'signatureHeader',
+			type: 'string',
+			displayOptions: {
+				show: {
+					authentication: ['hmacSignature'],
+					signatureProfile: ['custom'],
+				},
+			},
+			default: 'X-Signature',
+			description: 'The request header that carries the signature',
+		},
+		{
+			displayName: 'Signature Prefix',
+			name: 'signaturePrefix',
+			type: 'string',
+			displayOptions: {
+				show: {
+					authentication: ['hmacSignature'],
+					signatureProfile: ['custom'],
+				},
+			},
+			default: '',
+			placeholder: 'sha256=',
+			description: 'A prefix the sender puts in front of the signature value',
+		},
+		{
+			displayName: 'Signature Encoding',
+			name: 'signatureEncoding',
+			type: 'options',
+			displayOptions: {
+				show: {
+					authentication: ['hmacSignature'],
+					signatureProfile: ['custom'],
+				},
+			},
+			options: [
+				{
+					name: 'Hex',
+					value: 'hex',
+				},
+				{
+					name: 'Base64',
+					value: 'base64',
+				},
+			],
+			default: 'hex',
+			description: 'How the signature digest is encoded',
+		},
+		{
+			displayName: 'Timestamp Header',
+			name: 'timestampHeader',
+			type: 'string',
+			displayOptions: {
+				show: {
+					authentication: ['hmacSignature'],
+					signatureProfile: ['custom'],
+				},
+			},
+			default: '',
+			placeholder: 'X-Timestamp',
+			description:
+				'The request header that carries the send time. Leave empty to skip replay protection.',
+		},
+		{
+			displayName: 'Sign Timestamp',
+			name: 'signTimestamp',
+			type: 'boolean',
+			displayOptions: {
+				show: {
+					authentication: ['hmacSignature'],
+					signatureProfile: ['custom'],
+				},
+			},
+			default: false,
+			description: 'Whether the signed payload is "{timestamp}.{body}" instead of the body alone',
+		},
+		{
+			displayName: 'Replay Window (Seconds)',
+			name: 'signatureTolerance',
+			type: 'number',
+			displayOptions: {
+				show: {
+					authentication: ['hmacSignature'],
+					signatureProfile: ['custom', 'slack', 'stripe'],
+				},
+			},
+			typeOptions: {
+				minValue: 0,
+			},
+			default: 300,
+			description: 'Maximum age of the request timestamp. Set to 0 to accept any timestamp.',
+		},
+		{
+			displayName: 'Response Mode',
+			name: 'responseMode',
+			type: 'options',
+			options: [
+				{
+					name: 'On Received',
+					value: 'onReceived',
+					description: 'Returns response immediately when webhook is received',
+				},
+				{
+					name: 'Last Node',
+					value: 'lastNode',
+					description: 'Returns response from the last executed node',
+				},
+				{
+					name: 'Using Respond Node',
+					value: 'responseNode',
+					description: 'Returns the response defined by an HTTP Respond node',
+				},
+			],
+			default: 'onReceived',
+			description: 'When to return the response',
+		},
+		{
+			displayName: 'Response Code',
+			name: 'responseCode',
+			type: 'number',
+			typeOptions: {
+				minValue: 100,
+				maxValue: 599,
+			},
+			displayOptions: {
+				hide: {
+					responseMode: ['responseNode'],
+				},
+			},
+			default: 200,
+			description: 'The HTTP response code to return',
+		},
+		{
+			displayName: 'Response Content Type',
+			name: 'responseContentType',
+			type: 'options',
+			displayOptions: {
+				show: {
+					responseMode: ['onReceived'],
+				},
+			},
+			options: [
+				{
+					name: 'Empty',
+					value: 'noData',
+					description: 'Respond without a body',
+				},
+				{
+					name: 'HTML',
+					value: 'html',
+				},
+				{
+					name: 'JSON',
+					value: 'json',
+				},
+				{
+					name: 'Text',
+					value: 'text',
+				},
+				{
+					name: 'XML',
+					value: 'xml',
+				},
+			],
+			default: 'json',
+			description: 'The content type of the response body',
+		},
+		{
+			displayName: 'Response Data',
+			name: 'responseData',
+			type: 'string',
+			displayOptions: {
+				show: {
+					responseMode: ['onReceived'],
+				},
+				hide: {
+					responseContentType: ['noData'],
+				},
+			},
+			default: 'success',
+			description:
+				'The response data to return when no body template is set. JSON responses wrap it as {"message": ...}.',
+		},
+		{
+			displayName: 'Response Body Template',
+			name: 'responseBody',
+			type: 'string',
+			typeOptions: {
+				rows: 5,
+			},
+			displayOptions: {
+				show: {
+					responseMode: ['onReceived'],
+				},
+				hide: {
+					responseContentType: ['noData'],
+				},
+			},
+			default: '',
+			placeholder: '{"response_type": "ephemeral", "text": "Got {{ body.command }}"}',
+			description: `Exact response body. Use {{ path }} placeholders such as {{ body.user.id }}, {{ ${
+				version === 1 ? 'params' : 'query'
+			}.page }} or {{ headers["x-request-id"] }} to insert request data.`,
+		},
+		{
+			displayName: 'Response Data',
+			name: 'lastNodeResponseData',
+			type: 'options',
+			displayOptions: {
+				show: {
+					responseMode: ['lastNode'],
+				},
+			},
+			options: [
+				{
+					name: 'All Entries',
+					value: 'allEntries',
+					description: 'Returns all the entries of the last node as an array',
+				},
+				{
+					name: 'First Entry Binary',
+					value: 'firstEntryBinary',
+					description: 'Returns the binary data of the first entry of the last node',
+				},
+				{
+					name: 'First Entry JSON',
+					value: 'firstEntryJson',
+					description: 'Returns the JSON data of the first entry of the last node',
+				},
+				{
+					name: 'No Response Body',
+					value: 'noData',
+					description: 'Returns without a body',
+				},
+			],
+			default: 'firstEntryJson',
+			description: 'What data should be returned once the workflow finished',
+		},
+		{
+			displayName: 'Options',
+			name: 'options',
+			type: 'collection',
+			placeholder: 'Add Option',
+			default: {},
+			options: [
+				{
+					displayName: 'No Response Body',
+					name: 'noResponseBody',
+					type: 'boolean',
+					default: false,
+					description: 'Whether to send a response body or not',
+				},
+				{
+					displayName: 'Response Headers',
+					name: 'responseHeaders',
+					type: 'fixedCollection',
+					placeholder: 'Add Response Header',
+					typeOptions: {
+						multipleValues: true,
+					},
+					default: {},
+					description: 'Headers to add to the response. Values support {{ path }} placeholders.',
+					options: [
+						{
+							name: 'entries',
+							displayName: 'Entries',
+							values: [
+								{
+									displayName: 'Name',
+									name: 'name',
+									type: 'string',
+									default: '',
+									description: 'Name of the header',
+								},
+								{
+									displayName: 'Value',
+									name: 'value',
+									type: 'string',
+									default: '',
+									description: 'Value of the header',
+								},
+							],
+						},
+					],
+				},
+				{
+					displayName: 'Trusted Proxies',
+					name: 'trustedProxies',
+					type: 'string',
+					default: '',
+					placeholder: '127.0.0.1, 172.16.0.0/12',
+					description:
+						'Comma-separated addresses or CIDR ranges of reverse proxies such as nginx or traefik. The client IP is only read from X-Forwarded-For or X-Real-IP when the request comes from one of them.',
+				},
+				{
+					displayName: 'Raw Body',
+					name: 'rawBody',
+					type: 'boolean',
+					default: false,
+					description: 'Whether to return the raw body or parsed JSON',
+				},
+				{
+					displayName: 'Binary Property',
+					name: 'binaryPropertyName',
+					type: 'string',
+					default: 'data',
+					description:
+						'Name of the binary property for raw binary bodies. Multipart uploads get an index appended, e.g. data0, data1.',
+				},
+				{
+					displayName: 'IP Allowlist',
+					name: 'ipAllowlist',
+					type: 'string',
+					default: '',
+					placeholder: '203.0.113.7, 10.0.0.0/8, 2001:db8::/32',
+					description:
+						'Comma-separated IP addresses or CIDR ranges allowed to call this webhook. Other clients get a 403 response. Leave empty to allow all.',
+				},
+				{
+					displayName: 'IP Denylist',
+					name: 'ipDenylist',
+					type: 'string',
+					default: '',
+					placeholder: '198.51.100.0/24',
+					description: 'Comma-separated IP addresses or CIDR ranges that always get a 403 response',
+				},
+				{
+					displayName: 'Max File Size (MB)',
+					name: 'maxFileSize',
+					type: 'number',
+					typeOptions: {
+						minValue: 0,
+					},
+					default: 16,
+					description:
+						'Largest accepted upload or binary body. Larger requests get a 413 response. Set to 0 for no limit.',
+				},
+				{
+					displayName: 'Rate Limit',
+					name: 'rateLimit',
+					type: 'fixedCollection',
+					placeholder: 'Add Rate Limit',
+					default: {},
+					description:
+						'Limits how often the webhook may be called. Requests over the limit get a 429 response with a Retry-After header.',
+					options: [
+						{
+							name: 'settings',
+							displayName: 'Settings',
+							values: [
+								{
+									displayName: 'Limit By',
+									name: 'keyBy',
+									type: 'options',
+									options: [
+										{
+											name: 'Client IP',
+											value: 'ip',
+											description: 'Each client address gets its own limit',
+										},
+										{
+											name: 'Header Value',
+											value: 'header',
+											description: 'Each value of a header, e.g. an API key, gets its own limit',
+										},
+										{
+											name: 'Global',
+											value: 'global',
+											description: 'All callers share one limit',
+										},
+									],
+									default: 'ip',
+								},
+								{
+									displayName: 'Header Name',
+									name: 'headerName',
+									type: 'string',
+									displayOptions: {
+										show: {
+											keyBy: ['header'],
+										},
+									},
+									default: '',
+									placeholder: 'x-api-key',
+									description: 'Name of the header whose value identifies the caller',
+								},
+								{
+									displayName: 'Limit',
+									name: 'limit',
+									type: 'number',
+									typeOptions: {
+										minValue: 1,
+									},
+									default: 60,
+									description: 'Number of requests allowed per interval',
+								},
+								{
+									displayName: 'Interval (Seconds)',
+									name: 'interval',
+									type: 'number',
+									typeOptions: {
+										minValue: 1,
+									},
+									default: 60,
+									description: 'Length of the interval the limit applies to',
+								},
+								{
+									displayName: 'Burst',
+									name: 'burst',
+									type: 'number',
+									typeOptions: {
+										minValue: 1,
+									},
+									default: 10,
+									description:
+										'Number of requests that may arrive at once before the limit applies',
+								},
+								{
+									displayName: 'Storage',
+									name: 'storage',
+									type: 'options',
+									options: [
+										{
+											name: 'In Memory',
+											value: 'memory',
+											description: 'Fastest, but resets when n8n restarts',
+										},
+										{
+											name: 'Workflow Static Data',
+											value: 'staticData',
+											description: 'Kept with the workflow so that it survives restarts',
+										},
+									],
+									default: 'memory',
+								},
+							],
+						},
+					],
+				},
+				{
+					displayName: 'Schema Validation',
+					name: 'schemaValidation',
+					type: 'fixedCollection',
+					placeholder: 'Add Schema Validation',
+					default: {},
+					description:
+						'Validates the request body and query parameters against JSON Schemas. Invalid requests get a 400 response listing the errors.',
+					options: [
+						{
+							name: 'settings',
+							displayName: 'Settings',
+							values: [
+								{
+									displayName: 'Schema Draft',
+									name: 'draft',
+									type: 'options',
+									options: [
+										{
+											name: '2020-12',
+											value: 'draft2020',
+										},
+										{
+											name: 'Draft-07',
+											value: 'draft07',
+										},
+									],
+									default: 'draft2020',
+									description: 'JSON Schema version the schemas are written in',
+								},
+								{
+									displayName: 'Body Schema',
+									name: 'bodySchema',
+									type: 'json',
+									default: '',
+									placeholder: '{ "type": "object", "required": ["id"] }',
+									description: 'JSON Schema for the parsed request body. Leave empty to skip.',
+								},
+								{
+									displayName: 'Query Schema',
+									name: 'querySchema',
+									type: 'json',
+									default: '',
+									placeholder:
+										'{ "type": "object", "properties": { "page": { "type": "integer" } } }',
+									description: 'JSON Schema for the query parameters. Leave empty to skip.',
+								},
+								{
+									displayName: 'Coerce Query Types',
+									name: 'coerceQuery',
+									type: 'boolean',
+									default: true,
+									description:
+										'Whether to convert query parameter strings to the numbers, booleans and arrays the schema expects',
+								},
+								{
+									displayName: 'On Invalid Request',
+									name: 'onInvalid',
+									type: 'options',
+									options: [
+										{
+											name: 'Reject',
+											value: 'reject',
+											description: 'Respond with a 400 and start no execution',
+										},
+										{
+											name: 'Pass Through',
+											value: 'passThrough',
+											description:
+												'Start the execution anyway and list the errors in the validationErrors field',
+										},
+									],
+									default: 'reject',
+								},
+							],
+						},
+					],
+				},
+				{
+					displayName: 'Deduplication',
+					name: 'deduplication',
+					type: 'fixedCollection',
+					placeholder: 'Add Deduplication',
+					default: {},
+					description:
+						'Ignores repeated deliveries of the same request, e.g. provider retries. Duplicates get the configured response but start no execution.',
+					options: [
+						{
+							name: 'settings',
+							displayName: 'Settings',
+							values: [
+								{
+									displayName: 'Key From',
+									name: 'keySource',
+									type: 'options',
+									options: [
+										{
+											name: 'Header',
+											value: 'header',
+											description:
+												'A delivery ID header such as X-GitHub-Delivery or Idempotency-Key',
+										},
+										{
+											name: 'Body Field',
+											value: 'bodyField',
+											description: 'A field of the request body',
+										},
+										{
+											name: 'Body Hash',
+											value: 'bodyHash',
+											description: 'A SHA-256 hash of the raw request body',
+										},
+									],
+									default: 'header',
+								},
+								{
+									displayName: 'Header Name',
+									name: 'headerName',
+									type: 'string',
+									displayOptions: {
+										show: {
+											keySource: ['header'],
+										},
+									},
+									default: 'Idempotency-Key',
+									description: 'Name of the header that identifies the delivery',
+								},
+								{
+									displayName: 'Body Field',
+									name: 'bodyField',
+									type: 'string',
+									displayOptions: {
+										show: {
+											keySource: ['bodyField'],
+										},
+									},
+									default: '',
+									placeholder: 'event.id',
+									description: 'Dot-notation path of the body field that identifies the delivery',
+								},
+								{
+									displayName: 'TTL (Seconds)',
+									name: 'ttl',
+									type: 'number',
+									typeOptions: {
+										minValue: 1,
+									},
+									default: 86400,
+									description: 'How long a delivery key is remembered',
+								},
+							],
+						},
+					],
+				},
+				{
+					displayName: 'Allowed Origins (CORS)',
+					name: 'allowedOrigins',
+					type: 'string',
+					default: '',
+					placeholder: 'https://app.example.com, https://admin.example.com',
+					description:
+						'Comma-separated list of origins allowed to call this webhook from a browser, or * for any origin',
+				},
+				{
+					displayName: 'Allowed MIME Types',
+					name: 'allowedMimeTypes',
+					type: 'string',
+					default: '',
+					placeholder: 'image/*, application/pdf',
+					description:
+						'Comma-separated list of accepted file types. Other files get a 415 response. Leave empty to accept any type.',
+				},
+			],
+		},
+	],
+});
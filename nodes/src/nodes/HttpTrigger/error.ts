@@ -0,0 +1,42 @@
+import type { IDataObject } from 'n8n-workflow';
+
+export class WebhookRequestError extends Error {
+	constructor(
+		readonly responseCode: number,
+		message: string,
+		readonly headers: Record<string, string> = {},
+	) {
+		super(message);
+	}
+
+	// Body sent back to the caller when the request is rejected
+	get responseBody(): string {
+		return this.message;
+	}
+}
+
+export class WebhookAuthorizationError extends WebhookRequestError {
+	constructor(responseCode: number, message?: string) {
+		if (message === undefined) {
+			message = 'Authorization problem!';
+			if (responseCode === 401) {
+				message = 'Authorization is required!';
+			} else if (responseCode === 403) {
+				message = 'Authorization data is wrong!';
+			}
+		}
+		super(responseCode, message);
+	}
+}
+
+export class WebhookValidationError extends WebhookRequestError {
+	constructor(readonly errors: IDataObject[]) {
+		super(400, 'Request validation failed', {
+			'Content-Type': 'application/json; charset=utf-8',
+		});
+	}
+
+	get responseBody(): string {
+		return JSON.stringify({ message: this.message, errors: this.errors });
+	}
+}
@@ -0,0 +1,111 @@
+import { createHash } from 'crypto';
+import type { IDataObject, IWebhookFunctions } from 'n8n-workflow';
+
+import { getPath } from './response';
+import { getRawBody } from './utils';
+
+// Seen keys mapped to the time they expire, in milliseconds
+export type DeliveryStore = Record<string, number>;
+
+/**
+ * Records a delivery key and returns whether it was already seen within its
+ * time to live. Expired keys are dropped on the way.
+ */
+export function registerDelivery(
+	store: DeliveryStore,
+	key: string,
+	ttlSeconds: number,
+	now = Date.now(),
+): boolean {
+	for (const [seenKey, expiresAt] of Object.entries(store)) {
+		if (expiresAt <= now) {
+			delete store[seenKey];
+		}
+	}
+
+	if (store[key] !== undefined) return true;
+
+	store[key] = now + ttlSeconds * 1000;
+
+	return false;
+}
+
+const toKey = (value: unknown): string | undefined => {
+	if (value === undefined || value === null || value === '') return undefined;
+
+	return typeof value === 'object' ? JSON.stringify(value) : String(value);
+};
+
+/**
+ * Returns the key that identifies a delivery, or `undefined` when the request
+ * does not carry one. Such requests are never treated as duplicates.
+ */
+export async function getDeliveryKey(
+	ctx: IWebhookFunctions,
+	settings: IDataObject,
+	body: unknown,
+): Promise<string | undefined> {
+	const keySource = (settings.keySource as string | undefined) ?? 'header';
+
+	if (keySource === 'bodyHash') {
+		const rawBody = await getRawBody(ctx);
+
+		return createHash('sha256').update(rawBody).digest('hex');
+	}
+
+	if (keySource === 'bodyField') {
+		return toKey(getPath(body, (settings.bodyField as string | undefined) ?? ''));
+	}
+
+	const headerName = ((settings.headerName as string | undefined) ?? '').toLowerCase();
+	const value = ctx.getHeaderData()[headerName];
+
+	return toKey(Array.isArray(value) ? value[0] : value);
+}
+
+const getDeduplicationSettings = (options: IDataObject): IDataObject | undefined =>
+	(options.deduplication as IDataObject | undefined)?.settings as IDataObject | undefined;
+
+/**
+ * Returns whether the delivery key is a hash of the raw body. The body has to
+ * be read before parsers that consume the request stream, like the multipart one.
+ */
+export const hashesRawBody = (options: IDataObject): boolean =>
+	getDeduplicationSettings(options)?.keySource === 'bodyHash';
+
+/**
+ * Applies the node's Deduplication option. Returns `true` when the delivery was
+ * already received within the configured time to live.
+ */
+export async function isDuplicateDelivery(
+	ctx: IWebhookFunctions,
+	options: IDataObject,
+	body: unknown,
+): Promise<boolean> {
+	const settings = getDeduplicationSettings(options);
+
+	if (!settings) return false;
+
+	const key = await getDeliveryKey(ctx, settings, body);
+
+	if (key === undefined) return false;
+
+	const staticData = ctx.getWorkflowStaticData('node');
+
+	staticData.deliveryKeys ??= {};
+
+	const duplicate = registerDelivery(
+		staticData.deliveryKeys as DeliveryStore,
+		key,
+		(settings.ttl as number | undefined) ?? 86400,
+	);
+
+	if (duplicate) {
+		ctx.logger.debug('HTTP Trigger ignored duplicate delivery', {
+			node: ctx.getNode().name,
+			key,
+		});
+	}
+
+	return duplicate;
+}
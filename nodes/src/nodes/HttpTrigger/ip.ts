@@ -0,0 +1,168 @@
+import type { IncomingHttpHeaders } from 'http';
+import { BlockList, isIP } from 'net';
+import type { IDataObject, IWebhookFunctions } from 'n8n-workflow';
+
+import { WebhookRequestError } from './error';
+
+type IpFamily = 'ipv4' | 'ipv6';
+
+/**
+ * Normalizes an address for matching: strips brackets, ports and zone ids and
+ * turns IPv4-mapped IPv6 addresses (::ffff:10.0.0.1) into plain IPv4.
+ */
+export const normalizeIp = (value: string): string | undefined => {
+	let address = value.trim();
+
+	const bracketed = /^\[([^\]]+)\](?::\d+)?$/.exec(address);
+
+	if (bracketed) {
+		address = bracketed[1];
+	} else if (/^\d{1,3}(\.\d{1,3}){3}:\d+$/.test(address)) {
+		address = address.slice(0, address.lastIndexOf(':'));
+	}
+
+	address = address.split('%')[0];
+
+	const mapped = /^::ffff:(\d{1,3}(\.\d{1,3}){3})$/i.exec(address);
+
+	if (mapped) {
+		address = mapped[1];
+	}
+
+	return isIP(address) === 0 ? undefined : address.toLowerCase();
+};
+
+const familyOf = (address: string): IpFamily => (isIP(address) === 4 ? 'ipv4' : 'ipv6');
+
+/**
+ * Builds a BlockList from a comma-separated list of addresses and CIDR ranges.
+ * Throws a WebhookRequestError when an entry cannot be parsed.
+ */
+export const parseIpList = (value: string): BlockList | undefined => {
+	const entries = value
+		.split(',')
+		.map((entry) => entry.trim())
+		.filter((entry) => entry !== '');
+
+	if (entries.length === 0) return undefined;
+
+	const list = new BlockList();
+
+	for (const entry of entries) {
+		const [rawAddress, rawPrefix] = entry.split('/');
+		const address = normalizeIp(rawAddress);
+		const prefix = rawPrefix === undefined ? undefined : Number(rawPrefix);
+
+		if (address === undefined) {
+			throw new WebhookRequestError(500, `Invalid IP address or range "${entry}"`);
+		}
+
+		const family = familyOf(address);
+		const maxPrefix = family === 'ipv4' ? 32 : 128;
+
+		if (prefix === undefined) {
+			list.addAddress(address, family);
+		} else if (Number.isInteger(prefix) && prefix >= 0 && prefix <= maxPrefix) {
+			list.addSubnet(address, prefix, family);
+		} else {
+			throw new WebhookRequestError(500, `Invalid IP address or range "${entry}"`);
+		}
+	}
+
+	return list;
+};
+
+export const ipInList = (list: BlockList, address: string): boolean =>
+	list.check(address, familyOf(address));
+
+const headerValue = (headers: IncomingHttpHeaders, name: string): string | undefined => {
+	const value = headers[name];
+
+	return Array.isArray(value) ? value.join(',') : value;
+};
+
+/**
+ * Works out the client address. Forwarding headers are only believed when the
+ * request comes from a trusted proxy; X-Forwarded-For is walked from the right
+ * so that a client cannot spoof its address by sending its own header.
+ */
+export function resolveClientIp(
+	remoteAddress: string | undefined,
+	headers: IncomingHttpHeaders,
+	trustedProxies: BlockList | undefined,
+): string | undefined {
+	const remote = remoteAddress === undefined ? undefined : normalizeIp(remoteAddress);
+
+	if (remote === undefined || !trustedProxies || !ipInList(trustedProxies, remote)) {
+		return remote;
+	}
+
+	const forwardedFor = headerValue(headers, 'x-forwarded-for');
+
+	if (forwardedFor) {
+		const hops = forwardedFor
+			.split(',')
+			.map((hop) => normalizeIp(hop))
+			.filter((hop): hop is string => hop !== undefined);
+
+		for (let i = hops.length - 1; i >= 0; i--) {
+			if (!ipInList(trustedProxies, hops[i]) || i === 0) {
+				return hops[i];
+			}
+		}
+	}
+
+	const realIp = headerValue(headers, 'x-real-ip');
+	const normalizedRealIp = realIp === undefined ? undefined : normalizeIp(realIp);
+
+	return normalizedRealIp ?? remote;
+}
+
+/**
+ * Returns the client address of the current request, honoring the node's
+ * Trusted Proxies option.
+ */
+export const getClientIp = (ctx: IWebhookFunctions, options: IDataObject): string | undefined => {
+	const req = ctx.getRequestObject();
+	const trustedProxies = parseIpList((options.trustedProxies as string | undefined) ?? '');
+
+	return resolveClientIp(req.socket?.remoteAddress ?? req.ip, req.headers, trustedProxies);
+};
+
+/**
+ * Rejects the request with a 403 when the client address is denylisted or
+ * missing from a configured allowlist.
+ */
+export function validateIpAccess(ctx: IWebhookFunctions, options: IDataObject): void {
+	const allowlist = parseIpList((options.ipAllowlist as string | undefined) ?? '');
+	const denylist = parseIpList((options.ipDenylist as string | undefined) ?? '');
+
+	if (!allowlist && !denylist) return;
+
+	const clientIp = getClientIp(ctx, options);
+
+	let reason: string | undefined;
+
+	if (clientIp === undefined) {
+		reason = 'unknown client address';
+	} else if (denylist && ipInList(denylist, clientIp)) {
+		reason = 'address is denylisted';
+	} else if (allowlist && !ipInList(allowlist, clientIp)) {
+		reason = 'address is not allowlisted';
+	}
+
+	if (reason) {
+		const req = ctx.getRequestObject();
+
+		ctx.logger.warn('HTTP Trigger rejected request by IP filter', {
+			node: ctx.getNode().name,
+			clientIp: clientIp ?? null,
+			remoteAddress: req.socket?.remoteAddress ?? null,
+			method: req.method,
+			url: req.url,
+			reason,
+		});
+
+		throw new WebhookRequestError(403, 'IP is not allowed to access the webhook!');
+	}
+}
@@ -0,0 +1,156 @@
+import {
+	createHmac,
+	createPublicKey,
+	JsonWebKey,
+	KeyObject,
+	timingSafeEqual,
+	verify as verifyRsa,
+} from 'crypto';
+import type { IDataObject } from 'n8n-workflow';
+
+import { WebhookAuthorizationError } from './error';
+
+export type JwtAlgorithm = 'HS256' | 'RS256';
+
+export interface JsonWebKeySet {
+	keys: Array<JsonWebKey & { kid?: string }>;
+}
+
+export interface JwtVerifyOptions {
+	algorithm: JwtAlgorithm;
+	secret?: string;
+	publicKey?: string;
+	jwks?: JsonWebKeySet;
+	issuer?: string;
+	audience?: string;
+	clockTolerance?: number;
+	now?: number;
+}
+
+const invalidToken = (reason: string) =>
+	new WebhookAuthorizationError(403, `Invalid JWT: ${reason}`);
+
+// Any token signed with an empty HMAC key would verify, so a key is never optional
+const missingKey = (what: string) => new WebhookAuthorizationError(500, `No ${what} defined`);
+
+const decodeSegment = (segment: string): IDataObject => {
+	try {
+		const decoded = JSON.parse(Buffer.from(segment, 'base64url').toString('utf8')) as unknown;
+
+		if (decoded === null || typeof decoded !== 'object' || Array.isArray(decoded)) {
+			throw new Error();
+		}
+
+		return decoded as IDataObject;
+	} catch {
+		throw invalidToken('malformed token');
+	}
+};
+
+const resolveKey = (options: JwtVerifyOptions, kid?: string): Buffer | KeyObject => {
+	if (options.jwks) {
+		const wantedKty = options.algorithm === 'HS256' ? 'oct' : 'RSA';
+		const jwk = options.jwks.keys.find(
+			(key) => key.kty === wantedKty && (kid === undefined || key.kid === kid),
+		);
+
+		if (!jwk) {
+			throw invalidToken(kid ? `no key with kid "${kid}" in JWKS` : 'no matching key in JWKS');
+		}
+
+		if (wantedKty === 'RSA') return createPublicKey({ key: jwk, format: 'jwk' });
+
+		if (!jwk.k) throw missingKey('signing secret');
+
+		return Buffer.from(jwk.k, 'base64url');
+	}
+
+	if (options.algorithm === 'HS256') {
+		if (!options.secret) throw missingKey('signing secret');
+
+		return Buffer.from(options.secret);
+	}
+
+	if (!options.publicKey) throw missingKey('public key');
+
+	return createPublicKey(options.publicKey);
+};
+
+const verifySignature = (
+	algorithm: JwtAlgorithm,
+	key: Buffer | KeyObject,
+	signingInput: string,
+	signature: Buffer,
+): boolean => {
+	if (algorithm === 'HS256') {
+		const expected = createHmac('sha256', key).update(signingInput).digest();
+
+		return expected.length === signature.length && timingSafeEqual(expected, signature);
+	}
+
+	return verifyRsa('RSA-SHA256', Buffer.from(signingInput), key, signature);
+};
+
+/**
+ * Verifies a compact JWS token and returns its decoded claims.
+ * Throws a WebhookAuthorizationError with status 403 when the token is malformed,
+ * signed with another algorithm or key, expired, not yet valid, or issued for
+ * another issuer or audience, and with status 500 when the secret or public key
+ * is missing.
+ */
+export function verifyJwt(token: string, options: JwtVerifyOptions): IDataObject {
+	const parts = token.split('.');
+
+	if (parts.length !== 3) {
+		throw invalidToken('malformed token');
+	}
+
+	const [encodedHeader, encodedPayload, encodedSignature] = parts;
+	const header = decodeSegment(encodedHeader);
+	const payload = decodeSegment(encodedPayload);
+
+	// Never let the token pick its own algorithm
+	if (header.alg !== options.algorithm) {
+		throw invalidToken(`unexpected algorithm "${String(header.alg)}"`);
+	}
+
+	let key: Buffer | KeyObject;
+
+	try {
+		key = resolveKey(options, typeof header.kid === 'string' ? header.kid : undefined);
+	} catch (error) {
+		if (error instanceof WebhookAuthorizationError) throw error;
+		throw new WebhookAuthorizationError(500, 'JWT verification key is invalid');
+	}
+
+	const signature = Buffer.from(encodedSignature, 'base64url');
+
+	if (!verifySignature(options.algorithm, key, `${encodedHeader}.${encodedPayload}`, signature)) {
+		throw invalidToken('signature verification failed');
+	}
+
+	const now = Math.floor((options.now ?? Date.now()) / 1000);
+	const tolerance = options.clockTolerance ?? 0;
+
+	if (typeof payload.exp === 'number' && now >= payload.exp + tolerance) {
+		throw invalidToken('token expired');
+	}
+
+	if (typeof payload.nbf === 'number' && now < payload.nbf - tolerance) {
+		throw invalidToken('token not yet valid');
+	}
+
+	if (options.issuer && payload.iss !== options.issuer) {
+		throw invalidToken('unexpected issuer');
+	}
+
+	if (options.audience) {
+		const audiences = Array.isArray(payload.aud) ? payload.aud : [payload.aud];
+
+		if (!audiences.includes(options.audience)) {
+			throw invalidToken('unexpected audience');
+		}
+	}
+
+	return payload;
+}
@@ -0,0 +1,130 @@
+import type { IDataObject, IWebhookFunctions } from 'n8n-workflow';
+
+import { WebhookRequestError } from './error';
+import { getClientIp } from './ip';
+
+export interface TokenBucket {
+	tokens: number;
+	updatedAt: number;
+}
+
+export interface RateLimitSettings {
+	// Requests refilled per interval
+	limit: number;
+	// Interval length in seconds
+	interval: number;
+	// Bucket capacity, i.e. how many requests may arrive at once
+	burst: number;
+}
+
+export type BucketStore = Record<string, TokenBucket>;
+
+// Buckets for the "In Memory" storage, per workflow and node
+const memoryStores = new Map<string, BucketStore>();
+
+// Idle buckets are dropped once a store grows past this size
+const PRUNE_THRESHOLD = 1000;
+
+const refill = (bucket: TokenBucket, settings: RateLimitSettings, now: number): number => {
+	const ratePerMs = settings.limit / (settings.interval * 1000);
+
+	return Math.min(settings.burst, bucket.tokens + (now - bucket.updatedAt) * ratePerMs);
+};
+
+const prune = (store: BucketStore, settings: RateLimitSettings, now: number) => {
+	for (const [key, bucket] of Object.entries(store)) {
+		if (refill(bucket, settings, now) >= settings.burst) {
+			delete store[key];
+		}
+	}
+};
+
+/**
+ * Takes one token from the bucket for `key`. Returns the number of seconds the
+ * caller has to wait when the bucket is empty, or 0 when the request may pass.
+ */
+export function consumeToken(
+	store: BucketStore,
+	key: string,
+	settings: RateLimitSettings,
+	now = Date.now(),
+): number {
+	if (Object.keys(store).length > PRUNE_THRESHOLD) {
+		prune(store, settings, now);
+	}
+
+	const bucket = store[key] ?? { tokens: settings.burst, updatedAt: now };
+	const tokens = refill(bucket, settings, now);
+
+	if (tokens < 1) {
+		const ratePerSecond = settings.limit / settings.interval;
+
+		store[key] = { tokens, updatedAt: now };
+
+		return Math.max(1, Math.ceil((1 - tokens) / ratePerSecond));
+	}
+
+	store[key] = { tokens: tokens - 1, updatedAt: now };
+
+	return 0;
+}
+
+const getStore = (ctx: IWebhookFunctions, storage: string): BucketStore => {
+	if (storage === 'staticData') {
+		const staticData = ctx.getWorkflowStaticData('node');
+
+		staticData.rateLimitBuckets ??= {};
+
+		return staticData.rateLimitBuckets as BucketStore;
+	}
+
+	const scope = `${ctx.getWorkflow().id ?? ''}:${ctx.getNode().id}`;
+	let store = memoryStores.get(scope);
+
+	if (!store) {
+		store = {};
+		memoryStores.set(scope, store);
+	}
+
+	return store;
+};
+
+const getBucketKey = (ctx: IWebhookFunctions, rateLimit: IDataObject, options: IDataObject) => {
+	const keyBy = (rateLimit.keyBy as string | undefined) ?? 'ip';
+
+	if (keyBy === 'global') return 'global';
+
+	if (keyBy === 'header') {
+		const headerName = ((rateLimit.headerName as string | undefined) ?? '').toLowerCase();
+		const value = ctx.getHeaderData()[headerName];
+
+		return `header:${(Array.isArray(value) ? value[0] : value) ?? ''}`;
+	}
+
+	return `ip:${getClientIp(ctx, options) ?? 'unknown'}`;
+};
+
+/**
+ * Applies the node's Rate Limit option and rejects the request with a 429 and
+ * a Retry-After header when the caller ran out of tokens.
+ */
+export function validateRateLimit(ctx: IWebhookFunctions, options: IDataObject): void {
+	const rateLimit = (options.rateLimit as IDataObject | undefined)?.settings as
+		| IDataObject
+		| undefined;
+
+	if (!rateLimit) return;
+
+	const settings: RateLimitSettings = {
+		limit: Math.max(1, (rateLimit.limit as number | undefined) ?? 60),
+		interval: Math.max(1, (rateLimit.interval as number | undefined) ?? 60),
+		burst: Math.max(1, (rateLimit.burst as number | undefined) ?? 10),
+	};
+
+	const store = getStore(ctx, (rateLimit.storage as string | undefined) ?? 'memory');
+	const retryAfter = consumeToken(store, getBucketKey(ctx, rateLimit, options), settings);
+
+	if (retryAfter > 0) {
+		throw new WebhookRequestError(429, 'Too many requests', { 'Retry-After': String(retryAfter) });
+	}
+}
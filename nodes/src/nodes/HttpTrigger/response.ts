@@ -0,0 +1,163 @@
+import type { IDataObject } from 'n8n-workflow';
+
+import { WebhookRequestError } from './error';
+
+export type ResponseContentType = 'json' | 'text' | 'html' | 'xml' | 'noData';
+
+export const contentTypeHeaders: Record<Exclude<ResponseContentType, 'noData'>, string> = {
+	json: 'application/json; charset=utf-8',
+	text: 'text/plain; charset=utf-8',
+	html: 'text/html; charset=utf-8',
+	xml: 'application/xml; charset=utf-8',
+};
+
+const placeholder = /\{\{\s*([^{}]+?)\s*\}\}/g;
+const singlePlaceholder = /^\{\{\s*([^{}]+?)\s*\}\}$/;
+
+/**
+ * Resolves a path such as `body.items[0].id` or `headers["x-request-id"]`
+ * against the request data.
+ */
+export const getPath = (data: unknown, path: string): unknown =>
+	path
+		.replace(/\[\s*(\d+|"[^"]*"|'[^']*')\s*\]/g, '.$1')
+		.split('.')
+		.map((segment) => segment.trim().replace(/^["']|["']$/g, ''))
+		.filter((segment) => segment !== '')
+		.reduce<unknown>(
+			(value, segment) =>
+				value !== null && typeof value === 'object'
+					? (value as Record<string, unknown>)[segment]
+					: undefined,
+			data,
+		);
+
+const toText = (value: unknown): string => {
+	if (value === undefined || value === null) return '';
+	if (typeof value === 'object') return JSON.stringify(value);
+
+	return String(value);
+};
+
+const escapeMarkup = (value: string): string =>
+	value
+		.replace(/&/g, '&amp;')
+		.replace(/</g, '&lt;')
+		.replace(/>/g, '&gt;')
+		.replace(/"/g, '&quot;')
+		.replace(/'/g, '&#39;');
+
+/**
+ * Replaces every `{{ path }}` placeholder with the matching request value.
+ */
+export const renderTemplate = (
+	template: string,
+	data: IDataObject,
+	escape: (value: string) => string = (value) => value,
+): string =>
+	template.replace(placeholder, (_match, path: string) => escape(toText(getPath(data, path))));
+
+// CR and LF would let request values start headers of their own; tabs are allowed in values
+const hasControlCharacters = (value: string): boolean =>
+	[...value].some((character) => {
+		const code = character.charCodeAt(0);
+
+		return (code < 0x20 && character !== '\t') || code === 0x7f;
+	});
+
+/**
+ * Renders the values of the configured response headers. Throws a
+ * WebhookRequestError with status 400 when a request value would put a control
+ * character into a header.
+ */
+export function renderResponseHeaders(
+	entries: IDataObject[],
+	data: IDataObject,
+): Array<[string, string]> {
+	return entries.map(({ name, value }) => {
+		const rendered = renderTemplate(value as string, data);
+
+		if (hasControlCharacters(rendered)) {
+			throw new WebhookRequestError(
+				400,
+				`The value of the response header "${name as string}" contains control characters`,
+			);
+		}
+
+		return [name as string, rendered];
+	});
+}
+
+// Strings that consist of a single placeholder keep the type of the value they point to
+const renderJsonValue = (value: unknown, data: IDataObject): unknown => {
+	if (typeof value === 'string') {
+		const single = singlePlaceholder.exec(value);
+
+		return single ? (getPath(data, single[1]) ?? null) : renderTemplate(value, data);
+	}
+
+	if (Array.isArray(value)) {
+		return value.map((entry) => renderJsonValue(entry, data));
+	}
+
+	if (value !== null && typeof value === 'object') {
+		return Object.fromEntries(
+			Object.entries(value).map(([key, entry]) => [key, renderJsonValue(entry, data)]),
+		);
+	}
+
+	return value;
+};
+
+/**
+ * Builds the body sent in the "On Received" response mode. Without a template
+ * the legacy `{ message }` JSON body, or the bare message for other content types,
+ * is returned.
+ */
+export function buildResponseBody(
+	contentType: ResponseContentType,
+	template: string,
+	message: string,
+	data: IDataObject,
+): IDataObject | unknown[] | string | undefined {
+	if (contentType === 'noData') return undefined;
+
+	if (contentType === 'json') {
+		if (template.trim() === '') return { message };
+
+		let parsed: unknown;
+
+		try {
+			parsed = JSON.parse(template);
+		} catch {
+			throw new WebhookRequestError(500, 'Response body template is not valid JSON');
+		}
+
+		return renderJsonValue(parsed, data) as IDataObject | unknown[];
+	}
+
+	if (template.trim() === '') return message;
+
+	return contentType === 'text'
+		? renderTemplate(template, data)
+		: renderTemplate(template, data, escapeMarkup);
+}
+
+/**
+ * Returns the value for Access-Control-Allow-Origin, or `undefined` when the
+ * request origin is not allowed.
+ */
+export const resolveCorsOrigin = (
+	allowedOrigins: string,
+	origin: string | undefined,
+): string | undefined => {
+	const allowed = allowedOrigins
+		.split(',')
+		.map((entry) => entry.trim())
+		.filter((entry) => entry !== '');
+
+	if (allowed.includes('*')) return '*';
+	if (origin && allowed.includes(origin)) return origin;
+
+	return undefined;
+};
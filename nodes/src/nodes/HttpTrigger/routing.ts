@@ -0,0 +1,54 @@
+import type {
+	IDataObject,
+	INodeExecutionData,
+	INodeOutputConfiguration,
+	INodeParameters,
+	IWebhookFunctions,
+} from 'n8n-workflow';
+
+/**
+ * Works out the node outputs from its parameters: one per selected method when
+ * methods are routed separately, a single output otherwise. The function is
+ * stringified into the `outputs` expression, so it must not use anything from
+ * its surrounding scope.
+ */
+export const configuredOutputs = (
+	parameters: INodeParameters,
+): Array<'main' | INodeOutputConfiguration> => {
+	const methods = parameters.httpMethod;
+
+	if (parameters.multipleMethods !== true || parameters.separateOutputs !== true) {
+		return ['main'];
+	}
+
+	if (!Array.isArray(methods) || methods.length === 0) {
+		return ['main'];
+	}
+
+	return (methods as string[]).map((method) => ({ type: 'main', displayName: method }));
+};
+
+/**
+ * Returns the values of `:name` segments of a dynamic webhook path.
+ */
+export const getPathParams = (ctx: IWebhookFunctions): IDataObject =>
+	(ctx.getParamsData() as IDataObject | undefined) ?? {};
+
+/**
+ * Places the item on the output of the request method when methods are routed
+ * to separate outputs, and on the single output otherwise.
+ */
+export function routeToOutputs(
+	ctx: IWebhookFunctions,
+	item: INodeExecutionData,
+): INodeExecutionData[][] {
+	const multipleMethods = ctx.getNodeParameter('multipleMethods', false) as boolean;
+	const separateOutputs = ctx.getNodeParameter('separateOutputs', false) as boolean;
+
+	if (!multipleMethods || !separateOutputs) return [[item]];
+
+	const methods = ctx.getNodeParameter('httpMethod', []) as string[];
+	const method = (ctx.getRequestObject().method ?? '').toUpperCase();
+
+	return methods.map((selected) => (selected === method ? [item] : []));
+}
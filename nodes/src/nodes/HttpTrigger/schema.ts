@@ -0,0 +1,138 @@
+import Ajv, { type ErrorObject, type Options, type ValidateFunction } from 'ajv';
+import Ajv2020 from 'ajv/dist/2020';
+import addFormats from 'ajv-formats';
+import type { IDataObject } from 'n8n-workflow';
+
+import { WebhookRequestError, WebhookValidationError } from './error';
+
+export type SchemaDraft = 'draft07' | 'draft2020';
+
+export type SchemaLocation = 'body' | 'query';
+
+export interface SchemaValidationIssue extends IDataObject {
+	location: SchemaLocation;
+	// JSON Pointer to the invalid value, empty for the root
+	path: string;
+	keyword: string;
+	message: string;
+	params: IDataObject;
+}
+
+// Compiled validators, keyed by draft, coercion and schema source
+const validatorCache = new Map<string, ValidateFunction>();
+
+const createAjv = (draft: SchemaDraft, coerceTypes: boolean) => {
+	// User schemas often carry annotations Ajv does not know, so strict mode stays off.
+	// Query values may also be wrapped in arrays, e.g. `?tag=a` for `{ type: 'array' }`.
+	const options: Options = {
+		allErrors: true,
+		strict: false,
+		coerceTypes: coerceTypes ? 'array' : false,
+	};
+	const ajv = draft === 'draft2020' ? new Ajv2020(options) : new Ajv(options);
+
+	addFormats(ajv);
+
+	return ajv;
+};
+
+const parseSchema = (schema: unknown, location: SchemaLocation): IDataObject | undefined => {
+	if (schema === undefined || schema === null) return undefined;
+
+	if (typeof schema !== 'string') return schema as IDataObject;
+
+	if (schema.trim() === '') return undefined;
+
+	try {
+		return JSON.parse(schema) as IDataObject;
+	} catch {
+		throw new WebhookRequestError(500, `The ${location} schema is not valid JSON`);
+	}
+};
+
+/**
+ * Compiles a JSON Schema, reusing validators compiled for earlier requests.
+ * Throws a WebhookRequestError when the schema itself is invalid.
+ */
+export function compileSchema(
+	schema: IDataObject,
+	draft: SchemaDraft,
+	coerceTypes: boolean,
+	location: SchemaLocation,
+): ValidateFunction {
+	const cacheKey = `${draft}:${coerceTypes}:${JSON.stringify(schema)}`;
+	let validate = validatorCache.get(cacheKey);
+
+	if (!validate) {
+		try {
+			validate = createAjv(draft, coerceTypes).compile(schema);
+		} catch (error) {
+			throw new WebhookRequestError(
+				500,
+				`The ${location} schema is invalid: ${(error as Error).message}`,
+			);
+		}
+		validatorCache.set(cacheKey, validate);
+	}
+
+	return validate;
+}
+
+export const toIssues = (
+	errors: ErrorObject[] | null | undefined,
+	location: SchemaLocation,
+): SchemaValidationIssue[] =>
+	(errors ?? []).map((error) => ({
+		location,
+		path: error.instancePath,
+		keyword: error.keyword,
+		message: error.message ?? 'is invalid',
+		params: error.params as IDataObject,
+	}));
+
+/**
+ * Applies the node's Schema Validation option to the parsed body and the query
+ * parameters. Coerced query values replace the original ones. Invalid requests
+ * are rejected with a 400 unless the option lets them pass with their errors.
+ */
+export function validateRequestSchema(
+	options: IDataObject,
+	body: unknown,
+	query: IDataObject,
+): { query: IDataObject; errors?: SchemaValidationIssue[] } {
+	const settings = (options.schemaValidation as IDataObject | undefined)?.settings as
+		| IDataObject
+		| undefined;
+
+	if (!settings) return { query };
+
+	const draft = (settings.draft as SchemaDraft | undefined) ?? 'draft2020';
+	const bodySchema = parseSchema(settings.bodySchema, 'body');
+	const querySchema = parseSchema(settings.querySchema, 'query');
+	const errors: SchemaValidationIssue[] = [];
+
+	if (bodySchema) {
+		const validate = compileSchema(bodySchema, draft, false, 'body');
+
+		if (!validate(body)) {
+			errors.push(...toIssues(validate.errors, 'body'));
+		}
+	}
+
+	if (querySchema) {
+		const validate = compileSchema(querySchema, draft, settings.coerceQuery !== false, 'query');
+
+		// Coercion rewrites values in place, so the request's own query object stays untouched
+		query = structuredClone(query);
+
+		if (!validate(query)) {
+			errors.push(...toIssues(validate.errors, 'query'));
+		}
+	}
+
+	if (errors.length === 0) return { query };
+
+	if (settings.onInvalid === 'passThrough') return { query, errors };
+
+	throw new WebhookValidationError(errors);
+}
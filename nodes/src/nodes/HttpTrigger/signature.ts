@@ -0,0 +1,196 @@
+import { createHmac, timingSafeEqual } from 'crypto';
+import type { IncomingHttpHeaders } from 'http';
+
+import { WebhookAuthorizationError } from './error';
+
+export type SignatureAlgorithm = 'sha1' | 'sha256' | 'sha512';
+export type SignatureEncoding = 'hex' | 'base64';
+export type SignatureProfile = 'custom' | 'github' | 'shopify' | 'slack' | 'stripe';
+
+export interface SignatureSettings {
+	algorithm: SignatureAlgorithm;
+	encoding: SignatureEncoding;
+	signatureHeader: string;
+	signaturePrefix: string;
+	timestampHeader: string;
+	signTimestamp: boolean;
+}
+
+export interface SignatureScheme {
+	algorithm: SignatureAlgorithm;
+	encoding: SignatureEncoding;
+	timestampRequired: boolean;
+	// Pulls the candidate signatures and the sender timestamp out of the request headers
+	extract(headers: IncomingHttpHeaders): { signatures: string[]; timestamp?: string };
+	// Builds the exact byte sequence the sender signed
+	payload(rawBody: Buffer, timestamp?: string): Buffer;
+}
+
+const getHeader = (headers: IncomingHttpHeaders, name: string): string | undefined => {
+	const value = headers[name.toLowerCase()];
+
+	return Array.isArray(value) ? value[0] : value;
+};
+
+const stripPrefix = (value: string, prefix: string): string | undefined => {
+	if (!prefix) return value;
+
+	return value.startsWith(prefix) ? value.slice(prefix.length) : undefined;
+};
+
+const concat = (...parts: Array<string | Buffer>): Buffer =>
+	Buffer.concat(parts.map((part) => (Buffer.isBuffer(part) ? part : Buffer.from(part))));
+
+const schemes: Record<Exclude<SignatureProfile, 'custom'>, SignatureScheme> = {
+	github: {
+		algorithm: 'sha256',
+		encoding: 'hex',
+		timestampRequired: false,
+		extract(headers) {
+			const value = getHeader(headers, 'x-hub-signature-256');
+			const signature = value === undefined ? undefined : stripPrefix(value, 'sha256=');
+
+			return { signatures: signature ? [signature] : [] };
+		},
+		payload: (rawBody) => rawBody,
+	},
+	shopify: {
+		algorithm: 'sha256',
+		encoding: 'base64',
+		timestampRequired: false,
+		extract(headers) {
+			const signature = getHeader(headers, 'x-shopify-hmac-sha256');
+
+			return { signatures: signature ? [signature] : [] };
+		},
+		payload: (rawBody) => rawBody,
+	},
+	slack: {
+		algorithm: 'sha256',
+		encoding: 'hex',
+		timestampRequired: true,
+		extract(headers) {
+			const value = getHeader(headers, 'x-slack-signature');
+			const signature = value === undefined ? undefined : stripPrefix(value, 'v0=');
+
+			return {
+				signatures: signature ? [signature] : [],
+				timestamp: getHeader(headers, 'x-slack-request-timestamp'),
+			};
+		},
+		payload: (rawBody, timestamp) => concat(`v0:${timestamp}:`, rawBody),
+	},
+	stripe: {
+		algorithm: 'sha256',
+		encoding: 'hex',
+		timestampRequired: true,
+		extract(headers) {
+			// Stripe-Signature: t=1492774577,v1=5257a869...,v1=...,v0=...
+			const value = getHeader(headers, 'stripe-signature') ?? '';
+			const signatures: string[] = [];
+			let timestamp: string | undefined;
+
+			for (const part of value.split(',')) {
+				const [key, ...rest] = part.trim().split('=');
+				const entry = rest.join('=');
+
+				if (key === 't') {
+					timestamp = entry;
+				} else if (key === 'v1' && entry) {
+					signatures.push(entry);
+				}
+			}
+
+			return { signatures, timestamp };
+		},
+		payload: (rawBody, timestamp) => concat(`${timestamp}.`, rawBody),
+	},
+};
+
+const customScheme = (settings: SignatureSettings): SignatureScheme => ({
+	algorithm: settings.algorithm,
+	encoding: settings.encoding,
+	timestampRequired: settings.timestampHeader !== '',
+	extract(headers) {
+		const value = getHeader(headers, settings.signatureHeader);
+		const signature =
+			value === undefined ? undefined : stripPrefix(value, settings.signaturePrefix);
+
+		return {
+			signatures: signature ? [signature] : [],
+			timestamp: settings.timestampHeader
+				? getHeader(headers, settings.timestampHeader)
+				: undefined,
+		};
+	},
+	payload: (rawBody, timestamp) =>
+		settings.signTimestamp && timestamp !== undefined ? concat(`${timestamp}.`, rawBody) : rawBody,
+});
+
+export const resolveSignatureScheme = (
+	profile: SignatureProfile,
+	settings: SignatureSettings,
+): SignatureScheme => (profile === 'custom' ? customScheme(settings) : schemes[profile]);
+
+/**
+ * Parses a sender timestamp as unix seconds, unix milliseconds or an ISO-8601 date
+ * and returns it in milliseconds, or `undefined` when it cannot be read.
+ */
+export const parseTimestamp = (value: string): number | undefined => {
+	if (/^\d+(\.\d+)?$/.test(value)) {
+		const numeric = Number(value);
+
+		return numeric > 1e12 ? numeric : numeric * 1000;
+	}
+
+	const parsed = Date.parse(value);
+
+	return Number.isNaN(parsed) ? undefined : parsed;
+};
+
+const safeEqual = (expected: Buffer, received: Buffer): boolean =>
+	expected.length === received.length && timingSafeEqual(expected, received);
+
+/**
+ * Verifies an HMAC signature over the raw request body.
+ * Throws a WebhookAuthorizationError with status 401 when the signature is missing,
+ * does not match, or the timestamp falls outside the replay window.
+ */
+export function verifySignature(
+	scheme: SignatureScheme,
+	secret: string,
+	headers: IncomingHttpHeaders,
+	rawBody: Buffer,
+	toleranceSeconds: number,
+	now = Date.now(),
+): void {
+	const { signatures, timestamp } = scheme.extract(headers);
+
+	if (signatures.length === 0) {
+		throw new WebhookAuthorizationError(401, 'Missing request signature');
+	}
+
+	if (scheme.timestampRequired && !timestamp) {
+		throw new WebhookAuthorizationError(401, 'Missing request timestamp');
+	}
+
+	if (timestamp !== undefined && toleranceSeconds > 0) {
+		const sentAt = parseTimestamp(timestamp);
+
+		if (sentAt === undefined || Math.abs(now - sentAt) > toleranceSeconds * 1000) {
+			throw new WebhookAuthorizationError(401, 'Request timestamp is outside the allowed window');
+		}
+	}
+
+	const expected = createHmac(scheme.algorithm, secret)
+		.update(scheme.payload(rawBody, timestamp))
+		.digest();
+
+	const matches = signatures.some((signature) =>
+		safeEqual(expected, Buffer.from(signature.trim(), scheme.encoding)),
+	);
+
+	if (!matches) {
+		throw new WebhookAuthorizationError(401, 'Invalid request signature');
+	}
+}
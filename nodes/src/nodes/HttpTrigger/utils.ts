@@ -0,0 +1,195 @@
+import { timingSafeEqual } from 'crypto';
+import { readFile } from 'fs/promises';
+import type { ICredentialDataDecryptedObject, IDataObject, IWebhookFunctions } from 'n8n-workflow';
+
+import { WebhookAuthorizationError } from './error';
+import { JsonWebKeySet, JwtAlgorithm, verifyJwt } from './jwt';
+import {
+	resolveSignatureScheme,
+	SignatureAlgorithm,
+	SignatureEncoding,
+	SignatureProfile,
+	verifySignature,
+} from './signature';
+
+export const getRawBody = async (ctx: IWebhookFunctions): Promise<Buffer> => {
+	const req = ctx.getRequestObject();
+
+	if (!req.rawBody) {
+		await req.readRawBody();
+	}
+
+	return req.rawBody ?? Buffer.alloc(0);
+};
+
+const getAuthCredentials = async (
+	ctx: IWebhookFunctions,
+	type: string,
+): Promise<ICredentialDataDecryptedObject | undefined> => {
+	try {
+		return await ctx.getCredentials<ICredentialDataDecryptedObject>(type);
+	} catch {
+		// Missing credentials are reported by the caller
+		return undefined;
+	}
+};
+
+const safeEqual = (expected: string, received: string): boolean => {
+	const a = Buffer.from(expected);
+	const b = Buffer.from(received);
+
+	return a.length === b.length && timingSafeEqual(a, b);
+};
+
+async function validateSignature(ctx: IWebhookFunctions): Promise<void> {
+	const credentials = await getAuthCredentials(ctx, 'webhookSignatureApi');
+
+	if (typeof credentials?.secret !== 'string' || credentials.secret === '') {
+		// Data is not defined on node so can not authenticate
+		throw new WebhookAuthorizationError(500, 'No signing secret defined');
+	}
+
+	const profile = ctx.getNodeParameter('signatureProfile', 'custom') as SignatureProfile;
+	const scheme = resolveSignatureScheme(profile, {
+		algorithm: ctx.getNodeParameter('signatureAlgorithm', 'sha256') as SignatureAlgorithm,
+		encoding: ctx.getNodeParameter('signatureEncoding', 'hex') as SignatureEncoding,
+		signatureHeader: ctx.getNodeParameter('signatureHeader', 'X-Signature') as string,
+		signaturePrefix: ctx.getNodeParameter('signaturePrefix', '') as string,
+		timestampHeader: ctx.getNodeParameter('timestampHeader', '') as string,
+		signTimestamp: ctx.getNodeParameter('signTimestamp', false) as boolean,
+	});
+	const tolerance = ctx.getNodeParameter('signatureTolerance', 300) as number;
+
+	verifySignature(
+		scheme,
+		credentials.secret,
+		ctx.getHeaderData(),
+		await getRawBody(ctx),
+		tolerance,
+	);
+}
+
+async function validateBasicAuth(ctx: IWebhookFunctions): Promise<void> {
+	const credentials = await getAuthCredentials(ctx, 'webhookBasicAuthApi');
+
+	if (!credentials?.user || !credentials.password) {
+		// Data is not defined on node so can not authenticate
+		throw new WebhookAuthorizationError(500, 'No authentication data defined on node!');
+	}
+
+	const authorization = ctx.getHeaderData().authorization ?? '';
+	const match = /^Basic\s+(.+)$/i.exec(authorization);
+
+	if (!match) {
+		// Authorization data is missing
+		throw new WebhookAuthorizationError(401);
+	}
+
+	const decoded = Buffer.from(match[1], 'base64').toString('utf8');
+	const separator = decoded.indexOf(':');
+	const user = separator === -1 ? decoded : decoded.slice(0, separator);
+	const password = separator === -1 ? '' : decoded.slice(separator + 1);
+
+	// Evaluate both comparisons so timing does not reveal which one failed
+	const userMatches = safeEqual(credentials.user as string, user);
+	const passwordMatches = safeEqual(credentials.password as string, password);
+
+	if (!userMatches || !passwordMatches) {
+		// Provided authentication data is wrong
+		throw new WebhookAuthorizationError(403);
+	}
+}
+
+async function validateHeaderAuth(ctx: IWebhookFunctions): Promise<void> {
+	const credentials = await getAuthCredentials(ctx, 'webhookHeaderAuthApi');
+
+	if (!credentials?.name || !credentials.value) {
+		// Data is not defined on node so can not authenticate
+		throw new WebhookAuthorizationError(500, 'No authentication data defined on node!');
+	}
+
+	const headerName = (credentials.name as string).toLowerCase();
+	const received = ctx.getHeaderData()[headerName];
+
+	if (received === undefined) {
+		// Authorization data is missing
+		throw new WebhookAuthorizationError(401);
+	}
+
+	if (!safeEqual(credentials.value as string, Array.isArray(received) ? received[0] : received)) {
+		// Provided authentication data is wrong
+		throw new WebhookAuthorizationError(403);
+	}
+}
+
+async function validateJwtAuth(ctx: IWebhookFunctions): Promise<IDataObject> {
+	const credentials = await getAuthCredentials(ctx, 'webhookJwtAuthApi');
+
+	if (!credentials) {
+		// Data is not defined on node so can not authenticate
+		throw new WebhookAuthorizationError(500, 'No authentication data defined on node!');
+	}
+
+	const algorithm = (credentials.algorithm as JwtAlgorithm | undefined) ?? 'HS256';
+
+	if (credentials.keyType !== 'jwksFile') {
+		const [field, what] =
+			algorithm === 'HS256' ? ['secret', 'signing secret'] : ['publicKey', 'public key'];
+
+		if (typeof credentials[field] !== 'string' || credentials[field] === '') {
+			throw new WebhookAuthorizationError(500, `No ${what} defined`);
+		}
+	}
+
+	const authorization = ctx.getHeaderData().authorization ?? '';
+	const match = /^Bearer\s+(.+)$/i.exec(authorization);
+
+	if (!match) {
+		throw new WebhookAuthorizationError(401, 'No token provided');
+	}
+
+	let jwks: JsonWebKeySet | undefined;
+
+	if (credentials.keyType === 'jwksFile') {
+		try {
+			jwks = JSON.parse(
+				await readFile(credentials.jwksFilePath as string, 'utf8'),
+			) as JsonWebKeySet;
+		} catch {
+			throw new WebhookAuthorizationError(500, 'JWKS file could not be read');
+		}
+	}
+
+	return verifyJwt(match[1].trim(), {
+		algorithm,
+		secret: credentials.secret as string | undefined,
+		publicKey: credentials.publicKey as string | undefined,
+		jwks,
+		issuer: credentials.issuer as string | undefined,
+		audience: credentials.audience as string | undefined,
+		clockTolerance: credentials.clockTolerance as number | undefined,
+	});
+}
+
+/**
+ * Checks the incoming request against the node's Authentication setting.
+ * Throws a WebhookAuthorizationError when the request must be rejected and
+ * returns the decoded claims when JWT authentication is used.
+ */
+export async function validateWebhookAuthentication(
+	ctx: IWebhookFunctions,
+): Promise<IDataObject | undefined> {
+	const authentication = ctx.getNodeParameter('authentication', 'none') as string;
+
+	if (authentication === 'basicAuth') {
+		await validateBasicAuth(ctx);
+	} else if (authentication === 'headerAuth') {
+		await validateHeaderAuth(ctx);
+	} else if (authentication === 'jwtAuth') {
+		return await validateJwtAuth(ctx);
+	} else if (authentication === 'hmacSignature') {
+		await validateSignature(ctx);
+	}
+
+	return undefined;
+}
@@ -0,0 +1,264 @@
+import {
+	IBinaryKeyData,
+	IDataObject,
+	IHookFunctions,
+	INodeExecutionData,
+	IWebhookFunctions,
+	IWebhookResponseData,
+} from 'n8n-workflow';
+
+import type { Request, Response } from 'express';
+
+import {
+	BinaryUploadSettings,
+	isBinaryContentType,
+	isMultipart,
+	parseAllowedMimeTypes,
+	parseMultipartBody,
+	prepareRawBinaryBody,
+} from './binary';
+import { WebhookAuthorizationError, WebhookRequestError } from './error';
+import { hashesRawBody, isDuplicateDelivery } from './idempotency';
+import { validateIpAccess } from './ip';
+import { validateRateLimit } from './rateLimit';
+import {
+	buildResponseBody,
+	contentTypeHeaders,
+	renderResponseHeaders,
+	resolveCorsOrigin,
+	ResponseContentType,
+} from './response';
+import { getPathParams, routeToOutputs } from './routing';
+import { validateRequestSchema } from './schema';
+import { getRawBody, validateWebhookAuthentication } from './utils';
+
+/** What the node read from a request that passed every check. */
+export interface ReceivedRequest {
+	headers: IDataObject;
+	query: IDataObject;
+	// Values of the `:name` segments of the path
+	pathParams: IDataObject;
+	body: IDataObject | string | Buffer;
+	method: string;
+	url: string;
+	jwtPayload?: IDataObject;
+	validationErrors?: IDataObject[];
+}
+
+// Answers a rejected request directly so that no workflow execution starts
+function rejectRequest(ctx: IWebhookFunctions, error: WebhookRequestError): IWebhookResponseData {
+	const resp = ctx.getResponseObject();
+	const authentication = ctx.getNodeParameter('authentication', 'none') as string;
+
+	const headers = { ...error.headers };
+
+	if (
+		error instanceof WebhookAuthorizationError &&
+		authentication === 'basicAuth' &&
+		error.responseCode === 401
+	) {
+		headers['WWW-Authenticate'] = 'Basic realm="Webhook"';
+	}
+
+	resp.writeHead(error.responseCode, headers);
+	resp.end(error.responseBody);
+
+	return { noWebhookResponse: true };
+}
+
+// Sends the configured immediate response, used by the "On Received" mode and
+// to acknowledge duplicate deliveries
+function sendImmediateResponse(
+	ctx: IWebhookFunctions,
+	options: IDataObject,
+	returnData: IDataObject,
+): void {
+	const resp = ctx.getResponseObject() as Response;
+	const responseCode = ctx.getNodeParameter('responseCode', 200) as number;
+	const responseContentType =
+		options.noResponseBody === true
+			? 'noData'
+			: (ctx.getNodeParameter('responseContentType', 'json') as ResponseContentType);
+	const responseBody = buildResponseBody(
+		responseContentType,
+		ctx.getNodeParameter('responseBody', '') as string,
+		ctx.getNodeParameter('responseData', 'success') as string,
+		returnData,
+	);
+
+	if (responseBody === undefined || responseContentType === 'noData') {
+		resp.status(responseCode).end();
+	} else if (responseContentType === 'json') {
+		resp.status(responseCode).json(responseBody);
+	} else {
+		if (!resp.getHeader('content-type')) {
+			resp.setHeader('Content-Type', contentTypeHeaders[responseContentType]);
+		}
+		resp.status(responseCode).send(responseBody);
+	}
+}
+
+export const webhookMethods = {
+	default: {
+		async checkExists(this: IHookFunctions): Promise<boolean> {
+			const webhookUrl = this.getNodeWebhookUrl('default');
+			const webhookData = this.getWorkflowStaticData('node');
+
+			return webhookData.webhookId === webhookUrl;
+		},
+		async create(this: IHookFunctions): Promise<boolean> {
+			const webhookUrl = this.getNodeWebhookUrl('default');
+			const webhookData = this.getWorkflowStaticData('node');
+
+			webhookData.webhookId = webhookUrl;
+
+			return true;
+		},
+		async delete(this: IHookFunctions): Promise<boolean> {
+			const webhookData = this.getWorkflowStaticData('node');
+
+			delete webhookData.webhookId;
+
+			return true;
+		},
+	},
+};
+
+/**
+ * Checks and parses an incoming request, answers it when the response mode
+ * asks for it and passes the item `toJson` builds on to the workflow.
+ */
+export async function handleWebhook(
+	this: IWebhookFunctions,
+	toJson: (request: ReceivedRequest) => IDataObject,
+): Promise<IWebhookResponseData> {
+	const options = this.getNodeParameter('options', {}) as IDataObject;
+	const responseMode = this.getNodeParameter('responseMode', 'onReceived') as string;
+
+	const req = this.getRequestObject() as Request;
+	const resp = this.getResponseObject() as Response;
+	const headers = this.getHeaderData();
+	let queryData = this.getQueryData() as IDataObject;
+
+	const uploadSettings: BinaryUploadSettings = {
+		binaryPropertyName: (options.binaryPropertyName as string | undefined) ?? 'data',
+		maxFileSize: ((options.maxFileSize as number | undefined) ?? 16) * 1024 * 1024,
+		allowedMimeTypes: parseAllowedMimeTypes((options.allowedMimeTypes as string) ?? ''),
+	};
+
+	let jwtPayload: IDataObject | undefined;
+	let body: IDataObject | string | Buffer = {};
+	let binary: IBinaryKeyData | undefined;
+	let validationErrors: IDataObject[] | undefined;
+	let duplicate = false;
+
+	try {
+		validateIpAccess(this, options);
+		validateRateLimit(this, options);
+
+		jwtPayload = await validateWebhookAuthentication(this);
+
+		const contentType = req.headers['content-type'];
+
+		if (isMultipart(contentType)) {
+			if (hashesRawBody(options)) await getRawBody(this);
+
+			const multipart = await parseMultipartBody(this, uploadSettings);
+
+			body = multipart.fields;
+			binary = multipart.binary;
+		} else if (isBinaryContentType(contentType)) {
+			binary = await prepareRawBinaryBody(this, await getRawBody(this), uploadSettings);
+		} else if (req.body) {
+			if (options.rawBody === true) {
+				body = req.body as IDataObject | string | Buffer;
+			} else {
+				body = this.getBodyData();
+			}
+		}
+
+		const validation = validateRequestSchema(options, body, queryData);
+
+		queryData = validation.query;
+		validationErrors = validation.errors;
+
+		duplicate = await isDuplicateDelivery(this, options, body);
+	} catch (error) {
+		if (error instanceof WebhookRequestError) {
+			return rejectRequest(this, error);
+		}
+		throw error;
+	}
+
+	// Each version of the node outputs the request in its own shape
+	const returnData = toJson({
+		headers,
+		query: queryData,
+		pathParams: getPathParams(this),
+		body,
+		method: req.method as string,
+		url: req.url as string,
+		jwtPayload,
+		validationErrors,
+	});
+
+	const item: INodeExecutionData = { json: returnData };
+
+	if (binary && Object.keys(binary).length > 0) {
+		item.binary = binary;
+	}
+
+	// Headers are set on every response mode, n8n keeps them when it answers later
+	const responseHeaders =
+		((options.responseHeaders as IDataObject | undefined)?.entries as IDataObject[]) ?? [];
+
+	try {
+		for (const [name, value] of renderResponseHeaders(responseHeaders, returnData)) {
+			resp.setHeader(name, value);
+		}
+	} catch (error) {
+		if (error instanceof WebhookRequestError) {
+			return rejectRequest(this, error);
+		}
+		throw error;
+	}
+
+	const corsOrigin = resolveCorsOrigin(
+		(options.allowedOrigins as string | undefined) ?? '',
+		headers.origin,
+	);
+
+	if (corsOrigin) {
+		resp.setHeader('Access-Control-Allow-Origin', corsOrigin);
+		if (corsOrigin !== '*') {
+			resp.setHeader('Vary', 'Origin');
+		}
+	}
+
+	if (duplicate || responseMode === 'onReceived') {
+		try {
+			sendImmediateResponse(this, options, returnData);
+		} catch (error) {
+			if (error instanceof WebhookRequestError) {
+				return rejectRequest(this, error);
+			}
+			throw error;
+		}
+
+		if (duplicate) {
+			return { noWebhookResponse: true };
+		}
+
+		// The response is already sent, so n8n must not answer the request again
+		return {
+			noWebhookResponse: true,
+			workflowData: routeToOutputs(this, item),
+		};
+	}
+
+	// For 'lastNode' and 'responseNode' modes, return the data and let n8n
+	// answer once the workflow finished or an HTTP Respond node ran
+	return {
+		workflowData: routeToOutputs(this, item),
+	};
+}
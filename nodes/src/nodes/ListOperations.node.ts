@@ -0,0 +1,312 @@
+import {
+	IExecuteFunctions,
+	INodeExecutionData,
+	INodeType,
+	INodeTypeDescription,
+	NodeOperationError,
+} from 'n8n-workflow';
+
+import { parsePathList } from '../utils/objectPath';
+import {
+	aggregateItems,
+	deduplicateItems,
+	groupItems,
+	ReducerField,
+	splitOutItems,
+} from './ListOperations/operations';
+
+type Operation = 'splitOut' | 'aggregate' | 'groupBy' | 'deduplicate';
+
+const showFor = (...operation: Operation[]) => ({ show: { operation } });
+
+export class ListOperations implements INodeType {
+	description: INodeTypeDescription = {
+		displayName: 'List Operations',
+		name: 'listOperations',
+		icon: 'fa:list',
+		group: ['transform'],
+		version: 1,
+		subtitle: '={{$parameter["operation"]}}',
+		description: 'Split, aggregate, group and deduplicate lists of items',
+		defaults: {
+			name: 'List Operations',
+		},
+		inputs: ['main'],
+		outputs: ['main'],
+		properties: [
+			{
+				displayName: 'Operation',
+				name: 'operation',
+				type: 'options',
+				noDataExpression: true,
+				options: [
+					{
+						name: 'Aggregate',
+						value: 'aggregate',
+						description: 'Combine all items into a single item',
+						action: 'Aggregate items',
+					},
+					{
+						name: 'Deduplicate',
+						value: 'deduplicate',
+						description: 'Remove items with the same values in the given fields',
+						action: 'Remove duplicate items',
+					},
+					{
+						name: 'Group By',
+						value: 'groupBy',
+						description: 'Output one item per group, with count, sum and other reducers',
+						action: 'Group items',
+					},
+					{
+						name: 'Split Out',
+						value: 'splitOut',
+						description: 'Turn every entry of a list field into a separate item',
+						action: 'Split out a list field',
+					},
+				],
+				default: 'splitOut',
+			},
+			// Split out
+			{
+				displayName: 'Field to Split Out',
+				name: 'fieldToSplitOut',
+				type: 'string',
+				displayOptions: showFor('splitOut'),
+				default: '',
+				required: true,
+				placeholder: 'order.lines',
+				description:
+					'Dot-path of the list; objects in it become items, other values are written to the destination field',
+			},
+			{
+				displayName: 'Destination Field',
+				name: 'destinationField',
+				type: 'string',
+				displayOptions: showFor('splitOut'),
+				default: '',
+				placeholder: 'line',
+				description:
+					'Field each entry is written to. Leave empty to merge objects into the item and write other values to the split out field.',
+			},
+			{
+				displayName: 'Include Other Fields',
+				name: 'includeOtherFields',
+				type: 'boolean',
+				displayOptions: showFor('splitOut'),
+				default: false,
+				description: 'Whether to copy the other fields of the item to every new item',
+			},
+			{
+				displayName: 'Keep Items Without the Field',
+				name: 'keepItemsWithoutField',
+				type: 'boolean',
+				displayOptions: showFor('splitOut'),
+				default: false,
+				description:
+					'Whether to pass on items whose list is missing or empty, instead of dropping them',
+			},
+			// Aggregate
+			{
+				displayName: 'Aggregate',
+				name: 'aggregate',
+				type: 'options',
+				displayOptions: showFor('aggregate'),
+				options: [
+					{
+						name: 'All Item Data',
+						value: 'allItemData',
+						description: 'Put the items as a list into one field',
+					},
+					{
+						name: 'Individual Fields',
+						value: 'individualFields',
+						description: 'Collect the values of each field into a list of its own',
+					},
+				],
+				default: 'allItemData',
+			},
+			{
+				displayName: 'Destination Field',
+				name: 'aggregateField',
+				type: 'string',
+				displayOptions: {
+					show: {
+						operation: ['aggregate'],
+						aggregate: ['allItemData'],
+					},
+				},
+				default: 'data',
+				description: 'Field the list of items is written to',
+			},
+			{
+				displayName: 'Fields to Aggregate',
+				name: 'fieldsToAggregate',
+				type: 'string',
+				displayOptions: {
+					show: {
+						operation: ['aggregate'],
+						aggregate: ['individualFields'],
+					},
+				},
+				default: '',
+				required: true,
+				placeholder: 'id, customer.email',
+				description: 'Comma-separated dot-paths; items without a field add nothing to its list',
+			},
+			// Group by and deduplicate
+			{
+				displayName: 'Group By Fields',
+				name: 'groupBy',
+				type: 'string',
+				displayOptions: showFor('groupBy'),
+				default: '',
+				placeholder: 'customer.id, status',
+				description:
+					'Comma-separated dot-paths; items with equal values form a group. Leave empty for one group of all items.',
+			},
+			{
+				displayName: 'Reducers',
+				name: 'reducers',
+				type: 'fixedCollection',
+				typeOptions: { multipleValues: true, sortable: true },
+				displayOptions: showFor('groupBy'),
+				default: { reducer: [{ reducer: 'count', field: '', outputField: '' }] },
+				placeholder: 'Add Reducer',
+				options: [
+					{
+						displayName: 'Reducer',
+						name: 'reducer',
+						values: [
+							{
+								displayName: 'Reducer',
+								name: 'reducer',
+								type: 'options',
+								options: [
+									{ name: 'Average', value: 'avg' },
+									{ name: 'Collect', value: 'collect', description: 'List all values' },
+									{
+										name: 'Count',
+										value: 'count',
+										description: 'Count items, or values of the field',
+									},
+									{ name: 'First', value: 'first' },
+									{ name: 'Last', value: 'last' },
+									{ name: 'Max', value: 'max' },
+									{ name: 'Min', value: 'min' },
+									{ name: 'Sum', value: 'sum' },
+								],
+								default: 'count',
+							},
+							{
+								displayName: 'Field',
+								name: 'field',
+								type: 'string',
+								default: '',
+								placeholder: 'total',
+								description: 'Dot-path of the values to reduce. Leave empty to use whole items.',
+							},
+							{
+								displayName: 'Output Field',
+								name: 'outputField',
+								type: 'string',
+								default: '',
+								placeholder: 'sum_total',
+								description: 'Defaults to the reducer and field, e.g. <code>sum_total</code>',
+							},
+						],
+					},
+				],
+			},
+			{
+				displayName: 'Compare Fields',
+				name: 'compareFields',
+				type: 'string',
+				displayOptions: showFor('deduplicate'),
+				default: '',
+				placeholder: 'email, address.zip',
+				description:
+					'Comma-separated dot-paths that make items duplicates. Leave empty to compare whole items.',
+			},
+			{
+				displayName: 'Keep',
+				name: 'keep',
+				type: 'options',
+				displayOptions: showFor('deduplicate'),
+				options: [
+					{ name: 'First Occurrence', value: 'first' },
+					{ name: 'Last Occurrence', value: 'last' },
+				],
+				default: 'first',
+			},
+		],
+	};
+
+	async execute(this: IExecuteFunctions): Promise<INodeExecutionData[][]> {
+		const items = this.getInputData();
+		// These operations work on the whole list, so the parameters are read for the first item
+		const operation = this.getNodeParameter('operation', 0) as Operation;
+
+		try {
+			switch (operation) {
+				case 'splitOut': {
+					const field = (this.getNodeParameter('fieldToSplitOut', 0) as string).trim();
+
+					if (field === '') throw new Error('Enter the field to split out');
+
+					return [
+						splitOutItems(items, field, {
+							destinationField:
+								(this.getNodeParameter('destinationField', 0, '') as string) || undefined,
+							includeOtherFields: this.getNodeParameter('includeOtherFields', 0, false) as boolean,
+							keepItemsWithoutField: this.getNodeParameter(
+								'keepItemsWithoutField',
+								0,
+								false,
+							) as boolean,
+						}),
+					];
+				}
+				case 'aggregate':
+					return [
+						this.getNodeParameter('aggregate', 0, 'allItemData') === 'individualFields'
+							? aggregateItems(
+									items,
+									'',
+									parsePathList(this.getNodeParameter('fieldsToAggregate', 0) as string),
+								)
+							: aggregateItems(items, this.getNodeParameter('aggregateField', 0, 'data') as string),
+					];
+				case 'groupBy':
+					return [
+						groupItems(
+							items,
+							parsePathList(this.getNodeParameter('groupBy', 0, '') as string),
+							this.getNodeParameter('reducers.reducer', 0, []) as ReducerField[],
+						),
+					];
+				case 'deduplicate':
+					return [
+						deduplicateItems(
+							items,
+							parsePathList(this.getNodeParameter('compareFields', 0, '') as string),
+							this.getNodeParameter('keep', 0, 'first') as 'first' | 'last',
+						),
+					];
+			}
+		} catch (error) {
+			if (this.continueOnFail()) {
+				return [
+					[
+						{
+							json: { error: (error as Error).message },
+							pairedItem: items.map((_item, item) => ({ item })),
+						},
+					],
+				];
+			}
+
+			throw new NodeOperationError(this.getNode(), error as Error);
+		}
+	}
+}
@@ -0,0 +1,237 @@
+import type { IDataObject, INodeExecutionData, IPairedItemData } from 'n8n-workflow';
+import { deepCopy } from 'n8n-workflow';
+
+import { getPath, hasPath, setPath, unsetPath } from '../../utils/objectPath';
+
+export type Reducer = 'count' | 'sum' | 'min' | 'max' | 'avg' | 'first' | 'last' | 'collect';
+
+export interface ReducerField {
+	reducer: Reducer;
+	// Dot-path of the value to reduce, empty for whole items
+	field: string;
+	// Dot-path the result is written to, see getOutputField()
+	outputField?: string;
+}
+
+export interface SplitOptions {
+	destinationField?: string;
+	includeOtherFields?: boolean;
+	keepItemsWithoutField?: boolean;
+}
+
+const pairedWith = (indexes: number[]): IPairedItemData[] => indexes.map((item) => ({ item }));
+
+// Indexes of the items with equal values at `paths` (the whole JSON without paths),
+// in the order the groups first appear. JSON keys compare values, not object identity.
+const groupIndexes = (items: INodeExecutionData[], paths: string[]): number[][] => {
+	const groups = new Map<string, number[]>();
+
+	items.forEach(({ json }, index) => {
+		const key = JSON.stringify(
+			paths.length === 0 ? json : paths.map((path) => getPath(json, path) ?? null),
+		);
+
+		const group = groups.get(key);
+
+		if (group) group.push(index);
+		else groups.set(key, [index]);
+	});
+
+	return [...groups.values()];
+};
+
+/**
+ * Turns every entry of the array at `field` into an item of its own. Objects
+ * become the item, other values are written to `destinationField`.
+ */
+export const splitOutItems = (
+	items: INodeExecutionData[],
+	field: string,
+	{
+		destinationField,
+		includeOtherFields = false,
+		keepItemsWithoutField = false,
+	}: SplitOptions = {},
+): INodeExecutionData[] => {
+	const output: INodeExecutionData[] = [];
+
+	items.forEach(({ json }, index) => {
+		const value = getPath(json, field);
+		const entries =
+			value === undefined || value === null ? [] : Array.isArray(value) ? value : [value];
+
+		if (entries.length === 0) {
+			if (keepItemsWithoutField) output.push({ json: deepCopy(json), pairedItem: { item: index } });
+
+			return;
+		}
+
+		for (const entry of deepCopy(entries as unknown[])) {
+			const base: IDataObject = {};
+
+			if (includeOtherFields) {
+				Object.assign(base, deepCopy(json));
+				unsetPath(base, field);
+			}
+
+			const isObject = entry !== null && typeof entry === 'object' && !Array.isArray(entry);
+
+			if (isObject && !destinationField) {
+				output.push({ json: { ...base, ...(entry as IDataObject) }, pairedItem: { item: index } });
+			} else {
+				setPath(base, destinationField ?? field, entry);
+				output.push({ json: base, pairedItem: { item: index } });
+			}
+		}
+	});
+
+	return output;
+};
+
+/**
+ * Combines all items into one: their JSON as a list under `destinationField`, or
+ * with `fields` the values of every field collected into a list of its own.
+ */
+export const aggregateItems = (
+	items: INodeExecutionData[],
+	destinationField: string,
+	fields: string[] = [],
+): INodeExecutionData[] => {
+	if (items.length === 0) return [];
+
+	const json: IDataObject = {};
+
+	if (fields.length === 0) {
+		setPath(
+			json,
+			destinationField,
+			items.map((item) => item.json),
+		);
+	} else {
+		for (const field of fields) {
+			setPath(
+				json,
+				field,
+				items.filter((item) => hasPath(item.json, field)).map((item) => getPath(item.json, field)),
+			);
+		}
+	}
+
+	return [{ json, pairedItem: pairedWith(items.map((_item, index) => index)) }];
+};
+
+/**
+ * Returns where a reducer writes its result: the configured output field, or
+ * the reducer and field joined, e.g. `sum_price` for a sum of `price`.
+ */
+export const getOutputField = ({ reducer, field, outputField }: ReducerField): string => {
+	if (outputField) return outputField;
+
+	return field ? `${reducer}_${field.replace(/[.[\]]+/g, '_').replace(/_$/, '')}` : reducer;
+};
+
+const toNumber = (value: unknown): number | undefined => {
+	const number = typeof value === 'string' && value.trim() !== '' ? Number(value) : value;
+
+	return typeof number === 'number' && Number.isFinite(number) ? number : undefined;
+};
+
+// Numbers compare numerically, anything else (e.g. ISO dates) as text
+const compare = (a: unknown, b: unknown): number => {
+	const [x, y] = [toNumber(a), toNumber(b)];
+
+	return x !== undefined && y !== undefined ? x - y : String(a).localeCompare(String(b));
+};
+
+/**
+ * Reduces the values of a group. Missing and null values are skipped; `sum` and
+ * `avg` only use values that are numbers or numeric strings.
+ */
+export const reduceValues = (reducer: Reducer, values: unknown[]): unknown => {
+	const present = values.filter((value) => value !== undefined && value !== null);
+	const numbers = present.map(toNumber).filter((value): value is number => value !== undefined);
+
+	switch (reducer) {
+		case 'count':
+			return present.length;
+		case 'sum':
+			return numbers.reduce((total, value) => total + value, 0);
+		case 'avg':
+			return numbers.length === 0
+				? null
+				: numbers.reduce((total, value) => total + value, 0) / numbers.length;
+		case 'min':
+			return present.length === 0
+				? null
+				: present.reduce((min, value) => (compare(value, min) < 0 ? value : min));
+		case 'max':
+			return present.length === 0
+				? null
+				: present.reduce((max, value) => (compare(value, max) > 0 ? value : max));
+		case 'first':
+			return present[0] ?? null;
+		case 'last':
+			return present[present.length - 1] ?? null;
+		case 'collect':
+			return present;
+	}
+};
+
+/**
+ * Groups items by the values at `keys` (all items without keys) and writes one
+ * item per group, in the order groups first appear: the key fields followed by
+ * the reducer results. Each group item is paired with all the items of its group.
+ */
+export const groupItems = (
+	items: INodeExecutionData[],
+	keys: string[],
+	reducers: ReducerField[],
+): INodeExecutionData[] => {
+	// Without keys all items form one group
+	const groups =
+		keys.length > 0
+			? groupIndexes(items, keys)
+			: items.length > 0
+				? [items.map((_item, index) => index)]
+				: [];
+
+	return groups.map((indexes) => {
+		const json: IDataObject = {};
+		const first = items[indexes[0]].json;
+
+		for (const key of keys) setPath(json, key, getPath(first, key) ?? null);
+
+		for (const reducer of reducers) {
+			// Without a field the reducer sees whole items, e.g. `count` counts them
+			const values = indexes.map((index) =>
+				reducer.field ? getPath(items[index].json, reducer.field) : items[index].json,
+			);
+
+			setPath(json, getOutputField(reducer), reduceValues(reducer.reducer, values));
+		}
+
+		return { json, pairedItem: pairedWith(indexes) };
+	});
+};
+
+/**
+ * Drops items whose values at `keys` (or whole JSON without keys) were already
+ * seen. The kept item is paired with every duplicate it stands for.
+ */
+export const deduplicateItems = (
+	items: INodeExecutionData[],
+	keys: string[],
+	keep: 'first' | 'last' = 'first',
+): INodeExecutionData[] => {
+	return groupIndexes(items, keys)
+		.map((indexes) => ({
+			indexes,
+			kept: keep === 'first' ? indexes[0] : indexes[indexes.length - 1],
+		}))
+		.sort((a, b) => a.kept - b.kept)
+		.map(({ indexes, kept }) => ({
+			json: items[kept].json,
+			binary: items[kept].binary,
+			pairedItem: pairedWith([kept, ...indexes.filter((index) => index !== kept)]),
+		}));
+};
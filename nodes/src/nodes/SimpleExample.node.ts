@@ -1,64 +1,25 @@
-import {
-	IDataObject,
-	IExecuteFunctions,
-	INodeExecutionData,
-	INodeType,
-	INodeTypeDescription,
-} from 'n8n-workflow';
+import { INodeTypeBaseDescription, IVersionedNodeType, VersionedNodeType } from 'n8n-workflow';
 
-export class SimpleExample implements INodeType {
-	description: INodeTypeDescription = {
-		displayName: 'Simple Example',
-		name: 'simpleExample',
-		group: ['transform'],
-		version: 1,
-		description: 'A simple example node for N8N-R8',
-		defaults: {
-			name: 'Simple Example',
-		},
-		inputs: ['main'],
-		outputs: ['main'],
-		properties: [
-			{
-				displayName: 'Message',
-				name: 'message',
-				type: 'string',
-				default: 'Hello from N8N-R8 Custom Node!',
-				placeholder: 'Enter your message',
-				description: 'The message to include in the output',
-			},
-			{
-				displayName: 'Add Timestamp',
-				name: 'addTimestamp',
-				type: 'boolean',
-				default: true,
-				description: 'Whether to add a timestamp to the output',
-			},
-		],
-	};
+import { SimpleExampleV1 } from './SimpleExample/SimpleExampleV1';
+import { SimpleExampleV2 } from './SimpleExample/SimpleExampleV2';
 
-	async execute(this: IExecuteFunctions): Promise<INodeExecutionData[][]> {
-		const items = this.getInputData();
-		const returnData: INodeExecutionData[] = [];
+export class SimpleExample extends VersionedNodeType {
+	constructor() {
+		const baseDescription: INodeTypeBaseDescription = {
+			displayName: 'Simple Example',
+			name: 'simpleExample',
+			group: ['transform'],
+			subtitle: '={{$parameter["operation"]}}',
+			description: 'Transform the fields of items: set, rename, remove, convert and more',
+			defaultVersion: 2,
+		};
 
-		for (let i = 0; i < items.length; i++) {
-			const message = this.getNodeParameter('message', i) as string;
-			const addTimestamp = this.getNodeParameter('addTimestamp', i) as boolean;
+		// Version 1 keeps Wrap as the default operation, with its message and timestamp
+		const nodeVersions: IVersionedNodeType['nodeVersions'] = {
+			1: new SimpleExampleV1(baseDescription),
+			2: new SimpleExampleV2(baseDescription),
+		};
 
-			const outputData: IDataObject = {
-				message,
-				originalData: items[i].json,
-			};
-
-			if (addTimestamp) {
-				outputData.timestamp = new Date().toISOString();
-			}
-
-			returnData.push({
-				json: outputData,
-			});
-		}
-
-		return [returnData];
+		super(nodeVersions, baseDescription);
 	}
 }
@@ -0,0 +1,59 @@
+import {
+	IExecuteFunctions,
+	INodeExecutionData,
+	INodeType,
+	INodeTypeBaseDescription,
+	INodeTypeDescription,
+} from 'n8n-workflow';
+
+import { operationOptions, showFor, transformProperties } from './description';
+import { executeOperations } from './execute';
+
+export class SimpleExampleV1 implements INodeType {
+	description: INodeTypeDescription;
+
+	constructor(baseDescription: INodeTypeBaseDescription) {
+		this.description = {
+			...baseDescription,
+			version: 1,
+			defaults: {
+				name: 'Simple Example',
+			},
+			inputs: ['main'],
+			outputs: ['main'],
+			properties: [
+				{
+					displayName: 'Operation',
+					name: 'operation',
+					type: 'options',
+					noDataExpression: true,
+					options: operationOptions,
+					// Nodes saved before the transformations existed wrap their items
+					default: 'wrap',
+				},
+				{
+					displayName: 'Message',
+					name: 'message',
+					type: 'string',
+					displayOptions: showFor('wrap'),
+					default: 'Hello from N8N-R8 Custom Node!',
+					placeholder: 'Enter your message',
+					description: 'The message to include in the output',
+				},
+				{
+					displayName: 'Add Timestamp',
+					name: 'addTimestamp',
+					type: 'boolean',
+					displayOptions: showFor('wrap'),
+					default: true,
+					description: 'Whether to add a timestamp to the output',
+				},
+				...transformProperties,
+			],
+		};
+	}
+
+	async execute(this: IExecuteFunctions): Promise<INodeExecutionData[][]> {
+		return executeOperations.call(this, 'wrap');
+	}
+}
@@ -0,0 +1,62 @@
+import {
+	IExecuteFunctions,
+	INodeExecutionData,
+	INodeType,
+	INodeTypeBaseDescription,
+	INodeTypeDescription,
+} from 'n8n-workflow';
+
+import { operationOptions, showFor, transformProperties } from './description';
+import { executeOperations } from './execute';
+
+/**
+ * New nodes start with Set Fields, and Wrap no longer adds a demo message or
+ * a timestamp unless asked to, so its output is the same on every run.
+ */
+export class SimpleExampleV2 implements INodeType {
+	description: INodeTypeDescription;
+
+	constructor(baseDescription: INodeTypeBaseDescription) {
+		this.description = {
+			...baseDescription,
+			version: 2,
+			defaults: {
+				name: 'Simple Example',
+			},
+			inputs: ['main'],
+			outputs: ['main'],
+			properties: [
+				{
+					displayName: 'Operation',
+					name: 'operation',
+					type: 'options',
+					noDataExpression: true,
+					options: operationOptions,
+					default: 'set',
+				},
+				{
+					displayName: 'Message',
+					name: 'message',
+					type: 'string',
+					displayOptions: showFor('wrap'),
+					default: '',
+					placeholder: 'Enter your message',
+					description: 'The message to include in the output',
+				},
+				{
+					displayName: 'Add Timestamp',
+					name: 'addTimestamp',
+					type: 'boolean',
+					displayOptions: showFor('wrap'),
+					default: false,
+					description: 'Whether to add a timestamp to the output',
+				},
+				...transformProperties,
+			],
+		};
+	}
+
+	async execute(this: IExecuteFunctions): Promise<INodeExecutionData[][]> {
+		return executeOperations.call(this, 'set');
+	}
+}
@@ -0,0 +1,269 @@
+import { INodeProperties, INodePropertyOptions } from 'n8n-workflow';
+
+export type Operation =
+	| 'wrap'
+	| 'set'
+	| 'rename'
+	| 'remove'
+	| 'pick'
+	| 'flatten'
+	| 'unflatten'
+	| 'cast'
+	| 'template';
+
+const castTypeOptions = [
+	{ name: 'Array', value: 'array', description: 'Wraps single values, parses JSON arrays' },
+	{ name: 'Boolean', value: 'boolean', description: 'Accepts true/false, yes/no, on/off and 1/0' },
+	{ name: 'JSON', value: 'json', description: 'Parses a JSON string' },
+	{ name: 'Number', value: 'number' },
+	{ name: 'String', value: 'string', description: 'Objects and arrays are written as JSON' },
+];
+
+export const operationOptions: INodePropertyOptions[] = [
+	{
+		name: 'Cast Types',
+		value: 'cast',
+		description: 'Convert fields to a string, number, boolean, JSON or array',
+		action: 'Convert field types',
+	},
+	{
+		name: 'Flatten',
+		value: 'flatten',
+		description: 'Move nested fields to the top level, e.g. address.city',
+		action: 'Flatten nested fields',
+	},
+	{
+		name: 'Pick Fields',
+		value: 'pick',
+		description: 'Keep only the given fields',
+		action: 'Pick fields',
+	},
+	{
+		name: 'Remove Fields',
+		value: 'remove',
+		description: 'Omit the given fields',
+		action: 'Remove fields',
+	},
+	{
+		name: 'Rename Fields',
+		value: 'rename',
+		description: 'Move fields to new paths',
+		action: 'Rename fields',
+	},
+	{
+		name: 'Set Fields',
+		value: 'set',
+		description: 'Set fields to fixed or computed values',
+		action: 'Set fields',
+	},
+	{
+		name: 'Template',
+		value: 'template',
+		description: 'Write text built from other fields',
+		action: 'Write templated text fields',
+	},
+	{
+		name: 'Unflatten',
+		value: 'unflatten',
+		description: 'Turn keys such as address.city into nested fields',
+		action: 'Unflatten fields',
+	},
+	{
+		name: 'Wrap',
+		value: 'wrap',
+		description: 'Wrap the item as originalData with a message and timestamp',
+		action: 'Wrap items with a message',
+	},
+];
+
+export const showFor = (...operation: Operation[]) => ({ show: { operation } });
+
+const pathHint = 'Dot-path of the field, e.g. <code>address.city</code> or <code>tags[0]</code>';
+
+export const transformProperties: INodeProperties[] = [
+	// Set
+	{
+		displayName: 'Fields to Set',
+		name: 'fields',
+		type: 'fixedCollection',
+		typeOptions: { multipleValues: true, sortable: true },
+		displayOptions: showFor('set'),
+		default: {},
+		placeholder: 'Add Field',
+		options: [
+			{
+				displayName: 'Field',
+				name: 'field',
+				values: [
+					{
+						displayName: 'Path',
+						name: 'path',
+						type: 'string',
+						default: '',
+						placeholder: 'address.city',
+						description: pathHint,
+					},
+					{
+						displayName: 'Type',
+						name: 'type',
+						type: 'options',
+						options: [
+							{
+								name: 'As Entered',
+								value: 'auto',
+								description: 'Keeps the value as entered or as the expression returns it',
+							},
+							...castTypeOptions,
+						],
+						default: 'auto',
+					},
+					{
+						displayName: 'Value',
+						name: 'value',
+						type: 'string',
+						default: '',
+					},
+				],
+			},
+		],
+	},
+	// Rename
+	{
+		displayName: 'Fields to Rename',
+		name: 'renames',
+		type: 'fixedCollection',
+		typeOptions: { multipleValues: true, sortable: true },
+		displayOptions: showFor('rename'),
+		default: {},
+		placeholder: 'Add Field',
+		options: [
+			{
+				displayName: 'Field',
+				name: 'field',
+				values: [
+					{
+						displayName: 'From',
+						name: 'from',
+						type: 'string',
+						default: '',
+						placeholder: 'user.name',
+						description: pathHint,
+					},
+					{
+						displayName: 'To',
+						name: 'to',
+						type: 'string',
+						default: '',
+						placeholder: 'user.fullName',
+						description: 'Dot-path the value is moved to',
+					},
+				],
+			},
+		],
+	},
+	// Remove and pick
+	{
+		displayName: 'Fields',
+		name: 'paths',
+		type: 'string',
+		displayOptions: showFor('remove', 'pick'),
+		default: '',
+		required: true,
+		placeholder: 'id, address.city, tags[0]',
+		description: 'Comma-separated dot-paths of the fields',
+	},
+	// Flatten and unflatten
+	{
+		displayName: 'Separator',
+		name: 'separator',
+		type: 'string',
+		displayOptions: showFor('flatten', 'unflatten'),
+		default: '.',
+		description: 'Joins the keys of nested fields, e.g. <code>address.city</code>',
+	},
+	{
+		displayName: 'Flatten Arrays',
+		name: 'flattenArrays',
+		type: 'boolean',
+		displayOptions: showFor('flatten'),
+		default: false,
+		description: 'Whether to flatten arrays too, using the index as key, e.g. <code>tags.0</code>',
+	},
+	// Cast
+	{
+		displayName: 'Fields to Convert',
+		name: 'casts',
+		type: 'fixedCollection',
+		typeOptions: { multipleValues: true, sortable: true },
+		displayOptions: showFor('cast'),
+		default: {},
+		placeholder: 'Add Field',
+		options: [
+			{
+				displayName: 'Field',
+				name: 'field',
+				values: [
+					{
+						displayName: 'Path',
+						name: 'path',
+						type: 'string',
+						default: '',
+						placeholder: 'price',
+						description: pathHint,
+					},
+					{
+						displayName: 'Type',
+						name: 'type',
+						type: 'options',
+						options: castTypeOptions,
+						default: 'number',
+					},
+				],
+			},
+		],
+	},
+	{
+		displayName: 'Ignore Conversion Errors',
+		name: 'ignoreConversionErrors',
+		type: 'boolean',
+		displayOptions: showFor('set', 'cast'),
+		default: false,
+		description: 'Whether to keep values that cannot be converted as they are instead of failing',
+	},
+	// Template
+	{
+		displayName: 'Templates',
+		name: 'templates',
+		type: 'fixedCollection',
+		typeOptions: { multipleValues: true, sortable: true },
+		displayOptions: showFor('template'),
+		default: {},
+		placeholder: 'Add Template',
+		options: [
+			{
+				displayName: 'Template',
+				name: 'field',
+				values: [
+					{
+						displayName: 'Path',
+						name: 'path',
+						type: 'string',
+						default: '',
+						placeholder: 'greeting',
+						description: 'Dot-path of the field the text is written to',
+					},
+					{
+						displayName: 'Template',
+						name: 'template',
+						type: 'string',
+						typeOptions: { rows: 2 },
+						default: '',
+						placeholder: 'Hello {{ user.firstName }} from {{ address.city }}',
+						description:
+							'Text with <code>{{ path }}</code> placeholders for fields of the item; missing fields become empty',
+					},
+				],
+			},
+		],
+	},
+];
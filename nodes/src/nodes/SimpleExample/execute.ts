@@ -0,0 +1,146 @@
+import {
+	deepCopy,
+	IDataObject,
+	IExecuteFunctions,
+	INodeExecutionData,
+	NodeOperationError,
+} from 'n8n-workflow';
+
+import {
+	getPath,
+	hasPath,
+	parsePathList,
+	pickPaths,
+	setPath,
+	unsetPath,
+} from '../../utils/objectPath';
+import { Operation } from './description';
+import { CastType, castValue, flattenObject, renderTemplate, unflattenObject } from './transform';
+
+// Applies one transformation to a copy of the item's JSON
+function transformItem(
+	ctx: IExecuteFunctions,
+	operation: Exclude<Operation, 'wrap'>,
+	json: IDataObject,
+	itemIndex: number,
+): IDataObject {
+	const data = deepCopy(json);
+	const ignoreConversionErrors = ctx.getNodeParameter(
+		'ignoreConversionErrors',
+		itemIndex,
+		false,
+	) as boolean;
+	const convert = (value: unknown, type: CastType) => {
+		try {
+			return castValue(value, type);
+		} catch (error) {
+			if (ignoreConversionErrors) return value;
+			throw error;
+		}
+	};
+	const getEntries = (name: string) =>
+		(ctx.getNodeParameter(`${name}.field`, itemIndex, []) as IDataObject[]).filter(
+			(entry) => (entry.path ?? entry.from) !== '',
+		);
+
+	switch (operation) {
+		case 'set':
+			for (const { path, type, value } of getEntries('fields')) {
+				setPath(data, path as string, type === 'auto' ? value : convert(value, type as CastType));
+			}
+
+			return data;
+		case 'rename':
+			for (const { from, to } of getEntries('renames')) {
+				if (!hasPath(data, from as string)) continue;
+
+				const value = getPath(data, from as string);
+
+				unsetPath(data, from as string);
+				setPath(data, to as string, value);
+			}
+
+			return data;
+		case 'remove':
+			for (const path of parsePathList(ctx.getNodeParameter('paths', itemIndex) as string)) {
+				unsetPath(data, path);
+			}
+
+			return data;
+		case 'pick':
+			return pickPaths(data, parsePathList(ctx.getNodeParameter('paths', itemIndex) as string));
+		case 'flatten':
+			return flattenObject(
+				data,
+				ctx.getNodeParameter('separator', itemIndex, '.') as string,
+				ctx.getNodeParameter('flattenArrays', itemIndex, false) as boolean,
+			);
+		case 'unflatten':
+			return unflattenObject(data, ctx.getNodeParameter('separator', itemIndex, '.') as string);
+		case 'cast':
+			for (const { path, type } of getEntries('casts')) {
+				if (hasPath(data, path as string)) {
+					setPath(data, path as string, convert(getPath(data, path as string), type as CastType));
+				}
+			}
+
+			return data;
+		case 'template':
+			// Placeholders read the incoming item, so templates do not see each other's output
+			for (const { path, template } of getEntries('templates')) {
+				setPath(data, path as string, renderTemplate(template as string, json));
+			}
+
+			return data;
+	}
+}
+
+/**
+ * Runs the selected operation on every item. Versions only differ in their
+ * parameter defaults, `defaultOperation` is used when none is set.
+ */
+export async function executeOperations(
+	this: IExecuteFunctions,
+	defaultOperation: Operation,
+): Promise<INodeExecutionData[][]> {
+	const items = this.getInputData();
+	const returnData: INodeExecutionData[] = [];
+
+	for (let i = 0; i < items.length; i++) {
+		const operation = this.getNodeParameter('operation', i, defaultOperation) as Operation;
+		let outputData: IDataObject;
+
+		try {
+			if (operation === 'wrap') {
+				const message = this.getNodeParameter('message', i) as string;
+				const addTimestamp = this.getNodeParameter('addTimestamp', i) as boolean;
+
+				outputData = {
+					message,
+					originalData: items[i].json,
+				};
+
+				if (addTimestamp) {
+					outputData.timestamp = new Date().toISOString();
+				}
+			} else {
+				outputData = transformItem(this, operation, items[i].json, i);
+			}
+		} catch (error) {
+			if (this.continueOnFail()) {
+				returnData.push({ json: { error: (error as Error).message }, pairedItem: { item: i } });
+				continue;
+			}
+
+			throw new NodeOperationError(this.getNode(), error as Error, { itemIndex: i });
+		}
+
+		returnData.push({
+			json: outputData,
+			binary: items[i].binary,
+			pairedItem: { item: i },
+		});
+	}
+
+	return [returnData];
+}
@@ -0,0 +1,128 @@
+import type { IDataObject } from 'n8n-workflow';
+
+import { getPath, setSegments } from '../../utils/objectPath';
+
+export type CastType = 'string' | 'number' | 'boolean' | 'json' | 'array';
+
+type Container = Record<string, unknown> | unknown[];
+
+const isContainer = (value: unknown): value is Container =>
+	value !== null && typeof value === 'object';
+
+const isPlainObject = (value: unknown): value is IDataObject =>
+	isContainer(value) && !Array.isArray(value) && !(value instanceof Date);
+
+/**
+ * Moves nested values to the top level under joined keys, e.g.
+ * `{ a: { b: 1 } }` becomes `{ 'a.b': 1 }`. Arrays are only flattened with
+ * `includeArrays`; empty objects and arrays are kept as they are.
+ */
+export const flattenObject = (
+	data: IDataObject,
+	separator = '.',
+	includeArrays = false,
+): IDataObject => {
+	const result: IDataObject = {};
+
+	const visit = (value: unknown, prefix: string) => {
+		const nested = isPlainObject(value) || (includeArrays && Array.isArray(value));
+
+		if (!nested || Object.keys(value).length === 0) {
+			result[prefix] = value as IDataObject[string];
+
+			return;
+		}
+
+		for (const [key, child] of Object.entries(value)) {
+			visit(child, prefix === '' ? key : `${prefix}${separator}${key}`);
+		}
+	};
+
+	for (const [key, value] of Object.entries(data)) visit(value, key);
+
+	return result;
+};
+
+/**
+ * Reverses flattenObject(): keys containing the separator become nested values.
+ */
+export const unflattenObject = (data: IDataObject, separator = '.'): IDataObject => {
+	const result: IDataObject = {};
+
+	for (const [key, value] of Object.entries(data)) {
+		const segments = key.split(separator).filter((segment) => segment !== '');
+
+		if (segments.length === 0) continue;
+
+		setSegments(result, segments, value);
+	}
+
+	return result;
+};
+
+const booleans: Record<string, boolean> = {
+	true: true,
+	yes: true,
+	on: true,
+	'1': true,
+	false: false,
+	no: false,
+	off: false,
+	'0': false,
+};
+
+/**
+ * Converts a value to `type`, or throws when it cannot be converted without
+ * losing its meaning, e.g. `'abc'` to a number.
+ */
+export const castValue = (value: unknown, type: CastType): unknown => {
+	const text = typeof value === 'string' ? value.trim() : undefined;
+	const fail = (): never => {
+		throw new Error(`Cannot convert ${JSON.stringify(value) ?? String(value)} to ${type}`);
+	};
+
+	switch (type) {
+		case 'string':
+			if (value === null || value === undefined) return '';
+
+			return isContainer(value) && !(value instanceof Date) ? JSON.stringify(value) : String(value);
+		case 'number': {
+			if (typeof value === 'number' || typeof value === 'boolean') return Number(value);
+
+			const number = text === undefined || text === '' ? NaN : Number(text);
+
+			return Number.isNaN(number) ? fail() : number;
+		}
+		case 'boolean': {
+			if (typeof value === 'boolean') return value;
+			if (typeof value === 'number' && (value === 0 || value === 1)) return value === 1;
+
+			const boolean = text === undefined ? undefined : booleans[text.toLowerCase()];
+
+			return boolean ?? fail();
+		}
+		case 'json':
+			if (text === undefined) return value;
+
+			try {
+				return JSON.parse(text) as unknown;
+			} catch {
+				return fail();
+			}
+		case 'array':
+			if (Array.isArray(value)) return value;
+			if (text?.startsWith('[')) return castValue(text, 'json');
+
+			return value === null || value === undefined ? [] : [value];
+	}
+};
+
+/**
+ * Replaces `{{ path }}` placeholders with the values at those paths of `data`.
+ * Missing values become empty strings, objects are written as JSON.
+ */
+export const renderTemplate = (template: string, data: IDataObject): string =>
+	template.replace(
+		/\{\{\s*([^{}]+?)\s*\}\}/g,
+		(_match, path: string) => castValue(getPath(data, path), 'string') as string,
+	);
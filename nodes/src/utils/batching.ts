@@ -0,0 +1,64 @@
+export interface BatchingOptions {
+	// Items sent together in one request
+	batchSize: number;
+	// Requests in flight at the same time
+	concurrency: number;
+	// Milliseconds a worker waits after a request before sending its next one
+	interval: number;
+}
+
+/**
+ * Splits `items` into consecutive groups of at most `size` entries.
+ */
+export const chunk = <T>(items: T[], size: number): T[][] => {
+	const step = Math.max(1, Math.floor(size));
+	const chunks: T[][] = [];
+
+	for (let start = 0; start < items.length; start += step) {
+		chunks.push(items.slice(start, start + step));
+	}
+
+	return chunks;
+};
+
+/**
+ * Runs `worker` for every task with at most `concurrency` tasks in flight and
+ * returns the results in task order. After a failure no further tasks are
+ * started and the error is rethrown once the running tasks have settled.
+ */
+export async function runConcurrently<T, R>(
+	tasks: T[],
+	worker: (task: T, index: number) => Promise<R>,
+	{ concurrency, interval }: Pick<BatchingOptions, 'concurrency' | 'interval'>,
+	sleep = async (ms: number) => await new Promise((resolve) => setTimeout(resolve, ms)),
+): Promise<R[]> {
+	const results: R[] = new Array<R>(tasks.length);
+	let next = 0;
+	let failure: { error: unknown } | undefined;
+
+	const run = async () => {
+		while (failure === undefined && next < tasks.length) {
+			const index = next++;
+
+			try {
+				results[index] = await worker(tasks[index], index);
+			} catch (error) {
+				failure ??= { error };
+
+				return;
+			}
+
+			if (interval > 0 && next < tasks.length) {
+				await sleep(interval);
+			}
+		}
+	};
+
+	const workers = Math.min(tasks.length, Math.max(1, Math.floor(concurrency)));
+
+	await Promise.all(Array.from({ length: workers }, run));
+
+	if (failure) throw failure.error;
+
+	return results;
+}
@@ -0,0 +1,128 @@
+import type { ICredentialTestRequest, IDataObject, INodeCredentialTestResult } from 'n8n-workflow';
+
+import { getValue } from './pagination';
+import { getErrorCodes, getStatusCode } from './retry';
+
+export type CredentialTestRule = NonNullable<ICredentialTestRequest['rules']>[number];
+
+// Certificate verification failures reported by Node.js and OpenSSL
+const CERTIFICATE_CODES = new Set([
+	'CERT_HAS_EXPIRED',
+	'CERT_NOT_YET_VALID',
+	'DEPTH_ZERO_SELF_SIGNED_CERT',
+	'SELF_SIGNED_CERT_IN_CHAIN',
+	'UNABLE_TO_GET_ISSUER_CERT',
+	'UNABLE_TO_GET_ISSUER_CERT_LOCALLY',
+	'UNABLE_TO_VERIFY_LEAF_SIGNATURE',
+	'ERR_TLS_CERT_ALTNAME_INVALID',
+]);
+
+const statusMessages: Record<number, string> = {
+	401: 'Authentication failed: the API rejected the credentials (401)',
+	403: 'Access denied: the credentials are not allowed to use this API (403)',
+	404: 'Not found (404): check the Base URL and API version',
+};
+
+const hostOf = (url: string): string => {
+	try {
+		return new URL(url).host;
+	} catch {
+		return url;
+	}
+};
+
+/**
+ * Explains why a credential test request failed, telling rejected credentials
+ * apart from refused connections, unknown hosts, timeouts and TLS failures.
+ */
+export const describeRequestFailure = (error: unknown, url: string): string => {
+	const status = getStatusCode(error);
+	const host = hostOf(url);
+
+	if (status !== undefined) {
+		return statusMessages[status] ?? `The API answered with status ${status}`;
+	}
+
+	const codes = getErrorCodes(error);
+	const has = (...wanted: string[]) => codes.some((code) => wanted.includes(code));
+	const certificateCode = codes.find((code) => CERTIFICATE_CODES.has(code));
+
+	if (has('ECONNREFUSED')) {
+		return `Connection refused by ${host}: check the Base URL and that the API is running`;
+	}
+
+	if (has('ENOTFOUND', 'EAI_AGAIN')) {
+		return `Host ${host} could not be resolved: check the Base URL`;
+	}
+
+	if (has('ETIMEDOUT', 'ESOCKETTIMEDOUT', 'ECONNABORTED')) {
+		return `Connection to ${host} timed out`;
+	}
+
+	if (certificateCode) {
+		return `TLS handshake with ${host} failed (${certificateCode}): the server certificate is not trusted`;
+	}
+
+	const tlsCode = codes.find((code) => code === 'EPROTO' || /^ERR_(SSL|TLS)_/.test(code));
+
+	if (tlsCode) {
+		return `TLS handshake with ${host} failed (${tlsCode}): check that the server speaks HTTPS on this port`;
+	}
+
+	return `Connection to ${host} failed: ${(error as Error).message}`;
+};
+
+/**
+ * Applies credential test rules the way n8n does for declarative tests: a
+ * `responseCode` rule fails when the status matches, a `responseSuccessBody`
+ * rule when the value at `key` equals `value`. Returns the failure message.
+ */
+export const checkRules = (
+	rules: CredentialTestRule[],
+	statusCode: number | undefined,
+	body: unknown,
+): string | undefined => {
+	for (const rule of rules) {
+		if (rule.type === 'responseCode' && statusCode === rule.properties.value) {
+			return rule.properties.message;
+		}
+
+		if (
+			rule.type === 'responseSuccessBody' &&
+			statusCode !== undefined &&
+			statusCode < 300 &&
+			getValue(body as IDataObject, rule.properties.key) === rule.properties.value
+		) {
+			return rule.properties.message;
+		}
+	}
+
+	return undefined;
+};
+
+/**
+ * Runs a credential test request and turns its outcome into a test result. Rules
+ * are checked first; other failures get a message from describeRequestFailure().
+ */
+export async function runCredentialTest(
+	send: () => Promise<unknown>,
+	url: string,
+	rules: CredentialTestRule[] = [],
+): Promise<INodeCredentialTestResult> {
+	let body: unknown;
+
+	try {
+		body = await send();
+	} catch (error) {
+		const message =
+			checkRules(rules, getStatusCode(error), undefined) ?? describeRequestFailure(error, url);
+
+		return { status: 'Error', message };
+	}
+
+	const message = checkRules(rules, 200, body);
+
+	return message === undefined
+		? { status: 'OK', message: 'Connection successful' }
+		: { status: 'Error', message };
+}
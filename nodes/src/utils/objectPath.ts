@@ -0,0 +1,128 @@
+import type { IDataObject } from 'n8n-workflow';
+
+type Container = Record<string, unknown> | unknown[];
+
+const isContainer = (value: unknown): value is Container =>
+	value !== null && typeof value === 'object';
+
+const isIndex = (segment: string) => /^\d+$/.test(segment);
+
+// Writing through these would change the prototype of every object in the process
+const unsafeSegments = new Set(['__proto__', 'constructor', 'prototype']);
+
+const hasOwn = (value: Container, key: string) => Object.prototype.hasOwnProperty.call(value, key);
+
+const assertSafeSegments = (segments: string[]) => {
+	const unsafe = segments.find((segment) => unsafeSegments.has(segment));
+
+	if (unsafe !== undefined) {
+		throw new Error(`The field path "${segments.join('.')}" must not contain "${unsafe}"`);
+	}
+};
+
+/**
+ * Splits a dot-path such as `address.city` or `tags[0].name` into its segments.
+ */
+export const parsePath = (path: string): string[] =>
+	path
+		.replace(/\[(\d+)\]/g, '.$1')
+		.split('.')
+		.map((segment) => segment.trim())
+		.filter((segment) => segment !== '');
+
+/**
+ * Splits a comma-separated list of dot-paths, as entered in node parameters.
+ */
+export const parsePathList = (paths: string): string[] =>
+	paths
+		.split(',')
+		.map((path) => path.trim())
+		.filter((path) => path !== '');
+
+/**
+ * Reads the value at `path`. Only own properties are followed, never inherited ones.
+ */
+export const getPath = (data: unknown, path: string): unknown =>
+	parsePath(path).reduce<unknown>(
+		(value, segment) =>
+			isContainer(value) && hasOwn(value, segment)
+				? (value as Record<string, unknown>)[segment]
+				: undefined,
+		data,
+	);
+
+export const hasPath = (data: unknown, path: string): boolean => {
+	const segments = parsePath(path);
+	const parent = getPath(data, segments.slice(0, -1).join('.'));
+
+	return (
+		segments.length > 0 && isContainer(parent) && hasOwn(parent, segments[segments.length - 1])
+	);
+};
+
+/**
+ * Sets a value below `data`, creating missing parents: arrays when the next segment
+ * is an index, objects otherwise. Values in the way are replaced. Throws for
+ * `__proto__`, `constructor` and `prototype` segments.
+ */
+export const setSegments = (data: IDataObject, segments: string[], value: unknown): void => {
+	assertSafeSegments(segments);
+
+	let parent: Container = data;
+
+	segments.slice(0, -1).forEach((segment, index) => {
+		const record = parent as Record<string, unknown>;
+
+		if (!hasOwn(record, segment) || !isContainer(record[segment])) {
+			record[segment] = isIndex(segments[index + 1]) ? [] : {};
+		}
+
+		parent = record[segment] as Container;
+	});
+
+	(parent as Record<string, unknown>)[segments[segments.length - 1]] = value;
+};
+
+/**
+ * Sets the value at `path`, creating the parents that are missing.
+ */
+export const setPath = (data: IDataObject, path: string, value: unknown): void => {
+	const segments = parsePath(path);
+
+	if (segments.length === 0) throw new Error('The field path is empty');
+
+	setSegments(data, segments, value);
+};
+
+/**
+ * Removes the value at `path`; array entries are spliced out so no holes remain.
+ */
+export const unsetPath = (data: IDataObject, path: string): void => {
+	const segments = parsePath(path);
+
+	assertSafeSegments(segments);
+
+	const parent = getPath(data, segments.slice(0, -1).join('.'));
+	const last = segments[segments.length - 1];
+
+	if (!isContainer(parent) || last === undefined) return;
+
+	if (Array.isArray(parent) && isIndex(last)) {
+		parent.splice(Number(last), 1);
+	} else {
+		delete (parent as Record<string, unknown>)[last];
+	}
+};
+
+/**
+ * Returns a new object with only the given paths, keeping their nesting.
+ */
+export const pickPaths = (data: IDataObject, paths: string[]): IDataObject => {
+	const result: IDataObject = {};
+
+	for (const path of paths) {
+		if (hasPath(data, path)) setPath(result, path, getPath(data, path));
+	}
+
+	return result;
+};
@@ -0,0 +1,187 @@
+import type { IDataObject } from 'n8n-workflow';
+
+export type PaginationStyle = 'offset' | 'page' | 'cursor' | 'linkHeader';
+
+export interface PaginationOptions {
+	style: PaginationStyle;
+	// Items requested per page
+	pageSize: number;
+	// Stop after this many items, all items when undefined
+	limit?: number;
+	// Safety cap on the number of requests
+	maxPages: number;
+	// Dot-notation path of the item list in the response body, detected when empty
+	itemsPath?: string;
+	// Query parameter names
+	limitParameter?: string;
+	offsetParameter?: string;
+	pageParameter?: string;
+	cursorParameter?: string;
+	// Number of the first page for the "page" style
+	firstPage?: number;
+	// Dot-notation path of the next cursor in the response body
+	nextCursorPath?: string;
+}
+
+export interface PageRequest {
+	// Absolute URL to request instead of the initial one, used for Link headers
+	url?: string;
+	qs: IDataObject;
+}
+
+export interface PageResponse {
+	body: unknown;
+	headers: Record<string, string | string[] | undefined>;
+	// URL of the request, to resolve relative Link header targets and check their origin
+	url?: string;
+}
+
+export const getValue = (data: unknown, path: string): unknown =>
+	path
+		.split('.')
+		.filter((segment) => segment !== '')
+		.reduce<unknown>(
+			(value, segment) =>
+				value !== null && typeof value === 'object'
+					? (value as Record<string, unknown>)[segment]
+					: undefined,
+			data,
+		);
+
+/**
+ * Returns the items of a list response: the body itself when it is an array,
+ * the value at `itemsPath`, or the first of `data`, `items` and `results`.
+ */
+export const extractItems = (body: unknown, itemsPath?: string): IDataObject[] => {
+	if (itemsPath) {
+		const items = getValue(body, itemsPath);
+
+		return Array.isArray(items) ? (items as IDataObject[]) : [];
+	}
+
+	if (Array.isArray(body)) return body as IDataObject[];
+
+	for (const key of ['data', 'items', 'results']) {
+		const items = getValue(body, key);
+
+		if (Array.isArray(items)) return items as IDataObject[];
+	}
+
+	return body !== null && typeof body === 'object' ? [body as IDataObject] : [];
+};
+
+/**
+ * Parses an RFC 5988 Link header into a map of relation to URL.
+ */
+export const parseLinkHeader = (header: string | string[] | undefined): Record<string, string> => {
+	const links: Record<string, string> = {};
+	const value = Array.isArray(header) ? header.join(',') : (header ?? '');
+
+	for (const match of value.matchAll(/<([^>]*)>([^,]*)/g)) {
+		const rel = /;\s*rel\s*=\s*"?([^";]+)"?/i.exec(match[2]);
+
+		if (rel) {
+			for (const name of rel[1].trim().split(/\s+/)) {
+				links[name.toLowerCase()] = match[1];
+			}
+		}
+	}
+
+	return links;
+};
+
+const headerValue = (headers: PageResponse['headers'], name: string) => {
+	const key = Object.keys(headers).find((header) => header.toLowerCase() === name);
+
+	return key === undefined ? undefined : headers[key];
+};
+
+/**
+ * Requests pages until the API runs out of items, the limit is reached or the
+ * page cap is hit, and yields the items of every page as it arrives. A Link
+ * header or cursor that points back to a page already requested ends the
+ * pagination too. Link header targets on another origin than the page that
+ * links them fail the pagination.
+ */
+export async function* paginate(
+	fetchPage: (request: PageRequest) => Promise<PageResponse>,
+	options: PaginationOptions,
+): AsyncGenerator<IDataObject[]> {
+	const {
+		style,
+		pageSize,
+		limit,
+		maxPages,
+		itemsPath,
+		limitParameter = 'limit',
+		offsetParameter = 'offset',
+		pageParameter = 'page',
+		cursorParameter = 'cursor',
+		firstPage = 1,
+		nextCursorPath = 'next_cursor',
+	} = options;
+
+	// Small limits are fetched in one request, the size then stays fixed so that
+	// page numbers keep pointing at the same items
+	const size = limit === undefined ? pageSize : Math.min(pageSize, limit);
+
+	let request: PageRequest = { qs: { [limitParameter]: size } };
+	let returned = 0;
+	// Link header URLs and cursors followed so far, an API that repeats one would loop
+	const followed = new Set<string>();
+
+	if (style === 'offset') request.qs[offsetParameter] = 0;
+	if (style === 'page') request.qs[pageParameter] = firstPage;
+
+	for (let page = 0; page < maxPages; page++) {
+		const response = await fetchPage(request);
+		let items = extractItems(response.body, itemsPath);
+
+		if (limit !== undefined && returned + items.length > limit) {
+			items = items.slice(0, limit - returned);
+		}
+
+		returned += items.length;
+
+		if (items.length > 0) yield items;
+
+		if (items.length === 0 || (limit !== undefined && returned >= limit)) return;
+
+		if (style === 'linkHeader') {
+			const next = parseLinkHeader(headerValue(response.headers, 'link')).next;
+
+			if (!next) return;
+
+			const url = new URL(next, response.url);
+
+			// Every request carries the credential, so it must not be sent to other hosts
+			if (response.url !== undefined && url.origin !== new URL(response.url).origin) {
+				throw new Error(
+					`The API linked the next page to ${url.origin}, other hosts than ${new URL(response.url).origin} are not followed`,
+				);
+			}
+
+			if (followed.has(url.toString())) return;
+
+			followed.add(url.toString());
+			request = { url: url.toString(), qs: {} };
+		} else if (style === 'cursor') {
+			const cursor = getValue(response.body, nextCursorPath);
+
+			if (cursor === undefined || cursor === null || cursor === '') return;
+			if (followed.has(String(cursor))) return;
+
+			followed.add(String(cursor));
+
+			request = { qs: { ...request.qs, [cursorParameter]: cursor as string } };
+		} else {
+			// A short page is the last one
+			if (items.length < size) return;
+
+			request =
+				style === 'offset'
+					? { qs: { ...request.qs, [offsetParameter]: returned } }
+					: { qs: { ...request.qs, [pageParameter]: (request.qs[pageParameter] as number) + 1 } };
+		}
+	}
+}
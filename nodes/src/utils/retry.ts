@@ -0,0 +1,297 @@
+import type { IDataObject, Logger } from 'n8n-workflow';
+
+export interface RetrySettings {
+	// Retries of a single request, on top of the first attempt
+	maxRetries: number;
+	// Delay before the first retry in milliseconds, doubled for every further one
+	initialDelay: number;
+	// Upper bound for a single delay in milliseconds
+	maxDelay: number;
+}
+
+export interface CircuitBreakerSettings {
+	// Consecutive failures after which requests are refused
+	failureThreshold: number;
+	// Milliseconds before a trial request is let through again
+	resetTimeout: number;
+}
+
+// Retries still available to a node for the current execution, shared by all its requests
+export interface RetryBudget {
+	remaining: number;
+}
+
+export interface CircuitState {
+	failures: number;
+	openUntil?: number;
+}
+
+export type CircuitStore = Map<string, CircuitState>;
+
+export interface RetryHooks {
+	logger: Logger;
+	// HTTP method of the request, GET when not given; see isRetryableError()
+	method?: string;
+	// Added to every log entry, e.g. the node name
+	metadata?: IDataObject;
+	budget?: RetryBudget;
+	circuit?: {
+		store: CircuitStore;
+		key: string;
+		settings: CircuitBreakerSettings;
+	};
+	sleep?: (ms: number) => Promise<void>;
+	random?: () => number;
+	now?: () => number;
+}
+
+export class CircuitOpenError extends Error {
+	constructor(
+		readonly key: string,
+		// Milliseconds until a trial request is allowed
+		readonly retryIn: number,
+	) {
+		super(`Too many failed requests, new requests are paused for ${Math.ceil(retryIn / 1000)}s`);
+	}
+}
+
+const RETRYABLE_CODES = new Set([
+	'ECONNRESET',
+	'ECONNREFUSED',
+	'ECONNABORTED',
+	'ETIMEDOUT',
+	'ESOCKETTIMEDOUT',
+	'EPIPE',
+	'EAI_AGAIN',
+]);
+
+// Request helpers wrap the original error, e.g. a NodeApiError around an axios error,
+// so the details may sit on any level of the `cause` chain
+const errorChain = (error: unknown): IDataObject[] => {
+	const chain: IDataObject[] = [];
+
+	for (let current = error; current && typeof current === 'object' && chain.length < 5; ) {
+		chain.push(current as IDataObject);
+		current = (current as IDataObject).cause;
+	}
+
+	return chain;
+};
+
+/**
+ * Returns the HTTP status code of a failed request, or `undefined` when no
+ * response was received.
+ */
+export const getStatusCode = (error: unknown): number | undefined => {
+	for (const entry of errorChain(error)) {
+		const response = entry.response as IDataObject | undefined;
+
+		for (const value of [entry.statusCode, entry.status, entry.httpCode, response?.status]) {
+			const status = Number(value);
+
+			if (value !== undefined && value !== null && Number.isInteger(status) && status >= 100) {
+				return status;
+			}
+		}
+	}
+
+	return undefined;
+};
+
+/**
+ * Returns the error codes along the cause chain, e.g. `ECONNREFUSED` or `CERT_HAS_EXPIRED`.
+ */
+export const getErrorCodes = (error: unknown): string[] =>
+	errorChain(error)
+		.map((entry) => entry.code)
+		.filter((code): code is string => typeof code === 'string');
+
+const IDEMPOTENT_METHODS = new Set(['GET', 'HEAD', 'OPTIONS', 'PUT', 'DELETE']);
+
+const getNetworkCode = (error: unknown): string | undefined =>
+	getErrorCodes(error).find((code) => RETRYABLE_CODES.has(code));
+
+/**
+ * Rate limits (429), server errors (5xx) and dropped or refused connections are
+ * worth another attempt; everything else fails right away. POST and PATCH may
+ * have been handled by the server even though they failed, so sending them again
+ * could create duplicates: they are only retried on 429 and refused connections,
+ * which the server rejected before handling them.
+ */
+export const isRetryableError = (error: unknown, method = 'GET'): boolean => {
+	const status = getStatusCode(error);
+
+	if (!IDEMPOTENT_METHODS.has(method.toUpperCase())) {
+		return status === undefined ? getErrorCodes(error).includes('ECONNREFUSED') : status === 429;
+	}
+
+	if (status !== undefined) return status === 429 || status >= 500;
+
+	return getNetworkCode(error) !== undefined;
+};
+
+/**
+ * Reads the Retry-After header of a failed response, given in seconds or as an
+ * HTTP date, and returns the delay in milliseconds.
+ */
+export const getRetryAfter = (error: unknown, now = Date.now()): number | undefined => {
+	for (const entry of errorChain(error)) {
+		const headers = ((entry.response as IDataObject | undefined)?.headers ?? entry.headers) as
+			| IDataObject
+			| undefined;
+		const key = Object.keys(headers ?? {}).find((name) => name.toLowerCase() === 'retry-after');
+
+		if (!headers || key === undefined) continue;
+
+		const value = String(headers[key]).trim();
+
+		if (/^\d+$/.test(value)) return Number(value) * 1000;
+
+		const date = Date.parse(value);
+
+		if (!Number.isNaN(date)) return Math.max(0, date - now);
+	}
+
+	return undefined;
+};
+
+/**
+ * Exponential backoff with full jitter: a random delay between zero and
+ * `initialDelay * 2^attempt`, capped at `maxDelay`.
+ */
+export const backoffDelay = (
+	attempt: number,
+	settings: RetrySettings,
+	random: () => number = Math.random,
+): number =>
+	Math.round(random() * Math.min(settings.maxDelay, settings.initialDelay * 2 ** attempt));
+
+/**
+ * Returns the milliseconds until the circuit for `key` lets requests through
+ * again, or 0 when requests may pass. Once the reset timeout has passed a trial
+ * request is allowed; if it fails the circuit opens again right away.
+ */
+export function checkCircuit(store: CircuitStore, key: string, now = Date.now()): number {
+	const openUntil = store.get(key)?.openUntil;
+
+	return openUntil === undefined || openUntil <= now ? 0 : openUntil - now;
+}
+
+export function recordFailure(
+	store: CircuitStore,
+	key: string,
+	settings: CircuitBreakerSettings,
+	now = Date.now(),
+): void {
+	const state = store.get(key) ?? { failures: 0 };
+
+	state.failures++;
+
+	if (state.failures >= settings.failureThreshold) {
+		state.openUntil = now + settings.resetTimeout;
+	}
+
+	store.set(key, state);
+}
+
+export const recordSuccess = (store: CircuitStore, key: string): void => {
+	store.delete(key);
+};
+
+const describeFailure = (error: unknown): string => {
+	const status = getStatusCode(error);
+
+	return status === undefined ? (getNetworkCode(error) ?? 'network error') : `HTTP ${status}`;
+};
+
+/**
+ * Runs `request` and retries it on transient failures with exponential backoff,
+ * honoring Retry-After; POST and PATCH only when the server cannot have handled
+ * them, see isRetryableError(). Retries stop once the request's own retries or the shared
+ * budget are used up; after repeated failures the circuit for the key opens and
+ * further requests fail with a CircuitOpenError until the reset timeout passed.
+ */
+export async function withRetry<T>(
+	request: () => Promise<T>,
+	settings: RetrySettings,
+	hooks: RetryHooks,
+): Promise<T> {
+	const {
+		logger,
+		method,
+		metadata = {},
+		budget,
+		circuit,
+		sleep = async (ms: number) => await new Promise((resolve) => setTimeout(resolve, ms)),
+		random = Math.random,
+		now = Date.now,
+	} = hooks;
+
+	for (let attempt = 0; ; attempt++) {
+		if (circuit) {
+			const retryIn = checkCircuit(circuit.store, circuit.key, now());
+
+			if (retryIn > 0) throw new CircuitOpenError(circuit.key, retryIn);
+		}
+
+		try {
+			const result = await request();
+
+			if (circuit) recordSuccess(circuit.store, circuit.key);
+
+			return result;
+		} catch (error) {
+			if (!isRetryableError(error, method)) throw error;
+
+			if (circuit) recordFailure(circuit.store, circuit.key, circuit.settings, now());
+
+			const reason = describeFailure(error);
+			const retryAfter = getRetryAfter(error, now());
+			const delay = retryAfter ?? backoffDelay(attempt, settings, random);
+
+			if (attempt >= settings.maxRetries) {
+				if (attempt > 0) {
+					logger.warn(`Request failed with ${reason}, giving up after ${attempt} retries`, {
+						...metadata,
+						attempt: attempt + 1,
+						reason,
+					});
+				}
+
+				throw error;
+			}
+
+			let stop: string | undefined;
+
+			if (budget && budget.remaining <= 0) {
+				stop = 'the retry budget is used up';
+			} else if (delay > settings.maxDelay) {
+				stop = 'Retry-After exceeds the maximum delay';
+			} else if (circuit && checkCircuit(circuit.store, circuit.key, now()) > 0) {
+				stop = 'the circuit breaker opened';
+			}
+
+			if (stop !== undefined) {
+				logger.warn(`Request failed with ${reason}, not retrying because ${stop}`, {
+					...metadata,
+					attempt: attempt + 1,
+					reason,
+				});
+
+				throw error;
+			}
+
+			if (budget) budget.remaining--;
+
+			logger.warn(`Request failed with ${reason}, retrying in ${delay}ms`, {
+				...metadata,
+				attempt: attempt + 1,
+				maxRetries: settings.maxRetries,
+				delay,
+				reason,
+			});
+
+			await sleep(delay);
+		}
+	}
+}
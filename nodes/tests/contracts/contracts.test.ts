@@ -0,0 +1,73 @@
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'fs';
+import { dirname, join } from 'path';
+
+import { compareContracts, describeCredentialType, describeNodeType, isVersionBumped, TypeContract } from '../utils/contract';
+import { credentialTypes, nodeTypes } from '../utils/customNodes';
+
+// Accepts new and changed contracts; breaking changes still need a version bump
+const update = process.env.UPDATE_CONTRACTS === '1';
+const updateHint = 'run `npm run test:contracts:update` to accept the change';
+
+const snapshotFile = (name: string, { kind }: TypeContract) =>
+	join(__dirname, kind === 'node' ? 'nodes' : 'credentials', `${name}.json`);
+
+// Versioned node types keep a contract per version, as saved workflows stay on theirs
+const nodeContracts = [...nodeTypes.values()].flatMap(nodeType =>
+	'nodeVersions' in nodeType
+		? Object.entries(nodeType.nodeVersions).map(
+				([version, { description }]) => [`${nodeType.description.name}.v${version}`, description] as const,
+			)
+		: [[nodeType.description.name, nodeType.description] as const],
+);
+
+const checkContract = (name: string, contract: TypeContract) => {
+	const file = snapshotFile(name, contract);
+	const serialized = `${JSON.stringify(contract, null, '\t')}\n`;
+	const write = () => {
+		mkdirSync(dirname(file), { recursive: true });
+		writeFileSync(file, serialized);
+	};
+
+	if (!existsSync(file)) {
+		// Like Jest snapshots, new contracts are only written outside CI
+		if (process.env.CI && !update) throw new Error(`${name} has no contract snapshot, ${updateHint}`);
+
+		return write();
+	}
+
+	const snapshot = readFileSync(file, 'utf8');
+
+	if (snapshot === serialized) return;
+
+	const previous = JSON.parse(snapshot) as TypeContract;
+	const changes = compareContracts(previous, contract);
+	const list = (kind: string) => changes.filter(change => change.kind === kind).map(change => `  - ${change.message}`);
+
+	if (list('breaking').length > 0 && !isVersionBumped(previous, contract)) {
+		throw new Error(
+			[
+				`Breaking changes to ${name} would change saved workflows, add a new version instead:`,
+				...list('breaking'),
+			].join('\n'),
+		);
+	}
+
+	if (!update) {
+		throw new Error([`The contract of ${name} changed, ${updateHint}:`, ...list('breaking'), ...list('compatible')].join('\n'));
+	}
+
+	write();
+};
+
+describe('Contracts', () => {
+	test.each(nodeContracts)('node %s should keep its contract', (name, description) => {
+		checkContract(name, describeNodeType(description));
+	});
+
+	test.each([...credentialTypes.values()].map(credentialType => [credentialType.name, credentialType]))(
+		'credential %s should keep its contract',
+		(name, credentialType) => {
+			checkContract(name, describeCredentialType(credentialType));
+		},
+	);
+});
@@ -0,0 +1,63 @@
+import { ExampleApi } from '../../src/credentials/ExampleApi.credentials';
+import { ExampleOAuth2Api } from '../../src/credentials/ExampleOAuth2Api.credentials';
+
+describe('ExampleApi Credential', () => {
+	const credential = new ExampleApi();
+	const request = { url: 'https://api.example.com/v1/users', headers: { Accept: 'application/json' } };
+
+	test('should send the API key in the configured header', async () => {
+		const options = await credential.authenticate(
+			{ authType: 'apiKey', apiKey: 'secret', apiKeyHeaderName: 'X-Token' },
+			request,
+		);
+
+		expect(options.headers).toEqual({
+			Accept: 'application/json',
+			'User-Agent': 'n8n-r8-custom-nodes/1.0.0',
+			'X-Token': 'secret',
+		});
+		expect(options.url).toBe(request.url);
+	});
+
+	test('should send bearer tokens and basic auth as Authorization header', async () => {
+		const bearer = await credential.authenticate({ authType: 'bearerToken', bearerToken: 'tok' }, request);
+		const basic = await credential.authenticate(
+			{ authType: 'basicAuth', username: 'user', password: 'pass' },
+			request,
+		);
+
+		expect(bearer.headers?.Authorization).toBe('Bearer tok');
+		expect(basic.headers?.Authorization).toBe(`Basic ${Buffer.from('user:pass').toString('base64')}`);
+	});
+
+	test('should not modify the request options it was given', async () => {
+		await credential.authenticate({ authType: 'apiKey', apiKey: 'secret' }, request);
+
+		expect(request.headers).toEqual({ Accept: 'application/json' });
+	});
+});
+
+describe('ExampleOAuth2Api Credential', () => {
+	const credential = new ExampleOAuth2Api();
+
+	test('should extend the n8n OAuth2 credential', () => {
+		expect(credential.name).toBe('exampleOAuth2Api');
+		expect(credential.extends).toEqual(['oAuth2Api']);
+	});
+
+	test('should offer the client credentials and authorization code grants', () => {
+		const grantType = credential.properties.find(p => p.name === 'grantType');
+
+		expect(grantType?.default).toBe('clientCredentials');
+		expect((grantType?.options as Array<{ value: string }>).map(o => o.value)).toEqual([
+			'clientCredentials',
+			'authorizationCode',
+		]);
+	});
+
+	test('should only ask for the authorization URL of the authorization code grant', () => {
+		const authUrl = credential.properties.find(p => p.name === 'authUrl');
+
+		expect(authUrl?.displayOptions?.show?.grantType).toEqual(['authorizationCode']);
+	});
+});
@@ -0,0 +1,389 @@
+import { generateKeyPairSync } from 'crypto';
+import { mkdtemp, rm, writeFile } from 'fs/promises';
+import { proxyRequestToAxios } from 'n8n-core/dist/execution-engine/node-execution-context/utils/request-helper-functions';
+import { ICredentialDataDecryptedObject, ICredentialTestFunctions, IRequestOptions } from 'n8n-workflow';
+import { tmpdir } from 'os';
+import { join } from 'path';
+
+import { SimpleApi } from '../../src/credentials/SimpleApi.credentials';
+import { ExampleNode } from '../../src/nodes/ExampleNode.node';
+import { HttpTrigger } from '../../src/nodes/HttpTrigger.node';
+import { HttpTriggerV2 } from '../../src/nodes/HttpTrigger/HttpTriggerV2';
+import { createTestCertificates, TestCertificates } from '../utils/certificates';
+import { MockResponse, MockServer, RecordedRequest, sendRequest, startMockServer } from '../utils/mockServer';
+import { runCredentialTestRequest, shutdownRoutingNode } from '../utils/routing';
+
+// Credential tests run against a local stub server; every test picks its answer with `respond`
+describe('Credential tests', () => {
+	let server: MockServer;
+	let closedUrl: string;
+	let respond: (request: RecordedRequest) => MockResponse | Promise<MockResponse>;
+
+	const lastRequest = () => server.requests[server.requests.length - 1];
+
+	// Each test uses its own credential ID, so failures do not trip a shared circuit breaker
+	let credentialId = 0;
+
+	const context = {
+		logger: { warn: jest.fn(), debug: jest.fn() },
+		helpers: { request: sendRequest },
+	} as unknown as ICredentialTestFunctions;
+
+	const credential = (type: string, data: ICredentialDataDecryptedObject) => ({
+		id: `credential-${++credentialId}`,
+		name: type,
+		type,
+		data,
+	});
+
+	beforeAll(async () => {
+		server = await startMockServer(request => respond(request));
+
+		// A port that was just released refuses connections
+		const closed = await startMockServer(() => ({}));
+
+		closedUrl = closed.url;
+		await closed.close();
+	});
+
+	afterAll(async () => {
+		await server.close();
+		shutdownRoutingNode();
+	});
+
+	describe('SimpleApi', () => {
+		const test = async (data: ICredentialDataDecryptedObject) =>
+			await runCredentialTestRequest(new SimpleApi(), { apiKey: 'key', ...data });
+
+		it('should send the API key to /auth/test', async () => {
+			respond = () => ({ body: { authenticated: true } });
+
+			await expect(test({ baseUrl: `${server.url}/` })).resolves.toEqual({
+				status: 'OK',
+				message: 'Connection successful',
+			});
+			expect(lastRequest().path).toBe('/auth/test');
+			expect(lastRequest().headers['x-api-key']).toBe('key');
+		});
+
+		it.each([
+			[401, 'Authentication failed: the API rejected the API key (401)'],
+			[403, 'Access denied: the API key is not allowed to use this API (403)'],
+			[404, 'Not found (404): check the Base URL'],
+		])('should explain a %i response', async (status, message) => {
+			respond = () => ({ status, body: { error: 'nope' } });
+
+			await expect(test({ baseUrl: server.url })).resolves.toEqual({ status: 'Error', message });
+		});
+
+		it('should fail when the API does not authenticate the key', async () => {
+			respond = () => ({ body: { authenticated: false } });
+
+			await expect(test({ baseUrl: server.url })).resolves.toEqual({
+				status: 'Error',
+				message: 'The API did not accept the API key',
+			});
+		});
+
+		it('should report a refused connection', async () => {
+			await expect(test({ baseUrl: closedUrl })).resolves.toEqual({
+				status: 'Error',
+				message: 'The service refused the connection - perhaps it is offline',
+			});
+		});
+	});
+
+	describe('ExampleApi', () => {
+		const { exampleApiCredentialTest } = new ExampleNode().methods.credentialTest;
+
+		const test = async (data: ICredentialDataDecryptedObject) =>
+			await exampleApiCredentialTest.call(
+				context,
+				credential('exampleApi', { apiVersion: 'v1', authType: 'bearerToken', bearerToken: 'tok', ...data }),
+			);
+
+		it('should accept credentials the API authenticates', async () => {
+			respond = () => ({ body: { authenticated: true } });
+
+			await expect(test({ baseUrl: `${server.url}/` })).resolves.toEqual({
+				status: 'OK',
+				message: 'Connection successful',
+			});
+			expect(lastRequest().path).toBe('/v1/auth/test');
+			expect(lastRequest().headers.authorization).toBe('Bearer tok');
+		});
+
+		it('should reject credentials the API does not authenticate', async () => {
+			respond = () => ({ body: { authenticated: false } });
+
+			await expect(test({ baseUrl: server.url })).resolves.toEqual({
+				status: 'Error',
+				message: 'The API did not accept the credentials',
+			});
+		});
+
+		it.each([
+			[401, 'Authentication failed: the API rejected the credentials (401)'],
+			[403, 'Access denied: the credentials are not allowed to use this API (403)'],
+			[404, 'Not found (404): check the Base URL and API version'],
+			[418, 'The API answered with status 418'],
+		])('should explain a %i response', async (status, message) => {
+			respond = () => ({ status, body: { error: 'invalid_key' } });
+
+			await expect(test({ baseUrl: server.url })).resolves.toEqual({ status: 'Error', message });
+		});
+
+		it('should retry a server error before giving up', async () => {
+			let calls = 0;
+
+			respond = () => (++calls === 1 ? { status: 503 } : { body: { authenticated: true } });
+
+			await expect(test({ baseUrl: server.url })).resolves.toMatchObject({ status: 'OK' });
+			expect(calls).toBe(2);
+		});
+
+		it('should tell a refused connection apart from rejected credentials', async () => {
+			const host = new URL(closedUrl).host;
+
+			await expect(test({ baseUrl: closedUrl })).resolves.toEqual({
+				status: 'Error',
+				message: `Connection refused by ${host}: check the Base URL and that the API is running`,
+			});
+		});
+
+		it('should report a failed TLS handshake', async () => {
+			const result = await test({ baseUrl: server.url.replace('http:', 'https:') });
+
+			expect(result.status).toBe('Error');
+			expect(result.message).toMatch(
+				/^TLS handshake with 127\.0\.0\.1:\d+ failed \(\w+\): check that the server speaks HTTPS on this port$/,
+			);
+		});
+	});
+
+	// These requests go through n8n's own request helper, which applies the timeout and TLS options
+	describe('ExampleApi connection options', () => {
+		const { exampleApiCredentialTest } = new ExampleNode().methods.credentialTest;
+		const tlsContext = {
+			...context,
+			helpers: { request: async (options: IRequestOptions) => await proxyRequestToAxios(undefined, undefined, undefined, options) },
+		} as unknown as ICredentialTestFunctions;
+		let certificates: TestCertificates;
+		let tlsServer: MockServer;
+		let mutualTlsServer: MockServer;
+
+		const test = async (url: string, data: ICredentialDataDecryptedObject = {}) =>
+			await exampleApiCredentialTest.call(
+				tlsContext,
+				credential('exampleApi', { baseUrl: url, apiVersion: 'v1', authType: 'apiKey', apiKey: 'key', ...data }),
+			);
+
+		beforeAll(async () => {
+			certificates = createTestCertificates();
+
+			const { serverCert: cert, serverKey: key, ca } = certificates;
+
+			tlsServer = await startMockServer(() => ({ body: { authenticated: true } }), { cert, key });
+			mutualTlsServer = await startMockServer(() => ({ body: { authenticated: true } }), {
+				cert,
+				key,
+				ca,
+				requestCert: true,
+				rejectUnauthorized: true,
+			});
+		});
+
+		afterAll(async () => {
+			await tlsServer.close();
+			await mutualTlsServer.close();
+		});
+
+		it('should not trust a certificate of an unknown CA', async () => {
+			await expect(test(tlsServer.url)).resolves.toEqual({
+				status: 'Error',
+				message: `TLS handshake with ${new URL(tlsServer.url).host} failed (UNABLE_TO_VERIFY_LEAF_SIGNATURE): the server certificate is not trusted`,
+			});
+		});
+
+		it('should trust the CA certificates of the credential', async () => {
+			await expect(test(tlsServer.url, { caCertificate: certificates.ca })).resolves.toMatchObject({ status: 'OK' });
+		});
+
+		it('should skip the verification when asked to', async () => {
+			await expect(test(tlsServer.url, { skipTlsVerify: true })).resolves.toMatchObject({ status: 'OK' });
+		});
+
+		it('should present the client certificate for mutual TLS', async () => {
+			const { ca, clientCert, clientKey } = certificates;
+
+			await expect(test(mutualTlsServer.url, { caCertificate: ca })).resolves.toMatchObject({ status: 'Error' });
+			await expect(
+				test(mutualTlsServer.url, { caCertificate: ca, clientCertificate: clientCert, clientKey }),
+			).resolves.toEqual({ status: 'OK', message: 'Connection successful' });
+		});
+
+		it('should give up on a request that takes longer than the timeout', async () => {
+			respond = async () => await new Promise(resolve => setTimeout(() => resolve({ body: {} }), 500));
+
+			await expect(test(server.url, { timeout: 100 })).resolves.toEqual({
+				status: 'Error',
+				message: `Connection to ${new URL(server.url).host} timed out`,
+			});
+		});
+	});
+
+	describe('ExampleOAuth2Api', () => {
+		const { exampleOAuth2ApiCredentialTest } = new ExampleNode().methods.credentialTest;
+
+		const test = async (data: ICredentialDataDecryptedObject) =>
+			await exampleOAuth2ApiCredentialTest.call(
+				context,
+				credential('exampleOAuth2Api', {
+					grantType: 'clientCredentials',
+					accessTokenUrl: `${server.url}/oauth/token`,
+					clientId: 'id',
+					clientSecret: 'secret',
+					scope: 'read',
+					authentication: 'header',
+					baseUrl: server.url,
+					apiVersion: 'v1',
+					...data,
+				}),
+			);
+
+		it('should request a token with the client credentials', async () => {
+			respond = () => ({ body: { access_token: 'token', token_type: 'Bearer' } });
+
+			await expect(test({})).resolves.toEqual({ status: 'OK', message: 'Connection successful' });
+			expect(lastRequest()).toMatchObject({
+				method: 'POST',
+				path: '/oauth/token',
+				body: { grant_type: 'client_credentials', scope: 'read' },
+			});
+			expect(lastRequest().headers.authorization).toBe(`Basic ${Buffer.from('id:secret').toString('base64')}`);
+		});
+
+		it('should send the client credentials in the body when configured', async () => {
+			respond = () => ({ body: { access_token: 'token' } });
+
+			await expect(test({ authentication: 'body' })).resolves.toMatchObject({ status: 'OK' });
+			expect(lastRequest().body).toMatchObject({ client_id: 'id', client_secret: 'secret' });
+			expect(lastRequest().headers.authorization).toBeUndefined();
+		});
+
+		it('should explain a rejected client', async () => {
+			respond = () => ({ status: 401, body: { error: 'invalid_client' } });
+
+			await expect(test({})).resolves.toEqual({
+				status: 'Error',
+				message: 'The token endpoint rejected the client ID or secret (401)',
+			});
+		});
+
+		it('should fail when no access token is returned', async () => {
+			respond = () => ({ body: { token_type: 'Bearer' } });
+
+			await expect(test({})).resolves.toEqual({
+				status: 'Error',
+				message: 'The token endpoint did not return an access token',
+			});
+		});
+
+		it('should ask to connect an authorization code credential first', async () => {
+			await expect(test({ grantType: 'authorizationCode' })).resolves.toEqual({
+				status: 'Error',
+				message: 'Connect the credential to an account first',
+			});
+		});
+
+		it('should send the token of a connected account to /auth/test', async () => {
+			respond = () => ({ status: 401 });
+
+			await expect(
+				test({ grantType: 'authorizationCode', oauthTokenData: { access_token: 'expired' } }),
+			).resolves.toEqual({
+				status: 'Error',
+				message: 'The access token was rejected (401): reconnect the credential',
+			});
+			expect(lastRequest().path).toBe('/v1/auth/test');
+			expect(lastRequest().headers.authorization).toBe('Bearer expired');
+		});
+	});
+
+	describe('Webhook credentials', () => {
+		const tests = (new HttpTrigger().getNodeType() as HttpTriggerV2).methods.credentialTest;
+		const valid = {
+			status: 'OK',
+			message: 'The credential is valid and will be checked against incoming requests',
+		};
+		let folder: string;
+
+		const test = async (name: keyof typeof tests, data: ICredentialDataDecryptedObject) =>
+			await tests[name].call(context, credential(name, data));
+
+		beforeAll(async () => {
+			folder = await mkdtemp(join(tmpdir(), 'credential-tests-'));
+		});
+
+		afterAll(async () => {
+			await rm(folder, { recursive: true, force: true });
+		});
+
+		it('should check basic auth users and passwords', async () => {
+			await expect(test('webhookBasicAuthApiTest', { user: 'user', password: 'pass' })).resolves.toEqual(valid);
+			await expect(test('webhookBasicAuthApiTest', { user: 'user', password: '' })).resolves.toEqual({
+				status: 'Error',
+				message: 'Enter both a user and a password',
+			});
+			await expect(test('webhookBasicAuthApiTest', { user: 'a:b', password: 'pass' })).resolves.toEqual({
+				status: 'Error',
+				message: 'The user must not contain a colon',
+			});
+		});
+
+		it('should check header names', async () => {
+			await expect(test('webhookHeaderAuthApiTest', { name: 'X-Token', value: 'secret' })).resolves.toEqual(valid);
+			await expect(test('webhookHeaderAuthApiTest', { name: 'X Token', value: 'secret' })).resolves.toEqual({
+				status: 'Error',
+				message: '"X Token" is not a valid header name',
+			});
+		});
+
+		it('should check JWT secrets and public keys', async () => {
+			const { publicKey } = generateKeyPairSync('rsa', { modulusLength: 2048 });
+			const pem = publicKey.export({ type: 'spki', format: 'pem' }) as string;
+
+			await expect(test('webhookJwtAuthApiTest', { algorithm: 'HS256', secret: 's' })).resolves.toEqual(valid);
+			await expect(test('webhookJwtAuthApiTest', { algorithm: 'RS256', publicKey: pem })).resolves.toEqual(valid);
+			await expect(test('webhookJwtAuthApiTest', { algorithm: 'RS256', publicKey: 'nope' })).resolves.toEqual({
+				status: 'Error',
+				message: 'The public key is not a valid PEM key',
+			});
+		});
+
+		it('should check that a JWKS file has a key for the algorithm', async () => {
+			const { publicKey } = generateKeyPairSync('rsa', { modulusLength: 2048 });
+			const jwksFilePath = join(folder, 'jwks.json');
+
+			await writeFile(jwksFilePath, JSON.stringify({ keys: [publicKey.export({ format: 'jwk' })] }));
+
+			await expect(
+				test('webhookJwtAuthApiTest', { keyType: 'jwksFile', algorithm: 'RS256', jwksFilePath }),
+			).resolves.toEqual(valid);
+			await expect(
+				test('webhookJwtAuthApiTest', { keyType: 'jwksFile', algorithm: 'HS256', jwksFilePath }),
+			).resolves.toEqual({ status: 'Error', message: 'The JWKS file has no "oct" key for HS256' });
+			await expect(
+				test('webhookJwtAuthApiTest', { keyType: 'jwksFile', jwksFilePath: join(folder, 'missing.json') }),
+			).resolves.toMatchObject({ status: 'Error', message: expect.stringMatching(/^The JWKS file could not be read/) });
+		});
+
+		it('should require a signature secret', async () => {
+			await expect(test('webhookSignatureApiTest', { secret: 'shh' })).resolves.toEqual(valid);
+			await expect(test('webhookSignatureApiTest', { secret: '' })).resolves.toEqual({
+				status: 'Error',
+				message: 'Enter the secret the sender signs requests with',
+			});
+		});
+	});
+});
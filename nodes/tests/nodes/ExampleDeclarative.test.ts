@@ -0,0 +1,203 @@
+import { ExampleApi } from '../../src/credentials/ExampleApi.credentials';
+import { ExampleDeclarative } from '../../src/nodes/ExampleDeclarative.node';
+import { createTestCertificates } from '../utils/certificates';
+import { MockResponse, MockServer, RecordedRequest, startMockServer } from '../utils/mockServer';
+import { runRoutingNode, shutdownRoutingNode } from '../utils/routing';
+
+describe('ExampleDeclarative Node', () => {
+	const node = new ExampleDeclarative();
+
+	describe('Node Description', () => {
+		test('should have correct basic properties', () => {
+			expect(node.description.displayName).toBe('Example Declarative');
+			expect(node.description.name).toBe('exampleDeclarative');
+			expect(node.description.version).toBe(1);
+		});
+
+		test('should not implement execute()', () => {
+			expect((node as { execute?: unknown }).execute).toBeUndefined();
+		});
+
+		test('should give every operation a request', () => {
+			const operations = node.description.properties.filter(p => p.name === 'operation');
+
+			for (const operation of operations) {
+				for (const option of operation.options as Array<{ routing?: { request?: object } }>) {
+					expect(option.routing?.request).toBeDefined();
+				}
+			}
+		});
+	});
+
+	describe('generated requests', () => {
+		let server: MockServer;
+		let respond: (request: RecordedRequest) => MockResponse | Promise<MockResponse>;
+
+		beforeAll(async () => {
+			server = await startMockServer(request => respond(request));
+		});
+
+		afterAll(async () => {
+			await server.close();
+			shutdownRoutingNode();
+		});
+
+		beforeEach(() => {
+			server.requests.length = 0;
+			respond = () => ({ body: { id: 1 } });
+		});
+
+		const run = async (parameters: Record<string, any>, credentials: Record<string, any> = {}) =>
+			runRoutingNode(
+				node,
+				{
+					parameters,
+					credentials: {
+						authType: 'apiKey',
+						apiKey: 'secret',
+						apiKeyHeaderName: 'X-API-Key',
+						baseUrl: `${server.url}/`,
+						apiVersion: 'v1',
+						...credentials,
+					},
+				},
+				new ExampleApi(),
+			);
+
+		const stripRequest = ({ method, path, query, body }: RecordedRequest) => ({
+			method,
+			path,
+			query,
+			body,
+		});
+
+		test.each([
+			[
+				'user create',
+				{
+					resource: 'user',
+					operation: 'create',
+					userName: 'Jane',
+					email: 'jane@example.com',
+					additionalFields: { tags: 'a, b', status: 'pending' },
+				},
+				{
+					method: 'POST',
+					path: '/v1/users',
+					query: {},
+					body: { name: 'Jane', email: 'jane@example.com', tags: ['a', 'b'], status: 'pending' },
+				},
+			],
+			[
+				'user get',
+				{ resource: 'user', operation: 'get', userId: 'a/b' },
+				{ method: 'GET', path: '/v1/users/a%2Fb', query: {}, body: undefined },
+			],
+			[
+				'user getAll',
+				{ resource: 'user', operation: 'getAll', returnAll: false, limit: 5 },
+				{ method: 'GET', path: '/v1/users', query: { limit: '5' }, body: undefined },
+			],
+			[
+				'user update',
+				{
+					resource: 'user',
+					operation: 'update',
+					userId: '7',
+					userName: 'Jane',
+					email: 'jane@example.com',
+				},
+				{
+					method: 'PATCH',
+					path: '/v1/users/7',
+					query: {},
+					body: { name: 'Jane', email: 'jane@example.com' },
+				},
+			],
+			[
+				'user delete',
+				{ resource: 'user', operation: 'delete', userId: '7' },
+				{ method: 'DELETE', path: '/v1/users/7', query: {}, body: undefined },
+			],
+			[
+				'post create',
+				{ resource: 'post', operation: 'create', title: 'T', content: 'C' },
+				{ method: 'POST', path: '/v1/posts', query: {}, body: { title: 'T', content: 'C' } },
+			],
+			[
+				'post get',
+				{ resource: 'post', operation: 'get', postId: '3' },
+				{ method: 'GET', path: '/v1/posts/3', query: {}, body: undefined },
+			],
+			[
+				'post update',
+				{ resource: 'post', operation: 'update', postId: '3', title: 'T', content: 'C' },
+				{ method: 'PATCH', path: '/v1/posts/3', query: {}, body: { title: 'T', content: 'C' } },
+			],
+			[
+				'post delete',
+				{ resource: 'post', operation: 'delete', postId: '3' },
+				{ method: 'DELETE', path: '/v1/posts/3', query: {}, body: undefined },
+			],
+		])('should build the %s request', async (_name, parameters, expected) => {
+			await run(parameters);
+
+			expect(server.requests.map(stripRequest)).toEqual([expected]);
+		});
+
+		test('should authenticate with the credential', async () => {
+			await run({ resource: 'user', operation: 'get', userId: '1' });
+
+			expect(server.requests[0].headers['x-api-key']).toBe('secret');
+			expect(server.requests[0].headers['user-agent']).toBe('n8n-r8-custom-nodes/1.0.0');
+		});
+
+		test('should page through all results with offset and limit', async () => {
+			// A full first page makes n8n ask for the next one, the short second page ends it
+			respond = request => {
+				const offset = Number(request.query.offset);
+				const size = offset === 0 ? 50 : 2;
+
+				return { body: Array.from({ length: size }, (_, i) => ({ id: offset + i + 1 })) };
+			};
+
+			const result = await run({ resource: 'post', operation: 'getAll', returnAll: true });
+
+			expect(server.requests.map(request => request.query)).toEqual([
+				{ limit: '50', offset: '0' },
+				{ limit: '50', offset: '50' },
+			]);
+			expect(result?.[0]).toHaveLength(52);
+			expect(result?.[0][51].json).toEqual({ id: 52 });
+		});
+
+		test('should report deletes as confirmation items', async () => {
+			respond = () => ({ status: 204 });
+
+			const result = await run({ resource: 'user', operation: 'delete', userId: '7' });
+
+			expect(result?.[0][0].json).toEqual({ id: '7', deleted: true });
+		});
+
+		test('should fail requests that take longer than the timeout of the credential', async () => {
+			respond = async () => await new Promise<MockResponse>(resolve => setTimeout(() => resolve({ body: { id: 1 } }), 500));
+
+			await expect(run({ resource: 'user', operation: 'get', userId: '1' }, { timeout: 100 })).rejects.toThrow();
+			await expect(run({ resource: 'user', operation: 'get', userId: '1' }, { timeout: 2000 })).resolves.toBeDefined();
+		});
+
+		test('should skip the TLS verification when the credential asks to', async () => {
+			const { serverCert: cert, serverKey: key } = createTestCertificates();
+			const tlsServer = await startMockServer(() => ({ body: { id: 1 } }), { cert, key });
+			const get = async (skipTlsVerify: boolean) =>
+				await run({ resource: 'user', operation: 'get', userId: '1' }, { baseUrl: tlsServer.url, skipTlsVerify });
+
+			try {
+				await expect(get(false)).rejects.toThrow();
+				await expect(get(true)).resolves.toEqual([[{ json: { id: 1 } }]]);
+			} finally {
+				await tlsServer.close();
+			}
+		});
+	});
+});
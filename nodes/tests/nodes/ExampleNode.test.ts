@@ -0,0 +1,454 @@
+import { INodeParameters, NodeApiError } from 'n8n-workflow';
+
+import { ExampleNode } from '../../src/nodes/ExampleNode.node';
+import { generateTestPost, generateTestUser } from '../setup';
+import { NodeFixture, runExecute } from '../utils/harness';
+import {
+	MockResponse,
+	MockServer,
+	RecordedRequest,
+	sendRequest,
+	startMockServer,
+} from '../utils/mockServer';
+
+describe('ExampleNode Node', () => {
+	let node: ExampleNode;
+
+	beforeEach(() => {
+		node = new ExampleNode();
+	});
+
+	describe('Node Description', () => {
+		test('should have correct basic properties', () => {
+			expect(node.description.displayName).toBe('Example Node');
+			expect(node.description.name).toBe('exampleNode');
+			expect(node.description.version).toBe(1);
+		});
+
+		test('should offer the Example API and OAuth2 credentials', () => {
+			expect(node.description.credentials?.map(({ name, testedBy }) => ({ name, testedBy }))).toEqual([
+				{ name: 'exampleApi', testedBy: 'exampleApiCredentialTest' },
+				{ name: 'exampleOAuth2Api', testedBy: 'exampleOAuth2ApiCredentialTest' },
+			]);
+		});
+
+		test('should offer CRUD operations for posts', () => {
+			const operationParam = node.description.properties.find(
+				p => p.name === 'operation' && p.displayOptions?.show?.resource?.includes('post'),
+			);
+			const options = operationParam?.options as Array<{ value: string }>;
+
+			expect(options.map(o => o.value)).toEqual(['create', 'get', 'getAll', 'update', 'delete']);
+		});
+	});
+
+	describe('execute()', () => {
+		let server: MockServer;
+		let respond: (request: RecordedRequest) => MockResponse | Promise<MockResponse>;
+
+		beforeAll(async () => {
+			server = await startMockServer(request => respond(request));
+		});
+
+		afterAll(async () => {
+			await server.close();
+		});
+
+		beforeEach(() => {
+			server.requests.length = 0;
+			respond = () => ({ body: {} });
+		});
+
+		// Both credentials point at the mock server, requests are sent to it for real
+		const run = (parameters: INodeParameters, fixture: NodeFixture = {}) => {
+			const credentials = { baseUrl: `${server.url}/`, apiVersion: 'v1' };
+
+			return runExecute(node, {
+				parameters,
+				credentials: { exampleApi: credentials, exampleOAuth2Api: credentials },
+				helpers: {
+					requestWithAuthentication: jest.fn(
+						async (_credentialType: string, options: Parameters<typeof sendRequest>[0]) =>
+							sendRequest(options),
+					),
+				},
+				...fixture,
+			});
+		};
+
+		test('should create a user against the configured API version', async () => {
+			respond = request => ({ status: 201, body: { id: 7, ...(request.body as object) } });
+
+			const { output, context } = await run({
+				resource: 'user',
+				operation: 'create',
+				userName: 'Ada',
+				email: 'ada@example.com',
+				additionalFields: { tags: 'admin, beta', status: 'active' },
+			});
+
+			expect(server.requests[0]).toMatchObject({
+				method: 'POST',
+				path: '/v1/users',
+				body: { name: 'Ada', email: 'ada@example.com', tags: ['admin', 'beta'], status: 'active' },
+			});
+			expect(context.helpers.requestWithAuthentication).toHaveBeenCalledWith(
+				'exampleApi',
+				expect.anything(),
+				undefined,
+				0,
+			);
+			expect(output).toEqual([[{ json: expect.objectContaining({ id: 7 }), pairedItem: { item: 0 } }]]);
+		});
+
+		test('should use configured endpoints and encode IDs', async () => {
+			respond = () => ({ body: generateTestPost(5) });
+
+			const { output } = await run({
+				resource: 'post',
+				operation: 'get',
+				postId: 'a/5',
+				endpoints: { posts: '/blog/articles/' },
+			});
+
+			expect(server.requests[0].path).toBe('/v1/blog/articles/a%2F5');
+			expect(output[0][0].json).toEqual(generateTestPost(5));
+		});
+
+		test('should limit and unwrap lists', async () => {
+			respond = () => ({ body: { data: [1, 2, 3].map(id => generateTestUser(id)) } });
+
+			const { output } = await run({ resource: 'user', operation: 'getAll', returnAll: false, limit: 2 });
+
+			expect(server.requests[0].query).toEqual({ limit: '2', offset: '0' });
+			expect(output[0].map(item => item.json.id)).toEqual([1, 2]);
+		});
+
+		test('should page through all results', async () => {
+			const users = [1, 2, 3, 4, 5].map(id => generateTestUser(id));
+			respond = request => ({
+				body: users.slice(Number(request.query.offset), Number(request.query.offset) + 2),
+			});
+
+			const { output } = await run({
+				resource: 'user',
+				operation: 'getAll',
+				returnAll: true,
+				pagination: { pageSize: 2 },
+			});
+
+			expect(server.requests.map(request => request.query.offset)).toEqual(['0', '2', '4']);
+			expect(output[0].map(item => item.json.id)).toEqual([1, 2, 3, 4, 5]);
+		});
+
+		test('should follow Link headers', async () => {
+			respond = request =>
+				request.query.page === '2'
+					? { body: [generateTestPost(2)] }
+					: {
+							body: [generateTestPost(1)],
+							headers: { Link: '</v1/posts?page=2&per_page=1>; rel="next"' },
+						};
+
+			const { output } = await run({
+				resource: 'post',
+				operation: 'getAll',
+				returnAll: true,
+				pagination: { style: 'linkHeader', pageSize: 1 },
+			});
+
+			expect(server.requests.map(request => request.query)).toEqual([
+				{ limit: '1' },
+				{ page: '2', per_page: '1' },
+			]);
+			expect(output[0].map(item => item.json.id)).toEqual([1, 2]);
+		});
+
+		test('should stop following Link headers at the page cap', async () => {
+			respond = request => ({
+				body: [generateTestPost(Number(request.query.page ?? 1))],
+				headers: { Link: `</v1/posts?page=${Number(request.query.page ?? 1) + 1}>; rel="next"` },
+			});
+
+			const { output } = await run({
+				resource: 'post',
+				operation: 'getAll',
+				returnAll: true,
+				pagination: { style: 'linkHeader', pageSize: 1, maxPages: 3 },
+			});
+
+			expect(server.requests).toHaveLength(3);
+			expect(output[0].map(item => item.json.id)).toEqual([1, 2, 3]);
+		});
+
+		test('should not send the credential to another host linked as the next page', async () => {
+			respond = () => ({
+				body: [generateTestPost(1)],
+				headers: { Link: '<https://attacker.test/v1/posts?page=2>; rel="next"' },
+			});
+
+			await expect(
+				run({
+					resource: 'post',
+					operation: 'getAll',
+					returnAll: true,
+					pagination: { style: 'linkHeader', pageSize: 1 },
+				}),
+			).rejects.toThrow('https://attacker.test');
+			expect(server.requests).toHaveLength(1);
+		});
+
+		test('should update with PATCH and report empty deletes', async () => {
+			respond = request => (request.method === 'DELETE' ? { status: 204 } : { body: { id: 3 } });
+
+			await run({ resource: 'post', operation: 'update', postId: '3', title: 'T', content: 'C' });
+			const { output } = await run({ resource: 'user', operation: 'delete', userId: '3' });
+
+			expect(server.requests.map(request => `${request.method} ${request.path}`)).toEqual([
+				'PATCH /v1/posts/3',
+				'DELETE /v1/users/3',
+			]);
+			expect(output[0][0].json).toEqual({ id: '3', deleted: true });
+		});
+
+		test('should surface HTTP errors as NodeApiError with status and body', async () => {
+			respond = () => ({ status: 404, body: { error: 'user_not_found' } });
+
+			const error = await run({ resource: 'user', operation: 'get', userId: '9' }).catch((e: unknown) => e);
+
+			expect(error).toBeInstanceOf(NodeApiError);
+			expect((error as NodeApiError).httpCode).toBe('404');
+			expect((error as NodeApiError).description).toBe('{"error":"user_not_found"}');
+		});
+
+		test('should return errors as items when continuing on fail', async () => {
+			respond = () => ({ status: 500, body: { error: 'boom' } });
+
+			const { output } = await run(
+				{ resource: 'user', operation: 'get', userId: '1', retry: { maxRetries: 0 } },
+				{ items: [{ json: {} }, { json: {} }], continueOnFail: true },
+			);
+
+			expect(output[0]).toHaveLength(2);
+			expect(output[0][1]).toEqual({ json: { error: expect.any(String) }, pairedItem: { item: 1 } });
+		});
+
+		test('should send OAuth2 requests with the OAuth2 credential', async () => {
+			const { context } = await run({
+				authentication: 'exampleOAuth2Api',
+				resource: 'user',
+				operation: 'get',
+				userId: '1',
+			});
+
+			expect(context.getCredentials).toHaveBeenCalledWith('exampleOAuth2Api');
+			expect(context.helpers.requestWithAuthentication).toHaveBeenCalledWith(
+				'exampleOAuth2Api',
+				expect.objectContaining({ uri: `${server.url}/v1/users/1` }),
+				{ oauth2: { tokenType: 'Bearer', tokenExpiredStatusCode: 401 } },
+				0,
+			);
+		});
+
+		test("should send requests with the credential's timeout and TLS options", async () => {
+			const { context } = await run(
+				{ resource: 'user', operation: 'get', userId: '1' },
+				{
+					credentials: {
+						exampleApi: {
+							baseUrl: server.url,
+							apiVersion: 'v1',
+							timeout: 5000,
+							caCertificate: 'internal-ca',
+							clientCertificate: 'client-cert',
+							clientKey: 'client-key',
+						},
+					},
+				},
+			);
+
+			expect(context.helpers.requestWithAuthentication).toHaveBeenCalledWith(
+				'exampleApi',
+				expect.objectContaining({
+					timeout: 5000,
+					agentOptions: {
+						ca: expect.arrayContaining(['internal-ca']),
+						cert: 'client-cert',
+						key: 'client-key',
+					},
+				}),
+				undefined,
+				0,
+			);
+		});
+
+		test('should explain OAuth2 tokens that are still rejected after refreshing', async () => {
+			respond = () => ({ status: 401, body: { error: 'invalid_token' } });
+
+			const error = await run({
+				authentication: 'exampleOAuth2Api',
+				resource: 'user',
+				operation: 'get',
+				userId: '1',
+			}).catch((e: unknown) => e);
+
+			expect(error).toBeInstanceOf(NodeApiError);
+			expect((error as NodeApiError).message).toBe(
+				'The API rejected the OAuth2 access token, even after refreshing it',
+			);
+			expect((error as NodeApiError).description).toBe(
+				'Reconnect the OAuth2 credential, or check its client ID, secret and scopes.',
+			);
+		});
+
+		describe('batching', () => {
+			const items = [1, 2, 3, 4, 5].map(n => ({ json: { n } }));
+
+			// Every item gets its own name, so the bodies show which items went together
+			const createUsers = (batching: INodeParameters, continueOnFail = false) =>
+				run(
+					{ resource: 'user', operation: 'create', email: 'u@example.com', batching },
+					{ items, itemParameters: items.map((_, i) => ({ userName: `User ${i}` })), continueOnFail },
+				);
+
+			test('should send several items per request to the bulk endpoint', async () => {
+				respond = request => ({
+					body: Array.isArray(request.body)
+						? request.body.map(entry => ({ id: entry.name }))
+						: { id: (request.body as { name: string }).name },
+				});
+
+				const { output } = await createUsers({ batchSize: 2 });
+
+				expect(server.requests.map(request => `${request.method} ${request.path}`)).toEqual([
+					'POST /v1/users/bulk',
+					'POST /v1/users/bulk',
+					'POST /v1/users',
+				]);
+				expect(server.requests[0].body).toEqual([
+					{ name: 'User 0', email: 'u@example.com' },
+					{ name: 'User 1', email: 'u@example.com' },
+				]);
+				expect(output[0]).toEqual(
+					[0, 1, 2, 3, 4].map(i => ({ json: { id: `User ${i}` }, pairedItem: { item: i } })),
+				);
+			});
+
+			test('should bound the requests in flight', async () => {
+				let inFlight = 0;
+				let maxInFlight = 0;
+
+				respond = async () => {
+					inFlight++;
+					maxInFlight = Math.max(maxInFlight, inFlight);
+					await new Promise(resolve => setTimeout(resolve, 20));
+					inFlight--;
+
+					return { body: { id: 1 } };
+				};
+
+				const { output } = await createUsers({ concurrency: 2 });
+
+				expect(server.requests).toHaveLength(5);
+				expect(maxInFlight).toBe(2);
+				expect(output[0].map(item => item.pairedItem)).toEqual([0, 1, 2, 3, 4].map(item => ({ item })));
+			});
+
+			test('should confirm bulk deletes and link answers that do not match the items', async () => {
+				respond = request => (request.method === 'DELETE' ? { status: 204 } : { body: { updated: 2 } });
+
+				const { output: deleted } = await run(
+					{ resource: 'post', operation: 'delete', postId: '7', batching: { batchSize: 2 } },
+					{ items: items.slice(0, 2) },
+				);
+				const { output: updated } = await run(
+					{
+						resource: 'post',
+						operation: 'update',
+						postId: '7',
+						title: 'T',
+						content: 'C',
+						batching: { batchSize: 2 },
+					},
+					{ items: items.slice(0, 2) },
+				);
+
+				expect(server.requests.map(request => request.body)).toEqual([
+					[{ id: '7' }, { id: '7' }],
+					[
+						{ id: '7', title: 'T', content: 'C' },
+						{ id: '7', title: 'T', content: 'C' },
+					],
+				]);
+				expect(deleted[0]).toEqual([
+					{ json: { id: '7', deleted: true }, pairedItem: { item: 0 } },
+					{ json: { id: '7', deleted: true }, pairedItem: { item: 1 } },
+				]);
+				expect(updated[0]).toEqual([{ json: { updated: 2 }, pairedItem: [{ item: 0 }, { item: 1 }] }]);
+			});
+
+			test('should return an error for every item of a failed batch when continuing on fail', async () => {
+				respond = request =>
+					request.path === '/v1/users'
+						? { body: { single: true } }
+						: (request.body as Array<{ name: string }>)[0].name === 'User 2'
+							? { status: 400, body: { error: 'invalid' } }
+							: { body: (request.body as unknown[]).map((_, i) => ({ i })) };
+
+				const { output } = await createUsers({ batchSize: 2 }, true);
+
+				expect(output[0].map(item => item.pairedItem)).toEqual([0, 1, 2, 3, 4].map(item => ({ item })));
+				expect(output[0][2].json.error).toEqual(expect.any(String));
+				expect(output[0][3].json.error).toEqual(expect.any(String));
+				expect(output[0][1].json).toEqual({ i: 1 });
+				expect(output[0][4].json).toEqual({ single: true });
+			});
+		});
+
+		test('should retry transient failures and log every attempt', async () => {
+			let calls = 0;
+
+			respond = () =>
+				++calls === 1
+					? { status: 503, headers: { 'Retry-After': '0' }, body: { error: 'unavailable' } }
+					: { body: { id: 1 } };
+
+			const { output, context } = await run({ resource: 'user', operation: 'get', userId: '1' });
+
+			expect(server.requests).toHaveLength(2);
+			expect(output[0][0].json).toEqual({ id: 1 });
+			expect(context.logger.warn).toHaveBeenCalledWith(
+				'Request failed with HTTP 503, retrying in 0ms',
+				expect.objectContaining({ node: 'Example Node', attempt: 1 }),
+			);
+		});
+
+		test('should not resend a create request after a server error', async () => {
+			respond = () => ({ status: 503, headers: { 'Retry-After': '0' }, body: { error: 'unavailable' } });
+
+			const { output } = await run(
+				{ resource: 'user', operation: 'create', userName: 'Jane', email: 'jane@example.com' },
+				{ continueOnFail: true },
+			);
+
+			expect(server.requests).toHaveLength(1);
+			expect(output[0][0].json.error).toEqual(expect.any(String));
+		});
+
+		test('should refuse requests once the circuit breaker of the credential opened', async () => {
+			respond = () => ({ status: 500, body: { error: 'boom' } });
+
+			const { output } = await run(
+				{ resource: 'user', operation: 'get', userId: '1', retry: { maxRetries: 0, failureThreshold: 2 } },
+				{
+					items: [{ json: {} }, { json: {} }, { json: {} }],
+					continueOnFail: true,
+					node: { credentials: { exampleApi: { id: 'circuit-test', name: 'Example API' } } },
+				},
+			);
+
+			expect(server.requests).toHaveLength(2);
+			expect(output[0][2].json.error).toBe('Too many failed requests, new requests are paused for 60s');
+		});
+	});
+});
@@ -0,0 +1,117 @@
+import { INodeExecutionData, INodeParameters } from 'n8n-workflow';
+
+import { HttpRespond } from '../../src/nodes/HttpRespond.node';
+import { createExecuteContext } from '../utils/harness';
+
+describe('HttpRespond Node', () => {
+	let node: HttpRespond;
+
+	beforeEach(() => {
+		node = new HttpRespond();
+	});
+
+	const createContext = (parameters: Record<string, unknown>, items: INodeExecutionData[] = [{ json: { result: 42 } }]) =>
+		createExecuteContext(node, {
+			parameters: parameters as INodeParameters,
+			items,
+			helpers: {
+				assertBinaryData: jest.fn(() => ({ mimeType: 'application/pdf', data: '' })),
+				getBinaryDataBuffer: jest.fn(async () => Buffer.from('%PDF-1.7')),
+			},
+		}).context;
+
+	describe('Node Description', () => {
+		test('should have correct basic properties', () => {
+			expect(node.description.displayName).toBe('HTTP Respond');
+			expect(node.description.name).toBe('httpRespond');
+			expect(node.description.version).toBe(1);
+		});
+
+		test('should have correct inputs and outputs', () => {
+			expect(node.description.inputs).toEqual(['main']);
+			expect(node.description.outputs).toEqual(['main']);
+		});
+
+		test('should default to responding with the first incoming item', () => {
+			const respondWith = node.description.properties.find(p => p.name === 'respondWith');
+			expect(respondWith?.default).toBe('firstIncomingItem');
+		});
+	});
+
+	describe('execute()', () => {
+		test('should respond with the first incoming item and pass items through', async () => {
+			const items = [{ json: { result: 42 } }, { json: { result: 43 } }];
+			const context = createContext({ respondWith: 'firstIncomingItem' }, items);
+
+			const output = await node.execute.call(context);
+
+			expect(context.sendResponse).toHaveBeenCalledWith({
+				body: { result: 42 },
+				headers: {},
+				statusCode: 200,
+			});
+			expect(output).toEqual([items]);
+		});
+
+		test('should respond with custom JSON, status code and headers', async () => {
+			const context = createContext({
+				respondWith: 'json',
+				responseBody: '{"ok": true}',
+				options: {
+					responseCode: 201,
+					responseHeaders: { entries: [{ name: 'X-Request-Id', value: 'abc' }] },
+				},
+			});
+
+			await node.execute.call(context);
+
+			expect(context.sendResponse).toHaveBeenCalledWith({
+				body: { ok: true },
+				headers: { 'x-request-id': 'abc' },
+				statusCode: 201,
+			});
+		});
+
+		test('should reject invalid JSON bodies', async () => {
+			const context = createContext({ respondWith: 'json', responseBody: '{oops' });
+
+			await expect(node.execute.call(context)).rejects.toThrow(
+				'Invalid JSON in "Response Body" field',
+			);
+			expect(context.sendResponse).not.toHaveBeenCalled();
+		});
+
+		test('should respond with text', async () => {
+			const context = createContext({ respondWith: 'text', responseText: 'done' });
+
+			await node.execute.call(context);
+
+			expect(context.sendResponse).toHaveBeenCalledWith({
+				body: 'done',
+				headers: { 'content-type': 'text/plain; charset=utf-8' },
+				statusCode: 200,
+			});
+		});
+
+		test('should respond with binary data using its MIME type', async () => {
+			const context = createContext({ respondWith: 'binary', binaryPropertyName: 'data' });
+
+			await node.execute.call(context);
+
+			expect(context.helpers.assertBinaryData).toHaveBeenCalledWith(0, 'data');
+			expect(context.sendResponse).toHaveBeenCalledWith({
+				body: Buffer.from('%PDF-1.7'),
+				headers: { 'content-type': 'application/pdf', 'content-length': 8 },
+				statusCode: 200,
+			});
+		});
+
+		test('should respond without a body', async () => {
+			const context = createContext({ respondWith: 'noData', options: { responseCode: 204 } });
+
+			await node.execute.call(context);
+
+			expect(context.sendResponse).toHaveBeenCalledWith({ body: '', headers: {}, statusCode: 204 });
+		});
+	});
+});
@@ -1,10 +1,17 @@
+import { createHmac } from 'crypto';
+
+import { ICredentialDataDecryptedObject, INodeParameters } from 'n8n-workflow';
+
 import { HttpTrigger } from '../../src/nodes/HttpTrigger.node';
+import { HttpTriggerV1 } from '../../src/nodes/HttpTrigger/HttpTriggerV1';
+import { configuredOutputs } from '../../src/nodes/HttpTrigger/routing';
+import { createWebhookContext, runWebhook } from '../utils/harness';
 
 describe('HttpTrigger Node', () => {
-	let node: HttpTrigger;
+	let node: HttpTriggerV1;
 
 	beforeEach(() => {
-		node = new HttpTrigger();
+		node = new HttpTrigger().nodeVersions[1] as HttpTriggerV1;
 	});
 
 	describe('Node Description', () => {
@@ -17,7 +24,7 @@ describe('HttpTrigger Node', () => {
 
 		test('should have correct inputs and outputs', () => {
 			expect(node.description.inputs).toEqual([]);
-			expect(node.description.outputs).toEqual(['main']);
+			expect(node.description.outputs).toBe('={{(' + configuredOutputs + ')($parameter)}}');
 		});
 
 		test('should have webhooks defined', () => {
@@ -26,6 +33,11 @@ describe('HttpTrigger Node', () => {
 			expect(node.description.webhooks![0].name).toBe('default');
 		});
 
+		test('should take the webhook response mode from the parameter', () => {
+			expect(node.description.webhooks![0].responseMode).toBe('={{$parameter["responseMode"]}}');
+			expect(node.description.webhooks![0].responseCode).toBe('={{$parameter["responseCode"]}}');
+		});
+
 		test('should have HTTP method parameter', () => {
 			const methodParam = node.description.properties.find(p => p.name === 'httpMethod');
 			expect(methodParam).toBeDefined();
@@ -47,6 +59,13 @@ describe('HttpTrigger Node', () => {
 			expect(responseModeParam?.default).toBe('onReceived');
 		});
 
+		test('should offer all response modes', () => {
+			const responseModeParam = node.description.properties.find(p => p.name === 'responseMode');
+			const options = responseModeParam?.options as Array<{name: string, value: string}>;
+
+			expect(options.map(o => o.value)).toEqual(['onReceived', 'lastNode', 'responseNode']);
+		});
+
 		test('should have response code parameter', () => {
 			const responseCodeParam = node.description.properties.find(p => p.name === 'responseCode');
 			expect(responseCodeParam).toBeDefined();
@@ -55,13 +74,513 @@ describe('HttpTrigger Node', () => {
 		});
 	});
 
+	describe('Authentication', () => {
+		test('should offer all authentication modes', () => {
+			const authParam = node.description.properties.find(p => p.name === 'authentication');
+			const options = authParam?.options as Array<{name: string, value: string}>;
+
+			expect(options.map(o => o.value)).toEqual([
+				'none',
+				'basicAuth',
+				'headerAuth',
+				'jwtAuth',
+				'hmacSignature',
+			]);
+		});
+
+		test('should default to no authentication', () => {
+			const authParam = node.description.properties.find(p => p.name === 'authentication');
+			expect(authParam).toBeDefined();
+			expect(authParam?.type).toBe('options');
+			expect(authParam?.default).toBe('none');
+		});
+
+		test('should offer signature profiles', () => {
+			const profileParam = node.description.properties.find(p => p.name === 'signatureProfile');
+			const options = profileParam?.options as Array<{name: string, value: string}>;
+
+			expect(options.map(o => o.value)).toEqual(['custom', 'github', 'shopify', 'slack', 'stripe']);
+		});
+
+		test('should require signature credentials only for HMAC signatures', () => {
+			const credential = node.description.credentials?.find(c => c.name === 'webhookSignatureApi');
+			expect(credential).toBeDefined();
+			expect(credential?.displayOptions?.show?.authentication).toEqual(['hmacSignature']);
+		});
+
+		describe('webhook()', () => {
+			const rawBody = Buffer.from('{"event":"ping"}');
+			const signatureParameters: Record<string, unknown> = {
+				authentication: 'hmacSignature',
+				signatureProfile: 'github',
+			};
+
+			// The same credentials are returned for every authentication mode
+			const createContext = (
+				headers: Record<string, string>,
+				parameters: Record<string, unknown> = signatureParameters,
+				credentials: Record<string, unknown> = { secret: 'shh' },
+			) => {
+				const { context, response } = createWebhookContext(node, {
+					parameters: parameters as INodeParameters,
+					credentials: Object.fromEntries(
+						node.description.credentials!.map(c => [c.name, credentials as ICredentialDataDecryptedObject]),
+					),
+					request: {
+						method: 'POST',
+						path: '/hook',
+						headers: { 'content-type': 'application/json', ...headers },
+						body: JSON.parse(rawBody.toString()),
+						rawBody,
+						ip: '198.51.100.9',
+					},
+				});
+
+				return { context, resp: response };
+			};
+
+			test('should reject requests with an invalid signature', async () => {
+				const { context, resp } = createContext({ 'x-hub-signature-256': 'sha256=deadbeef' });
+
+				const result = await node.webhook.call(context);
+
+				expect(result).toEqual({ noWebhookResponse: true });
+				expect(resp.writeHead).toHaveBeenCalledWith(401, {});
+				expect(resp.end).toHaveBeenCalledWith('Invalid request signature');
+			});
+
+			test('should start the workflow for a valid signature', async () => {
+				const signature = createHmac('sha256', 'shh').update(rawBody).digest('hex');
+				const { context, resp } = createContext({ 'x-hub-signature-256': `sha256=${signature}` });
+
+				const result = await node.webhook.call(context);
+
+				expect(resp.writeHead).not.toHaveBeenCalled();
+				expect(result.workflowData?.[0][0].json.body).toEqual({ event: 'ping' });
+			});
+
+			describe('Response modes', () => {
+				test('should answer immediately and hand no response back to n8n for onReceived', async () => {
+					const { context, resp } = createContext({}, { responseMode: 'onReceived' });
+
+					const result = await node.webhook.call(context);
+
+					expect(resp.status).toHaveBeenCalledWith(200);
+					expect(resp.json).toHaveBeenCalledWith({ message: 'success' });
+					expect(result.noWebhookResponse).toBe(true);
+					expect(result.workflowData).toBeDefined();
+				});
+
+				test.each(['lastNode', 'responseNode'])(
+					'should leave the response to n8n for %s',
+					async (responseMode) => {
+						const { context, resp } = createContext({}, { responseMode });
+
+						const result = await node.webhook.call(context);
+
+						expect(resp.status).not.toHaveBeenCalled();
+						expect(resp.json).not.toHaveBeenCalled();
+						expect(result.noWebhookResponse).toBeUndefined();
+						expect(result.workflowData).toBeDefined();
+					},
+				);
+			});
+
+			describe('Response builder', () => {
+				test('should send a templated text body with its content type', async () => {
+					const { context, resp } = createContext(
+						{},
+						{ responseContentType: 'text', responseBody: 'Got {{ body.event }}' },
+					);
+
+					await node.webhook.call(context);
+
+					expect(resp.recorded.headers['content-type']).toBe('text/plain; charset=utf-8');
+					expect(resp.send).toHaveBeenCalledWith('Got ping');
+				});
+
+				test('should keep a custom content type header', async () => {
+					const { context, resp } = createContext(
+						{},
+						{
+							responseContentType: 'xml',
+							responseBody: '<Response/>',
+							options: {
+								responseHeaders: { entries: [{ name: 'Content-Type', value: 'text/xml' }] },
+							},
+						},
+					);
+
+					await node.webhook.call(context);
+
+					expect(resp.recorded.headers['content-type']).toBe('text/xml');
+					expect(resp.send).toHaveBeenCalledWith('<Response/>');
+				});
+
+				test('should set templated and CORS headers for every response mode', async () => {
+					const { context, resp } = createContext(
+						{ origin: 'https://app.example.com' },
+						{
+							responseMode: 'lastNode',
+							options: {
+								allowedOrigins: 'https://app.example.com',
+								responseHeaders: { entries: [{ name: 'X-Event', value: '{{ body.event }}' }] },
+							},
+						},
+					);
+
+					await node.webhook.call(context);
+
+					expect(resp.recorded.headers['x-event']).toBe('ping');
+					expect(resp.recorded.headers['access-control-allow-origin']).toBe('https://app.example.com');
+					expect(resp.recorded.headers.vary).toBe('Origin');
+				});
+
+				test('should answer 400 for header values with line breaks without starting the workflow', async () => {
+					const { context, resp } = createContext(
+						{ 'x-note': 'a\r\nSet-Cookie: session=stolen' },
+						{ options: { responseHeaders: { entries: [{ name: 'X-Note', value: '{{ headers.x-note }}' }] } } },
+					);
+
+					const result = await node.webhook.call(context);
+
+					expect(result).toEqual({ noWebhookResponse: true });
+					expect(resp.writeHead).toHaveBeenCalledWith(400, {});
+					expect(resp.recorded.headers['x-note']).toBeUndefined();
+				});
+
+				test('should answer 500 for an invalid JSON template without starting the workflow', async () => {
+					const { context, resp } = createContext({}, { responseBody: '{"broken": ' });
+
+					const result = await node.webhook.call(context);
+
+					expect(result).toEqual({ noWebhookResponse: true });
+					expect(resp.writeHead).toHaveBeenCalledWith(500, {});
+				});
+			});
+
+			describe('IP filtering', () => {
+				test('should answer 403 before authentication for clients outside the allowlist', async () => {
+					const { context, resp } = createContext({}, {
+						...signatureParameters,
+						options: { ipAllowlist: '10.0.0.0/8' },
+					});
+
+					const result = await node.webhook.call(context);
+
+					expect(result).toEqual({ noWebhookResponse: true });
+					expect(resp.writeHead).toHaveBeenCalledWith(403, {});
+					expect(context.getCredentials).not.toHaveBeenCalled();
+				});
+			});
+
+			describe('Rate limiting', () => {
+				test('should answer 429 with Retry-After once the burst is used up', async () => {
+					const staticData = {};
+					const parameters = {
+						options: {
+							rateLimit: {
+								settings: { limit: 1, interval: 60, burst: 2, storage: 'staticData' },
+							},
+						},
+					};
+					const call = async () => {
+						const { context, resp } = createContext({}, parameters);
+
+						context.getWorkflowStaticData.mockReturnValue(staticData);
+
+						return { result: await node.webhook.call(context), resp };
+					};
+
+					expect((await call()).result.workflowData).toBeDefined();
+					expect((await call()).result.workflowData).toBeDefined();
+
+					const { result, resp } = await call();
+
+					expect(result).toEqual({ noWebhookResponse: true });
+					expect(resp.writeHead).toHaveBeenCalledWith(429, { 'Retry-After': '60' });
+					expect(resp.end).toHaveBeenCalledWith('Too many requests');
+				});
+			});
+
+			describe('Schema validation', () => {
+				const bodySchema = JSON.stringify({
+					type: 'object',
+					required: ['event', 'id'],
+				});
+
+				test('should reject an invalid body with a 400 and a list of errors', async () => {
+					const { context, resp } = createContext({}, {
+						options: { schemaValidation: { settings: { bodySchema } } },
+					});
+
+					const result = await node.webhook.call(context);
+
+					expect(result).toEqual({ noWebhookResponse: true });
+					expect(resp.writeHead).toHaveBeenCalledWith(400, {
+						'Content-Type': 'application/json; charset=utf-8',
+					});
+					expect(JSON.parse(resp.end.mock.calls[0][0] as string)).toEqual({
+						message: 'Request validation failed',
+						errors: [
+							{
+								location: 'body',
+								path: '',
+								keyword: 'required',
+								message: "must have required property 'id'",
+								params: { missingProperty: 'id' },
+							},
+						],
+					});
+				});
+
+				test('should attach the errors when invalid requests pass through', async () => {
+					const { context } = createContext({}, {
+						options: { schemaValidation: { settings: { bodySchema, onInvalid: 'passThrough' } } },
+					});
+
+					const result = await node.webhook.call(context);
+					const json = result.workflowData?.[0][0].json;
+
+					expect(json?.validationErrors).toHaveLength(1);
+				});
+			});
+
+			describe('Deduplication', () => {
+				test('should acknowledge a repeated delivery without starting a workflow', async () => {
+					const staticData = {};
+					const parameters = {
+						responseMode: 'lastNode',
+						options: {
+							deduplication: {
+								settings: { keySource: 'header', headerName: 'X-GitHub-Delivery' },
+							},
+						},
+					};
+					const call = async () => {
+						const { context, resp } = createContext({ 'x-github-delivery': 'abc' }, parameters);
+
+						context.getWorkflowStaticData.mockReturnValue(staticData);
+
+						return { result: await node.webhook.call(context), resp };
+					};
+
+					const first = await call();
+
+					expect(first.result.workflowData).toBeDefined();
+					expect(first.resp.json).not.toHaveBeenCalled();
+
+					const { result, resp } = await call();
+
+					expect(result).toEqual({ noWebhookResponse: true });
+					expect(resp.status).toHaveBeenCalledWith(200);
+					expect(resp.json).toHaveBeenCalledWith({ message: 'success' });
+				});
+			});
+
+			describe('Routing', () => {
+				test('should expose path parameters', async () => {
+					const { context } = createContext({}, {});
+
+					context.getParamsData.mockReturnValue({ orderId: '17', itemId: '3' });
+
+					const result = await node.webhook.call(context);
+
+					expect(result.workflowData?.[0][0].json.pathParams).toEqual({ orderId: '17', itemId: '3' });
+				});
+
+				test('should route the request method to its own output', async () => {
+					const { context } = createContext({}, {
+						multipleMethods: true,
+						separateOutputs: true,
+						httpMethod: ['GET', 'POST', 'DELETE'],
+					});
+
+					const result = await node.webhook.call(context);
+
+					expect(result.workflowData?.map(output => output.length)).toEqual([0, 1, 0]);
+				});
+
+				test('should keep a single output unless asked to separate methods', async () => {
+					const { context } = createContext({}, {
+						multipleMethods: true,
+						httpMethod: ['GET', 'POST'],
+					});
+
+					const result = await node.webhook.call(context);
+
+					expect(result.workflowData).toHaveLength(1);
+					expect(result.workflowData?.[0][0].json.pathParams).toBeUndefined();
+				});
+			});
+
+			describe('Binary bodies', () => {
+				test('should expose raw binary bodies as binary data', async () => {
+					const { context } = createContext(
+						{ 'content-type': 'application/pdf' },
+						{ responseMode: 'lastNode' },
+					);
+
+					const result = await node.webhook.call(context);
+					const item = result.workflowData?.[0][0];
+
+					expect(item?.json.body).toEqual({});
+					expect(item?.binary?.data.mimeType).toBe('application/pdf');
+				});
+
+				test('should answer 415 for disallowed binary bodies without starting the workflow', async () => {
+					const { context, resp } = createContext(
+						{ 'content-type': 'application/pdf' },
+						{ options: { allowedMimeTypes: 'image/*' } },
+					);
+
+					const result = await node.webhook.call(context);
+
+					expect(result).toEqual({ noWebhookResponse: true });
+					expect(resp.writeHead).toHaveBeenCalledWith(415, {});
+				});
+			});
+
+			describe('Basic Auth', () => {
+				const parameters = { authentication: 'basicAuth' };
+				const credentials = { user: 'alice', password: 's3cret' };
+				const basic = (value: string) => `Basic ${Buffer.from(value).toString('base64')}`;
+
+				test('should challenge requests without credentials', async () => {
+					const { context, resp } = createContext({}, parameters, credentials);
+
+					const result = await node.webhook.call(context);
+
+					expect(result).toEqual({ noWebhookResponse: true });
+					expect(resp.writeHead).toHaveBeenCalledWith(401, {
+						'WWW-Authenticate': 'Basic realm="Webhook"',
+					});
+				});
+
+				test('should forbid wrong credentials', async () => {
+					const { context, resp } = createContext(
+						{ authorization: basic('alice:wrong') },
+						parameters,
+						credentials,
+					);
+
+					await node.webhook.call(context);
+
+					expect(resp.writeHead).toHaveBeenCalledWith(403, {});
+				});
+
+				test('should accept matching credentials', async () => {
+					const { context, resp } = createContext(
+						{ authorization: basic('alice:s3cret') },
+						parameters,
+						credentials,
+					);
+
+					const result = await node.webhook.call(context);
+
+					expect(resp.writeHead).not.toHaveBeenCalled();
+					expect(result.workflowData).toBeDefined();
+				});
+			});
+
+			describe('Header Auth', () => {
+				const parameters = { authentication: 'headerAuth' };
+				const credentials = { name: 'X-API-Key', value: 'key-123' };
+
+				test('should reject a missing or wrong header', async () => {
+					const missing = createContext({}, parameters, credentials);
+					const wrong = createContext({ 'x-api-key': 'nope' }, parameters, credentials);
+
+					await node.webhook.call(missing.context);
+					await node.webhook.call(wrong.context);
+
+					expect(missing.resp.writeHead).toHaveBeenCalledWith(401, {});
+					expect(wrong.resp.writeHead).toHaveBeenCalledWith(403, {});
+				});
+
+				test('should accept the configured header value', async () => {
+					const { context, resp } = createContext({ 'x-api-key': 'key-123' }, parameters, credentials);
+
+					await node.webhook.call(context);
+
+					expect(resp.writeHead).not.toHaveBeenCalled();
+				});
+			});
+
+			describe('JWT', () => {
+				const parameters = { authentication: 'jwtAuth' };
+				const credentials = { algorithm: 'HS256', keyType: 'key', secret: 'jwt-secret' };
+
+				const token = (payload: object) => {
+					const encode = (value: object) => Buffer.from(JSON.stringify(value)).toString('base64url');
+					const input = `${encode({ alg: 'HS256', typ: 'JWT' })}.${encode(payload)}`;
+
+					return `${input}.${createHmac('sha256', 'jwt-secret').update(input).digest('base64url')}`;
+				};
+
+				test('should expose the decoded claims next to headers and body', async () => {
+					const { context } = createContext(
+						{ authorization: `Bearer ${token({ sub: 'user-1' })}` },
+						parameters,
+						credentials,
+					);
+
+					const result = await node.webhook.call(context);
+
+					expect(result.workflowData?.[0][0].json.jwtPayload).toEqual({ sub: 'user-1' });
+				});
+
+				test('should reject requests without a bearer token', async () => {
+					const { context, resp } = createContext({}, parameters, credentials);
+
+					await node.webhook.call(context);
+
+					expect(resp.writeHead).toHaveBeenCalledWith(401, {});
+					expect(resp.end).toHaveBeenCalledWith('No token provided');
+				});
+
+				test('should answer 500 when the credential has no secret', async () => {
+					const { context, resp } = createContext(
+						{ authorization: `Bearer ${token({ sub: 'user-1' })}` },
+						parameters,
+						{ ...credentials, secret: '' },
+					);
+
+					const result = await node.webhook.call(context);
+
+					expect(result).toEqual({ noWebhookResponse: true });
+					expect(resp.writeHead).toHaveBeenCalledWith(500, {});
+					expect(resp.end).toHaveBeenCalledWith('No signing secret defined');
+				});
+			});
+		});
+	});
+
 	describe('HTTP Methods', () => {
 		test('should support all HTTP methods', () => {
 			const methodParam = node.description.properties.find(p => p.name === 'httpMethod');
 			const options = methodParam?.options as Array<{name: string, value: string}>;
 			
 			expect(options).toBeDefined();
-			expect(options.map(o => o.value)).toEqual(['GET', 'POST', 'PUT', 'DELETE', 'PATCH']);
+			expect(options.map(o => o.value)).toEqual(['GET', 'POST', 'PUT', 'DELETE', 'PATCH', 'HEAD', 'OPTIONS']);
+		});
+
+		test('should offer a multi-select when multiple methods are allowed', () => {
+			const methodParams = node.description.properties.filter(p => p.name === 'httpMethod');
+
+			expect(methodParams.map(p => p.type)).toEqual(['options', 'multiOptions']);
+			expect(methodParams[1].displayOptions?.show?.multipleMethods).toEqual([true]);
+		});
+
+		test('should configure one output per method when routing separately', () => {
+			expect(configuredOutputs({ httpMethod: 'POST' })).toEqual(['main']);
+			expect(configuredOutputs({ multipleMethods: true, httpMethod: ['GET', 'POST'] })).toEqual(['main']);
+			expect(
+				configuredOutputs({ multipleMethods: true, separateOutputs: true, httpMethod: ['GET', 'HEAD'] }),
+			).toEqual([
+				{ type: 'main', displayName: 'GET' },
+				{ type: 'main', displayName: 'HEAD' },
+			]);
 		});
 	});
 
@@ -74,4 +593,54 @@ describe('HttpTrigger Node', () => {
 			expect(node.webhookMethods.default.delete).toBeDefined();
 		});
 	});
+
+	describe('Versions', () => {
+		const request = { method: 'GET', path: '/orders/42', query: { page: '2' }, params: { orderId: '42' } };
+		const parameters = { httpMethod: 'GET', path: 'orders/:orderId', responseMode: 'lastNode' };
+
+		test('should create new nodes with version 2', () => {
+			const versioned = new HttpTrigger();
+
+			expect(versioned.description.defaultVersion).toBe(2);
+			expect(versioned.getNodeType().description.version).toBe(2);
+			expect(versioned.nodeVersions[2].description.properties.map(p => p.name)).toEqual(
+				node.description.properties.map(p => p.name),
+			);
+		});
+
+		test('should output the query as params and path parameters as pathParams in version 1', async () => {
+			const { result } = await runWebhook(node, { parameters, request });
+			const json = result.workflowData![0][0].json;
+
+			expect(json.params).toEqual({ page: '2' });
+			expect(json.pathParams).toEqual({ orderId: '42' });
+			expect(json).not.toHaveProperty('query');
+		});
+
+		test('should output path parameters as params and the query as query in version 2', async () => {
+			const { result } = await runWebhook(new HttpTrigger(), { parameters, request });
+			const json = result.workflowData![0][0].json;
+
+			expect(Object.keys(json)).toEqual(['headers', 'params', 'query', 'body', 'method', 'url', 'timestamp']);
+			expect(json).toMatchObject({ params: { orderId: '42' }, query: { page: '2' } });
+		});
+
+		test('should always output params in version 2', async () => {
+			const { result } = await runWebhook(new HttpTrigger(), {
+				parameters: { ...parameters, path: 'orders' },
+				request: { ...request, path: '/orders', params: {} },
+			});
+
+			expect(result.workflowData![0][0].json.params).toEqual({});
+		});
+
+		test('should render the query in response templates of version 2', async () => {
+			const { response } = await runWebhook(new HttpTrigger(), {
+				parameters: { ...parameters, responseMode: 'onReceived', responseContentType: 'text', responseBody: 'Page {{ query.page }} of {{ params.orderId }}' },
+				request,
+			});
+
+			expect(response.body).toBe('Page 2 of 42');
+		});
+	});
 });
@@ -0,0 +1,150 @@
+import { HttpTrigger } from '../../../src/nodes/HttpTrigger.node';
+import { WebhookRequestError } from '../../../src/nodes/HttpTrigger/error';
+import {
+	BinaryUploadSettings,
+	isBinaryContentType,
+	isMimeTypeAllowed,
+	parseAllowedMimeTypes,
+	parseMultipartBody,
+	prepareRawBinaryBody,
+} from '../../../src/nodes/HttpTrigger/binary';
+import { createWebhookContext } from '../../utils/harness';
+
+const boundary = '----n8nr8boundary';
+
+const multipart = (
+	parts: Array<{ name: string; value: string; filename?: string; type?: string }>,
+): Buffer =>
+	Buffer.from(
+		parts
+			.map((part) => {
+				const disposition = part.filename
+					? `form-data; name="${part.name}"; filename="${part.filename}"`
+					: `form-data; name="${part.name}"`;
+				const type = part.type ? `\r\nContent-Type: ${part.type}` : '';
+
+				return `--${boundary}\r\nContent-Disposition: ${disposition}${type}\r\n\r\n${part.value}\r\n`;
+			})
+			.join('') + `--${boundary}--\r\n`,
+	);
+
+const createContext = (contentType: string, rawBody: Buffer) =>
+	createWebhookContext(new HttpTrigger(), { request: { headers: { 'content-type': contentType }, rawBody } })
+		.context;
+
+const settings: BinaryUploadSettings = {
+	binaryPropertyName: 'data',
+	maxFileSize: 1024,
+	allowedMimeTypes: [],
+};
+
+describe('HttpTrigger binary uploads', () => {
+	describe('content type detection', () => {
+		test('should treat unparsed content types as binary', () => {
+			expect(isBinaryContentType('application/octet-stream')).toBe(true);
+			expect(isBinaryContentType('image/png')).toBe(true);
+			expect(isBinaryContentType('application/pdf')).toBe(true);
+		});
+
+		test('should leave JSON, text, XML and forms to the regular body parser', () => {
+			expect(isBinaryContentType('application/json; charset=utf-8')).toBe(false);
+			expect(isBinaryContentType('application/vnd.api+json')).toBe(false);
+			expect(isBinaryContentType('text/plain')).toBe(false);
+			expect(isBinaryContentType('application/xml')).toBe(false);
+			expect(isBinaryContentType('application/x-www-form-urlencoded')).toBe(false);
+			expect(isBinaryContentType('multipart/form-data; boundary=x')).toBe(false);
+			expect(isBinaryContentType(undefined)).toBe(false);
+		});
+
+		test('should match allowed MIME types with wildcards', () => {
+			const allowed = parseAllowedMimeTypes(' image/* , application/PDF,');
+
+			expect(allowed).toEqual(['image/*', 'application/pdf']);
+			expect(isMimeTypeAllowed('image/png', allowed)).toBe(true);
+			expect(isMimeTypeAllowed('application/pdf', allowed)).toBe(true);
+			expect(isMimeTypeAllowed('text/csv', allowed)).toBe(false);
+			expect(isMimeTypeAllowed('text/csv', [])).toBe(true);
+		});
+	});
+
+	describe('parseMultipartBody', () => {
+		const contentType = `multipart/form-data; boundary=${boundary}`;
+
+		test('should turn files into indexed binary properties and keep fields in the body', async () => {
+			const body = multipart([
+				{ name: 'title', value: 'Holiday' },
+				{ name: 'tags[]', value: 'beach' },
+				{ name: 'tags[]', value: 'sun' },
+				{ name: 'photo', value: 'PNGDATA', filename: 'a.png', type: 'image/png' },
+				{ name: 'doc', value: 'PDFDATA', filename: 'b.pdf', type: 'application/pdf' },
+			]);
+			const context = createContext(contentType, body);
+
+			const result = await parseMultipartBody(context, settings);
+
+			expect(result.fields).toEqual({ title: 'Holiday', tags: ['beach', 'sun'] });
+			expect(Object.keys(result.binary)).toEqual(['data0', 'data1']);
+			expect(result.binary.data0).toEqual({
+				data: Buffer.from('PNGDATA').toString('base64'),
+				fileName: 'a.png',
+				mimeType: 'image/png',
+				fileSize: '7',
+			});
+			expect(result.binary.data1.mimeType).toBe('application/pdf');
+		});
+
+		test('should reject files over the size limit with a 413', async () => {
+			const body = multipart([
+				{ name: 'file', value: 'x'.repeat(2048), filename: 'big.bin', type: 'application/zip' },
+			]);
+
+			await expect(parseMultipartBody(createContext(contentType, body), settings)).rejects.toMatchObject({ responseCode: 413 });
+		});
+
+		test('should reject files with a disallowed MIME type with a 415', async () => {
+			const body = multipart([
+				{ name: 'file', value: 'MZ', filename: 'setup.exe', type: 'application/x-msdownload' },
+			]);
+
+			const promise = parseMultipartBody(createContext(contentType, body), {
+				...settings,
+				allowedMimeTypes: ['image/*'],
+			});
+
+			await expect(promise).rejects.toBeInstanceOf(WebhookRequestError);
+			await expect(promise).rejects.toMatchObject({ responseCode: 415 });
+		});
+	});
+
+	describe('prepareRawBinaryBody', () => {
+		test('should expose the body as a binary property', async () => {
+			const rawBody = Buffer.from('%PDF-1.7');
+			const context = createContext('application/pdf', rawBody);
+
+			Object.assign(context.getRequestObject(), {
+				contentDisposition: { type: 'attachment', filename: 'invoice.pdf' },
+			});
+
+			const binary = await prepareRawBinaryBody(context, rawBody, settings);
+
+			expect(context.helpers.prepareBinaryData).toHaveBeenCalledWith(
+				rawBody,
+				'invoice.pdf',
+				'application/pdf',
+			);
+			expect(Object.keys(binary)).toEqual(['data']);
+		});
+
+		test('should enforce the size limit and allowed MIME types', async () => {
+			const rawBody = Buffer.alloc(2048);
+
+			await expect(prepareRawBinaryBody(createContext('image/png', rawBody), rawBody, settings)).rejects.toMatchObject({ responseCode: 413 });
+			await expect(
+				prepareRawBinaryBody(createContext('video/mp4', Buffer.alloc(1)), Buffer.alloc(1), {
+					...settings,
+					allowedMimeTypes: ['image/*'],
+				}),
+			).rejects.toMatchObject({ responseCode: 415 });
+		});
+	});
+});
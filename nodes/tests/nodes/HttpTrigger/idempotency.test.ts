@@ -0,0 +1,112 @@
+import { IDataObject } from 'n8n-workflow';
+
+import { HttpTrigger } from '../../../src/nodes/HttpTrigger.node';
+import {
+	DeliveryStore,
+	getDeliveryKey,
+	isDuplicateDelivery,
+	registerDelivery,
+} from '../../../src/nodes/HttpTrigger/idempotency';
+import { createWebhookContext, runWebhook } from '../../utils/harness';
+
+describe('HttpTrigger deduplication', () => {
+	describe('registerDelivery', () => {
+		test('should report keys seen within their time to live', () => {
+			const store: DeliveryStore = {};
+
+			expect(registerDelivery(store, 'a', 60, 0)).toBe(false);
+			expect(registerDelivery(store, 'a', 60, 59_000)).toBe(true);
+			expect(registerDelivery(store, 'b', 60, 59_000)).toBe(false);
+		});
+
+		test('should forget expired keys', () => {
+			const store: DeliveryStore = {};
+
+			registerDelivery(store, 'a', 60, 0);
+
+			expect(registerDelivery(store, 'b', 60, 60_000)).toBe(false);
+			expect(Object.keys(store)).toEqual(['b']);
+			expect(registerDelivery(store, 'a', 60, 60_000)).toBe(false);
+		});
+	});
+
+	describe('getDeliveryKey', () => {
+		const rawBody = Buffer.from('{"event":{"id":42}}');
+		const { context } = createWebhookContext(new HttpTrigger(), {
+			request: { headers: { 'Idempotency-Key': 'key-1' }, rawBody },
+		});
+		const body = JSON.parse(rawBody.toString());
+
+		test('should read the key from a header', async () => {
+			expect(await getDeliveryKey(context, { headerName: 'Idempotency-Key' }, body)).toBe('key-1');
+			expect(await getDeliveryKey(context, { headerName: 'X-Missing' }, body)).toBeUndefined();
+		});
+
+		test('should read the key from a body field', async () => {
+			expect(
+				await getDeliveryKey(context, { keySource: 'bodyField', bodyField: 'event.id' }, body),
+			).toBe('42');
+			expect(
+				await getDeliveryKey(context, { keySource: 'bodyField', bodyField: 'event.missing' }, body),
+			).toBeUndefined();
+		});
+
+		test('should hash the raw body', async () => {
+			const key = await getDeliveryKey(context, { keySource: 'bodyHash' }, body);
+
+			expect(key).toMatch(/^[0-9a-f]{64}$/);
+		});
+	});
+
+	describe('isDuplicateDelivery', () => {
+		test('should keep seen keys in the workflow static data', async () => {
+			const staticData: { node?: IDataObject } = {};
+			const { context } = createWebhookContext(new HttpTrigger(), {
+				request: { headers: { 'Idempotency-Key': 'key-1' } },
+				staticData,
+			});
+			const options = { deduplication: { settings: { headerName: 'Idempotency-Key', ttl: 60 } } };
+
+			expect(await isDuplicateDelivery(context, options, {})).toBe(false);
+			expect(await isDuplicateDelivery(context, options, {})).toBe(true);
+			expect(Object.keys(staticData.node?.deliveryKeys as object)).toEqual(['key-1']);
+			expect(context.logger.debug).toHaveBeenCalledTimes(1);
+		});
+
+		test('should never treat requests without a key as duplicates', async () => {
+			const { context } = createWebhookContext(new HttpTrigger());
+			const options = { deduplication: { settings: { headerName: 'Idempotency-Key' } } };
+
+			expect(await isDuplicateDelivery(context, options, {})).toBe(false);
+			expect(await isDuplicateDelivery(context, {}, {})).toBe(false);
+		});
+	});
+
+	describe('multipart deliveries', () => {
+		const boundary = '----n8nr8boundary';
+		const rawBody = Buffer.from(
+			`--${boundary}\r\nContent-Disposition: form-data; name="file"; filename="a.txt"\r\n` +
+				`Content-Type: text/plain\r\n\r\nhello\r\n--${boundary}--\r\n`,
+		);
+
+		test('should hash the raw body of a multipart request before its stream is parsed', async () => {
+			const staticData = {};
+			const fixture = {
+				parameters: { options: { deduplication: { settings: { keySource: 'bodyHash' } } } },
+				request: {
+					headers: { 'Content-Type': `multipart/form-data; boundary=${boundary}` },
+					rawBody,
+					stream: true,
+				},
+				staticData,
+			};
+
+			const first = await runWebhook(new HttpTrigger(), fixture);
+			const second = await runWebhook(new HttpTrigger(), fixture);
+
+			expect(first.result.workflowData?.[0][0].binary?.data0.fileName).toBe('a.txt');
+			expect(second.result).toEqual({ noWebhookResponse: true });
+			expect(second.response).toMatchObject({ statusCode: 200, body: { message: 'success' } });
+		});
+	});
+});
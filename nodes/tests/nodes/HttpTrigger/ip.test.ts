@@ -0,0 +1,117 @@
+import { HttpTrigger } from '../../../src/nodes/HttpTrigger.node';
+import { WebhookRequestError } from '../../../src/nodes/HttpTrigger/error';
+import {
+	ipInList,
+	normalizeIp,
+	parseIpList,
+	resolveClientIp,
+	validateIpAccess,
+} from '../../../src/nodes/HttpTrigger/ip';
+import { createWebhookContext } from '../../utils/harness';
+
+describe('HttpTrigger IP filtering', () => {
+	describe('normalizeIp', () => {
+		test('should normalize mapped, bracketed and port-suffixed addresses', () => {
+			expect(normalizeIp('::ffff:10.0.0.1')).toBe('10.0.0.1');
+			expect(normalizeIp('[2001:DB8::1]:443')).toBe('2001:db8::1');
+			expect(normalizeIp('192.0.2.1:8080')).toBe('192.0.2.1');
+			expect(normalizeIp('fe80::1%eth0')).toBe('fe80::1');
+			expect(normalizeIp('not-an-ip')).toBeUndefined();
+		});
+	});
+
+	describe('parseIpList', () => {
+		test('should match IPv4 and IPv6 addresses and ranges', () => {
+			const list = parseIpList('203.0.113.7, 10.0.0.0/8, 2001:db8::/32')!;
+
+			expect(ipInList(list, '203.0.113.7')).toBe(true);
+			expect(ipInList(list, '10.255.1.2')).toBe(true);
+			expect(ipInList(list, '2001:db8:1234::1')).toBe(true);
+			expect(ipInList(list, '11.0.0.1')).toBe(false);
+			expect(ipInList(list, '2001:db9::1')).toBe(false);
+		});
+
+		test('should return undefined for an empty list', () => {
+			expect(parseIpList(' , ')).toBeUndefined();
+		});
+
+		test('should reject invalid entries', () => {
+			expect(() => parseIpList('10.0.0.0/33')).toThrow(WebhookRequestError);
+			expect(() => parseIpList('example.com')).toThrow('Invalid IP address or range "example.com"');
+		});
+	});
+
+	describe('resolveClientIp', () => {
+		const proxies = parseIpList('172.16.0.0/12, 127.0.0.1');
+
+		test('should ignore forwarding headers from untrusted peers', () => {
+			const headers = { 'x-forwarded-for': '1.1.1.1', 'x-real-ip': '1.1.1.1' };
+
+			expect(resolveClientIp('198.51.100.9', headers, proxies)).toBe('198.51.100.9');
+			expect(resolveClientIp('172.18.0.2', headers, undefined)).toBe('172.18.0.2');
+		});
+
+		test('should take the right-most untrusted X-Forwarded-For hop', () => {
+			const headers = { 'x-forwarded-for': '6.6.6.6, 203.0.113.7, 172.18.0.5' };
+
+			expect(resolveClientIp('::ffff:172.18.0.2', headers, proxies)).toBe('203.0.113.7');
+		});
+
+		test('should fall back to X-Real-IP behind a trusted proxy', () => {
+			expect(resolveClientIp('127.0.0.1', { 'x-real-ip': '203.0.113.7' }, proxies)).toBe(
+				'203.0.113.7',
+			);
+			expect(resolveClientIp('127.0.0.1', {}, proxies)).toBe('127.0.0.1');
+		});
+	});
+
+	describe('validateIpAccess', () => {
+		const createContext = (remoteAddress: string, headers: Record<string, string> = {}) =>
+			createWebhookContext(new HttpTrigger(), { request: { ip: remoteAddress, headers, path: '/webhook/orders' } })
+				.context;
+
+		test('should allow everyone when no lists are set', () => {
+			const context = createContext('198.51.100.9');
+
+			expect(() => validateIpAccess(context, {})).not.toThrow();
+		});
+
+		test('should reject clients outside the allowlist with a structured log entry', () => {
+			const context = createContext('172.18.0.2', { 'x-forwarded-for': '198.51.100.9' });
+
+			expect(() =>
+				validateIpAccess(context, {
+					ipAllowlist: '203.0.113.0/24',
+					trustedProxies: '172.16.0.0/12',
+				}),
+			).toThrow(expect.objectContaining({ responseCode: 403 }));
+			expect(context.logger.warn).toHaveBeenCalledWith(
+				'HTTP Trigger rejected request by IP filter',
+				expect.objectContaining({
+					node: 'HTTP Trigger',
+					clientIp: '198.51.100.9',
+					remoteAddress: '172.18.0.2',
+					reason: 'address is not allowlisted',
+				}),
+			);
+		});
+
+		test('should let the denylist win over the allowlist', () => {
+			const context = createContext('203.0.113.7');
+
+			expect(() =>
+				validateIpAccess(context, {
+					ipAllowlist: '203.0.113.0/24',
+					ipDenylist: '203.0.113.7',
+				}),
+			).toThrow('IP is not allowed to access the webhook!');
+		});
+
+		test('should accept allowlisted clients', () => {
+			const context = createContext('2001:db8::7');
+
+			expect(() => validateIpAccess(context, { ipAllowlist: '2001:db8::/32' })).not.toThrow();
+			expect(context.logger.warn).not.toHaveBeenCalled();
+		});
+	});
+});
@@ -0,0 +1,172 @@
+import { createHmac, generateKeyPairSync, sign } from 'crypto';
+
+import { WebhookAuthorizationError } from '../../../src/nodes/HttpTrigger/error';
+import { verifyJwt } from '../../../src/nodes/HttpTrigger/jwt';
+
+const now = 1_700_000_000_000;
+const nowSeconds = now / 1000;
+const secret = 'jwt-secret';
+
+const encode = (value: object) => Buffer.from(JSON.stringify(value)).toString('base64url');
+
+const signHs256 = (payload: object, header: object = { alg: 'HS256', typ: 'JWT' }) => {
+	const input = `${encode(header)}.${encode(payload)}`;
+
+	return `${input}.${createHmac('sha256', secret).update(input).digest('base64url')}`;
+};
+
+const { privateKey, publicKey } = generateKeyPairSync('rsa', { modulusLength: 2048 });
+
+const signRs256 = (payload: object, kid?: string) => {
+	const input = `${encode({ alg: 'RS256', typ: 'JWT', kid })}.${encode(payload)}`;
+
+	return `${input}.${sign('RSA-SHA256', Buffer.from(input), privateKey).toString('base64url')}`;
+};
+
+const expectForbidden = (fn: () => void, message: string) => {
+	let error: unknown;
+
+	try {
+		fn();
+	} catch (e) {
+		error = e;
+	}
+
+	expect(error).toBeInstanceOf(WebhookAuthorizationError);
+	expect((error as WebhookAuthorizationError).responseCode).toBe(403);
+	expect((error as Error).message).toBe(`Invalid JWT: ${message}`);
+};
+
+describe('HttpTrigger JWT verification', () => {
+	describe('HS256', () => {
+		test('should return the decoded claims of a valid token', () => {
+			const token = signHs256({ sub: 'user-1', exp: nowSeconds + 60 });
+
+			expect(verifyJwt(token, { algorithm: 'HS256', secret, now })).toEqual({
+				sub: 'user-1',
+				exp: nowSeconds + 60,
+			});
+		});
+
+		test('should reject a token signed with another secret', () => {
+			const token = signHs256({ sub: 'user-1' });
+
+			expectForbidden(
+				() => verifyJwt(token, { algorithm: 'HS256', secret: 'other', now }),
+				'signature verification failed',
+			);
+		});
+
+		test('should reject a token that picks another algorithm', () => {
+			const token = signHs256({ sub: 'user-1' }, { alg: 'none' });
+
+			expectForbidden(
+				() => verifyJwt(token, { algorithm: 'HS256', secret, now }),
+				'unexpected algorithm "none"',
+			);
+		});
+
+		test('should reject malformed tokens', () => {
+			expectForbidden(
+				() => verifyJwt('not-a-token', { algorithm: 'HS256', secret, now }),
+				'malformed token',
+			);
+		});
+
+		test('should refuse to verify without a secret instead of accepting any token', () => {
+			const input = `${encode({ alg: 'HS256', typ: 'JWT' })}.${encode({ sub: 'attacker' })}`;
+			const forged = `${input}.${createHmac('sha256', '').update(input).digest('base64url')}`;
+			const jwks = { keys: [{ kty: 'oct', k: '' }] };
+
+			for (const options of [{ secret: '' }, {}, { jwks }]) {
+				expect(() => verifyJwt(forged, { algorithm: 'HS256', ...options, now })).toThrow(
+					new WebhookAuthorizationError(500, 'No signing secret defined'),
+				);
+			}
+		});
+	});
+
+	describe('RS256', () => {
+		test('should verify with a PEM public key', () => {
+			const token = signRs256({ sub: 'user-1' });
+			const pem = publicKey.export({ type: 'spki', format: 'pem' }).toString();
+
+			expect(verifyJwt(token, { algorithm: 'RS256', publicKey: pem, now })).toEqual({
+				sub: 'user-1',
+			});
+		});
+
+		test('should pick the key matching the kid from a JWKS', () => {
+			const { publicKey: otherKey } = generateKeyPairSync('rsa', { modulusLength: 2048 });
+			const jwks = {
+				keys: [
+					{ ...otherKey.export({ format: 'jwk' }), kid: 'old' },
+					{ ...publicKey.export({ format: 'jwk' }), kid: 'current' },
+				],
+			};
+
+			expect(
+				verifyJwt(signRs256({ sub: 'user-1' }, 'current'), { algorithm: 'RS256', jwks, now }),
+			).toEqual({ sub: 'user-1' });
+			expectForbidden(
+				() => verifyJwt(signRs256({ sub: 'user-1' }, 'old'), { algorithm: 'RS256', jwks, now }),
+				'signature verification failed',
+			);
+			expectForbidden(
+				() => verifyJwt(signRs256({ sub: 'user-1' }, 'gone'), { algorithm: 'RS256', jwks, now }),
+				'no key with kid "gone" in JWKS',
+			);
+		});
+
+		test('should refuse to verify without a public key', () => {
+			expect(() => verifyJwt(signRs256({ sub: 'user-1' }), { algorithm: 'RS256', publicKey: '', now })).toThrow(
+				new WebhookAuthorizationError(500, 'No public key defined'),
+			);
+		});
+	});
+
+	describe('Claims', () => {
+		test('should reject expired tokens unless within the clock tolerance', () => {
+			const token = signHs256({ exp: nowSeconds - 10 });
+
+			expectForbidden(() => verifyJwt(token, { algorithm: 'HS256', secret, now }), 'token expired');
+			expect(() =>
+				verifyJwt(token, { algorithm: 'HS256', secret, now, clockTolerance: 30 }),
+			).not.toThrow();
+		});
+
+		test('should reject tokens that are not yet valid', () => {
+			const token = signHs256({ nbf: nowSeconds + 60 });
+
+			expectForbidden(
+				() => verifyJwt(token, { algorithm: 'HS256', secret, now }),
+				'token not yet valid',
+			);
+		});
+
+		test('should check the issuer', () => {
+			const token = signHs256({ iss: 'https://issuer.example.com' });
+
+			expect(() =>
+				verifyJwt(token, {
+					algorithm: 'HS256',
+					secret,
+					now,
+					issuer: 'https://issuer.example.com',
+				}),
+			).not.toThrow();
+			expectForbidden(
+				() => verifyJwt(token, { algorithm: 'HS256', secret, now, issuer: 'someone-else' }),
+				'unexpected issuer',
+			);
+		});
+
+		test('should accept the audience as a string or an array', () => {
+			const options = { algorithm: 'HS256' as const, secret, now, audience: 'n8n' };
+
+			expect(() => verifyJwt(signHs256({ aud: 'n8n' }), options)).not.toThrow();
+			expect(() => verifyJwt(signHs256({ aud: ['other', 'n8n'] }), options)).not.toThrow();
+			expectForbidden(() => verifyJwt(signHs256({ aud: 'other' }), options), 'unexpected audience');
+		});
+	});
+});
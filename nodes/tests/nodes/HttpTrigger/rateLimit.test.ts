@@ -0,0 +1,111 @@
+import { IDataObject } from 'n8n-workflow';
+
+import { HttpTrigger } from '../../../src/nodes/HttpTrigger.node';
+import { WebhookRequestError } from '../../../src/nodes/HttpTrigger/error';
+import {
+	BucketStore,
+	consumeToken,
+	validateRateLimit,
+} from '../../../src/nodes/HttpTrigger/rateLimit';
+import { createWebhookContext, NodeFixture } from '../../utils/harness';
+
+describe('HttpTrigger rate limiting', () => {
+	const settings = { limit: 2, interval: 10, burst: 3 };
+
+	describe('consumeToken', () => {
+		test('should allow a burst and then ask the caller to wait', () => {
+			const store: BucketStore = {};
+
+			expect(consumeToken(store, 'a', settings, 0)).toBe(0);
+			expect(consumeToken(store, 'a', settings, 0)).toBe(0);
+			expect(consumeToken(store, 'a', settings, 0)).toBe(0);
+			// 2 requests per 10 seconds refill one token every 5 seconds
+			expect(consumeToken(store, 'a', settings, 0)).toBe(5);
+		});
+
+		test('should refill tokens over time', () => {
+			const store: BucketStore = {};
+
+			for (let i = 0; i < 3; i++) consumeToken(store, 'a', settings, 0);
+
+			expect(consumeToken(store, 'a', settings, 2000)).toBe(3);
+			expect(consumeToken(store, 'a', settings, 5000)).toBe(0);
+			expect(consumeToken(store, 'a', settings, 5000)).toBe(5);
+		});
+
+		test('should keep separate buckets per key', () => {
+			const store: BucketStore = {};
+
+			for (let i = 0; i < 3; i++) consumeToken(store, 'a', settings, 0);
+
+			expect(consumeToken(store, 'a', settings, 0)).toBeGreaterThan(0);
+			expect(consumeToken(store, 'b', settings, 0)).toBe(0);
+		});
+	});
+
+	describe('validateRateLimit', () => {
+		// In memory buckets are kept per node, so every test gets a node of its own unless it says otherwise
+		const createContext = (headers: Record<string, string>, ip: string, fixture: NodeFixture = {}) =>
+			createWebhookContext(new HttpTrigger(), {
+				request: { headers, ip },
+				node: { id: `node-${Math.random()}` },
+				...fixture,
+			}).context;
+
+		const rejectionOf = (fn: () => void): WebhookRequestError | undefined => {
+			try {
+				fn();
+			} catch (error) {
+				return error as WebhookRequestError;
+			}
+
+			return undefined;
+		};
+
+		test('should do nothing without a rate limit', () => {
+			expect(() => validateRateLimit(createContext({}, '10.0.0.1'), {})).not.toThrow();
+		});
+
+		test('should limit callers by header value in static data', () => {
+			const staticData: { node?: IDataObject } = {};
+			const options = {
+				rateLimit: {
+					settings: {
+						keyBy: 'header',
+						headerName: 'X-Api-Key',
+						limit: 1,
+						interval: 30,
+						burst: 1,
+						storage: 'staticData',
+					},
+				},
+			};
+			const contextFor = (key: string) => createContext({ 'x-api-key': key }, '10.0.0.1', { staticData });
+
+			validateRateLimit(contextFor('one'), options);
+			validateRateLimit(contextFor('two'), options);
+
+			const error = rejectionOf(() => validateRateLimit(contextFor('one'), options));
+
+			expect(error).toBeInstanceOf(WebhookRequestError);
+			expect(error?.responseCode).toBe(429);
+			expect(error?.headers).toEqual({ 'Retry-After': '30' });
+			expect(Object.keys(staticData.node?.rateLimitBuckets as object)).toEqual([
+				'header:one',
+				'header:two',
+			]);
+		});
+
+		test('should limit callers by client IP in memory', () => {
+			const node = { id: 'node-ip' };
+			const context = createContext({}, '10.0.0.1', { node });
+			const other = createContext({}, '10.0.0.2', { node });
+			const options = { rateLimit: { settings: { limit: 1, interval: 60, burst: 1 } } };
+
+			validateRateLimit(context, options);
+
+			expect(rejectionOf(() => validateRateLimit(context, options))?.responseCode).toBe(429);
+			expect(rejectionOf(() => validateRateLimit(other, options))).toBeUndefined();
+		});
+	});
+});
@@ -0,0 +1,124 @@
+import { WebhookRequestError } from '../../../src/nodes/HttpTrigger/error';
+import {
+	buildResponseBody,
+	getPath,
+	renderResponseHeaders,
+	renderTemplate,
+	resolveCorsOrigin,
+} from '../../../src/nodes/HttpTrigger/response';
+
+const request = {
+	headers: { 'x-request-id': 'req-1' },
+	params: { page: '2' },
+	body: {
+		user: { id: 7, name: '<Ann & Bob>' },
+		items: [{ sku: 'A-1' }, { sku: 'B-2' }],
+		command: '/deploy',
+	},
+	method: 'POST',
+};
+
+describe('HttpTrigger response builder', () => {
+	describe('getPath', () => {
+		test('should resolve dot, index and quoted key paths', () => {
+			expect(getPath(request, 'body.user.id')).toBe(7);
+			expect(getPath(request, 'body.items[1].sku')).toBe('B-2');
+			expect(getPath(request, 'headers["x-request-id"]')).toBe('req-1');
+			expect(getPath(request, 'headers.x-request-id')).toBe('req-1');
+			expect(getPath(request, 'body.missing.deep')).toBeUndefined();
+		});
+	});
+
+	describe('renderTemplate', () => {
+		test('should insert values and serialize objects', () => {
+			expect(renderTemplate('{{ method }} page {{params.page}}: {{ body.items[0] }}', request)).toBe(
+				'POST page 2: {"sku":"A-1"}',
+			);
+		});
+
+		test('should render missing values as empty strings', () => {
+			expect(renderTemplate('[{{ body.nothing }}]', request)).toBe('[]');
+		});
+	});
+
+	describe('renderResponseHeaders', () => {
+		test('should render the header values', () => {
+			expect(renderResponseHeaders([{ name: 'X-User', value: 'user {{ body.user.id }}\t ok' }], request)).toEqual([
+				['X-User', 'user 7\t ok'],
+			]);
+		});
+
+		test('should answer 400 instead of letting request values add headers', () => {
+			const data = { ...request, body: { name: 'Ann\r\nSet-Cookie: session=stolen' } };
+			let error: unknown;
+
+			try {
+				renderResponseHeaders([{ name: 'X-Name', value: '{{ body.name }}' }], data);
+			} catch (e) {
+				error = e;
+			}
+
+			expect(error).toBeInstanceOf(WebhookRequestError);
+			expect(error).toMatchObject({
+				responseCode: 400,
+				message: 'The value of the response header "X-Name" contains control characters',
+			});
+		});
+	});
+
+	describe('buildResponseBody', () => {
+		test('should keep the legacy message body without a template', () => {
+			expect(buildResponseBody('json', '', 'success', request)).toEqual({ message: 'success' });
+			expect(buildResponseBody('text', '', 'success', request)).toBe('success');
+			expect(buildResponseBody('noData', '{"a":1}', 'success', request)).toBeUndefined();
+		});
+
+		test('should render JSON templates and keep the type of single placeholders', () => {
+			const template =
+				'{"response_type": "ephemeral", "text": "Running {{ body.command }} for {{ body.user.id }}", "user": "{{ body.user.id }}", "items": "{{ body.items }}"}';
+
+			expect(buildResponseBody('json', template, 'success', request)).toEqual({
+				response_type: 'ephemeral',
+				text: 'Running /deploy for 7',
+				user: 7,
+				items: [{ sku: 'A-1' }, { sku: 'B-2' }],
+			});
+		});
+
+		test('should reject JSON templates that do not parse', () => {
+			expect(() => buildResponseBody('json', '{"text": ', 'success', request)).toThrow(
+				WebhookRequestError,
+			);
+		});
+
+		test('should escape values inserted into XML and HTML', () => {
+			const twiml = '<Response><Message>Hi {{ body.user.name }}</Message></Response>';
+
+			expect(buildResponseBody('xml', twiml, 'success', request)).toBe(
+				'<Response><Message>Hi &lt;Ann &amp; Bob&gt;</Message></Response>',
+			);
+			expect(buildResponseBody('html', '<p>{{ body.user.name }}</p>', '', request)).toBe(
+				'<p>&lt;Ann &amp; Bob&gt;</p>',
+			);
+			expect(buildResponseBody('text', 'Hi {{ body.user.name }}', '', request)).toBe(
+				'Hi <Ann & Bob>',
+			);
+		});
+	});
+
+	describe('resolveCorsOrigin', () => {
+		test('should allow any origin with a wildcard', () => {
+			expect(resolveCorsOrigin('*', 'https://evil.example.com')).toBe('*');
+		});
+
+		test('should echo listed origins only', () => {
+			const allowed = 'https://app.example.com, https://admin.example.com';
+
+			expect(resolveCorsOrigin(allowed, 'https://admin.example.com')).toBe(
+				'https://admin.example.com',
+			);
+			expect(resolveCorsOrigin(allowed, 'https://evil.example.com')).toBeUndefined();
+			expect(resolveCorsOrigin('', 'https://app.example.com')).toBeUndefined();
+		});
+	});
+});
@@ -0,0 +1,124 @@
+import { WebhookRequestError, WebhookValidationError } from '../../../src/nodes/HttpTrigger/error';
+import { validateRequestSchema } from '../../../src/nodes/HttpTrigger/schema';
+
+describe('HttpTrigger schema validation', () => {
+	const rejectionOf = (fn: () => void): WebhookRequestError | undefined => {
+		try {
+			fn();
+		} catch (error) {
+			return error as WebhookRequestError;
+		}
+
+		return undefined;
+	};
+
+	const optionsFor = (settings: Record<string, unknown>) => ({
+		schemaValidation: { settings },
+	});
+
+	test('should do nothing without schemas', () => {
+		expect(validateRequestSchema({}, { any: 'thing' }, { page: '1' })).toEqual({
+			query: { page: '1' },
+		});
+	});
+
+	test('should validate the body against a 2020-12 schema', () => {
+		const options = optionsFor({
+			bodySchema: {
+				$schema: 'https://json-schema.org/draft/2020-12/schema',
+				type: 'object',
+				properties: { email: { type: 'string', format: 'email' } },
+			},
+		});
+
+		expect(
+			validateRequestSchema(options, { email: 'user@example.com' }, {}).errors,
+		).toBeUndefined();
+
+		const error = rejectionOf(() => validateRequestSchema(options, { email: 'nope' }, {}));
+
+		expect(error).toBeInstanceOf(WebhookValidationError);
+		expect(error?.responseCode).toBe(400);
+		expect((error as WebhookValidationError).errors).toEqual([
+			{
+				location: 'body',
+				path: '/email',
+				keyword: 'format',
+				message: 'must match format "email"',
+				params: { format: 'email' },
+			},
+		]);
+	});
+
+	test('should validate the body against a draft-07 schema', () => {
+		const options = optionsFor({
+			draft: 'draft07',
+			bodySchema: JSON.stringify({
+				$schema: 'http://json-schema.org/draft-07/schema#',
+				type: 'object',
+				required: ['id'],
+			}),
+		});
+
+		expect(validateRequestSchema(options, { id: 1 }, {}).errors).toBeUndefined();
+		expect(rejectionOf(() => validateRequestSchema(options, {}, {}))?.responseCode).toBe(400);
+	});
+
+	test('should coerce query parameters without touching the original', () => {
+		const query = { page: '2', draft: 'true', tag: 'a' };
+		const options = optionsFor({
+			querySchema: {
+				type: 'object',
+				properties: {
+					page: { type: 'integer' },
+					draft: { type: 'boolean' },
+					tag: { type: 'array', items: { type: 'string' } },
+				},
+			},
+		});
+
+		expect(validateRequestSchema(options, {}, query).query).toEqual({
+			page: 2,
+			draft: true,
+			tag: ['a'],
+		});
+		expect(query).toEqual({ page: '2', draft: 'true', tag: 'a' });
+	});
+
+	test('should report query strings when coercion is off', () => {
+		const options = optionsFor({
+			coerceQuery: false,
+			onInvalid: 'passThrough',
+			querySchema: { type: 'object', properties: { page: { type: 'integer' } } },
+		});
+
+		const { errors } = validateRequestSchema(options, {}, { page: '2' });
+
+		expect(errors).toEqual([
+			expect.objectContaining({ location: 'query', path: '/page', keyword: 'type' }),
+		]);
+	});
+
+	test('should collect body and query errors together', () => {
+		const options = optionsFor({
+			onInvalid: 'passThrough',
+			bodySchema: { type: 'object', required: ['id'] },
+			querySchema: { type: 'object', required: ['page'] },
+		});
+
+		const { errors } = validateRequestSchema(options, {}, {});
+
+		expect(errors?.map((error) => error.location)).toEqual(['body', 'query']);
+	});
+
+	test('should answer 500 for a broken schema', () => {
+		expect(
+			rejectionOf(() => validateRequestSchema(optionsFor({ bodySchema: '{ nope' }), {}, {}))
+				?.message,
+		).toBe('The body schema is not valid JSON');
+		expect(
+			rejectionOf(() => validateRequestSchema(optionsFor({ bodySchema: { type: 'nope' } }), {}, {}))
+				?.responseCode,
+		).toBe(500);
+	});
+});
@@ -0,0 +1,182 @@
+import { createHmac } from 'crypto';
+
+import { WebhookAuthorizationError } from '../../../src/nodes/HttpTrigger/error';
+import {
+	parseTimestamp,
+	resolveSignatureScheme,
+	SignatureSettings,
+	verifySignature,
+} from '../../../src/nodes/HttpTrigger/signature';
+
+const secret = 'top-secret';
+const body = Buffer.from('{"hello":"world"}');
+const now = 1_700_000_000_000;
+const timestamp = String(now / 1000);
+
+const hmac = (algorithm: string, payload: string | Buffer, encoding: 'hex' | 'base64' = 'hex') =>
+	createHmac(algorithm, secret).update(payload).digest(encoding);
+
+const customSettings: SignatureSettings = {
+	algorithm: 'sha256',
+	encoding: 'hex',
+	signatureHeader: 'X-Signature',
+	signaturePrefix: '',
+	timestampHeader: '',
+	signTimestamp: false,
+};
+
+const expectRejected = (fn: () => void, message: string) => {
+	let error: unknown;
+
+	try {
+		fn();
+	} catch (e) {
+		error = e;
+	}
+
+	expect(error).toBeInstanceOf(WebhookAuthorizationError);
+	expect((error as WebhookAuthorizationError).responseCode).toBe(401);
+	expect((error as Error).message).toBe(message);
+};
+
+describe('HttpTrigger signature verification', () => {
+	describe('Custom profile', () => {
+		test('should accept a valid signature for every algorithm', () => {
+			for (const algorithm of ['sha1', 'sha256', 'sha512'] as const) {
+				const scheme = resolveSignatureScheme('custom', { ...customSettings, algorithm });
+				const headers = { 'x-signature': hmac(algorithm, body) };
+
+				expect(() => verifySignature(scheme, secret, headers, body, 300, now)).not.toThrow();
+			}
+		});
+
+		test('should strip the configured prefix', () => {
+			const scheme = resolveSignatureScheme('custom', {
+				...customSettings,
+				signaturePrefix: 'sha256=',
+			});
+			const headers = { 'x-signature': `sha256=${hmac('sha256', body)}` };
+
+			expect(() => verifySignature(scheme, secret, headers, body, 300, now)).not.toThrow();
+		});
+
+		test('should reject a signature without the configured prefix', () => {
+			const scheme = resolveSignatureScheme('custom', {
+				...customSettings,
+				signaturePrefix: 'sha256=',
+			});
+			const headers = { 'x-signature': hmac('sha256', body) };
+
+			expectRejected(
+				() => verifySignature(scheme, secret, headers, body, 300, now),
+				'Missing request signature',
+			);
+		});
+
+		test('should reject a tampered body', () => {
+			const scheme = resolveSignatureScheme('custom', customSettings);
+			const headers = { 'x-signature': hmac('sha256', body) };
+
+			expectRejected(
+				() => verifySignature(scheme, secret, headers, Buffer.from('{}'), 300, now),
+				'Invalid request signature',
+			);
+		});
+
+		test('should sign the timestamp when configured', () => {
+			const scheme = resolveSignatureScheme('custom', {
+				...customSettings,
+				timestampHeader: 'X-Timestamp',
+				signTimestamp: true,
+			});
+			const headers = {
+				'x-signature': hmac('sha256', `${timestamp}.${body.toString()}`),
+				'x-timestamp': timestamp,
+			};
+
+			expect(() => verifySignature(scheme, secret, headers, body, 300, now)).not.toThrow();
+		});
+
+		test('should reject requests outside the replay window', () => {
+			const scheme = resolveSignatureScheme('custom', {
+				...customSettings,
+				timestampHeader: 'X-Timestamp',
+			});
+			const headers = { 'x-signature': hmac('sha256', body), 'x-timestamp': timestamp };
+
+			expectRejected(
+				() => verifySignature(scheme, secret, headers, body, 300, now + 301_000),
+				'Request timestamp is outside the allowed window',
+			);
+			expect(() => verifySignature(scheme, secret, headers, body, 0, now + 301_000)).not.toThrow();
+		});
+
+		test('should reject a missing timestamp when a timestamp header is configured', () => {
+			const scheme = resolveSignatureScheme('custom', {
+				...customSettings,
+				timestampHeader: 'X-Timestamp',
+			});
+			const headers = { 'x-signature': hmac('sha256', body) };
+
+			expectRejected(
+				() => verifySignature(scheme, secret, headers, body, 300, now),
+				'Missing request timestamp',
+			);
+		});
+	});
+
+	describe('Preset profiles', () => {
+		test('should verify GitHub signatures', () => {
+			const scheme = resolveSignatureScheme('github', customSettings);
+			const headers = { 'x-hub-signature-256': `sha256=${hmac('sha256', body)}` };
+
+			expect(() => verifySignature(scheme, secret, headers, body, 300, now)).not.toThrow();
+		});
+
+		test('should verify Shopify signatures', () => {
+			const scheme = resolveSignatureScheme('shopify', customSettings);
+			const headers = { 'x-shopify-hmac-sha256': hmac('sha256', body, 'base64') };
+
+			expect(() => verifySignature(scheme, secret, headers, body, 300, now)).not.toThrow();
+		});
+
+		test('should verify Slack signatures', () => {
+			const scheme = resolveSignatureScheme('slack', customSettings);
+			const headers = {
+				'x-slack-signature': `v0=${hmac('sha256', `v0:${timestamp}:${body.toString()}`)}`,
+				'x-slack-request-timestamp': timestamp,
+			};
+
+			expect(() => verifySignature(scheme, secret, headers, body, 300, now)).not.toThrow();
+		});
+
+		test('should verify Stripe signatures with any matching v1 entry', () => {
+			const scheme = resolveSignatureScheme('stripe', customSettings);
+			const signature = hmac('sha256', `${timestamp}.${body.toString()}`);
+			const headers = {
+				'stripe-signature': `t=${timestamp},v1=${'0'.repeat(64)},v1=${signature},v0=abc`,
+			};
+
+			expect(() => verifySignature(scheme, secret, headers, body, 300, now)).not.toThrow();
+		});
+
+		test('should reject Stripe signatures without a timestamp', () => {
+			const scheme = resolveSignatureScheme('stripe', customSettings);
+			const headers = { 'stripe-signature': `v1=${hmac('sha256', body)}` };
+
+			expectRejected(
+				() => verifySignature(scheme, secret, headers, body, 300, now),
+				'Missing request timestamp',
+			);
+		});
+	});
+
+	describe('parseTimestamp', () => {
+		test('should parse seconds, milliseconds and ISO dates', () => {
+			expect(parseTimestamp('1700000000')).toBe(now);
+			expect(parseTimestamp('1700000000000')).toBe(now);
+			expect(parseTimestamp(new Date(now).toISOString())).toBe(now);
+			expect(parseTimestamp('not-a-date')).toBeUndefined();
+		});
+	});
+});
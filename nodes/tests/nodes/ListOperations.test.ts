@@ -0,0 +1,94 @@
+import { INodeExecutionData, INodeParameters } from 'n8n-workflow';
+
+import { ListOperations } from '../../src/nodes/ListOperations.node';
+import { createExecuteContext } from '../utils/harness';
+
+describe('ListOperations Node', () => {
+	let node: ListOperations;
+
+	beforeEach(() => {
+		node = new ListOperations();
+	});
+
+	const createContext = (parameters: Record<string, unknown>, items: INodeExecutionData[], continueOnFail = false) =>
+		createExecuteContext(node, { parameters: parameters as INodeParameters, items, continueOnFail }).context;
+
+	describe('Node Description', () => {
+		test('should have correct basic properties', () => {
+			expect(node.description.name).toBe('listOperations');
+			expect(node.description.group).toContain('transform');
+			expect(node.description.inputs).toEqual(['main']);
+			expect(node.description.outputs).toEqual(['main']);
+		});
+
+		test('should offer split out, aggregate, group by and deduplicate', () => {
+			const operationParam = node.description.properties.find(p => p.name === 'operation');
+
+			expect((operationParam?.options as Array<{ value: string }>).map(o => o.value)).toEqual([
+				'aggregate',
+				'deduplicate',
+				'groupBy',
+				'splitOut',
+			]);
+		});
+	});
+
+	describe('execute()', () => {
+		const orders = [
+			{ json: { customer: 'a', lines: [{ sku: 'x', qty: 1 }, { sku: 'y', qty: 2 }] } },
+			{ json: { customer: 'b', lines: [{ sku: 'x', qty: 5 }] } },
+		];
+
+		test('should split out, group and aggregate with paired items', async () => {
+			const [lines] = await node.execute.call(
+				createContext({ operation: 'splitOut', fieldToSplitOut: 'lines', includeOtherFields: true }, orders),
+			);
+
+			expect(lines.map(item => item.pairedItem)).toEqual([{ item: 0 }, { item: 0 }, { item: 1 }]);
+
+			const [groups] = await node.execute.call(
+				createContext(
+					{
+						operation: 'groupBy',
+						groupBy: 'sku',
+						reducers: { reducer: [{ reducer: 'sum', field: 'qty', outputField: 'quantity' }] },
+					},
+					lines,
+				),
+			);
+
+			expect(groups).toEqual([
+				{ json: { sku: 'x', quantity: 6 }, pairedItem: [{ item: 0 }, { item: 2 }] },
+				{ json: { sku: 'y', quantity: 2 }, pairedItem: [{ item: 1 }] },
+			]);
+
+			const [aggregated] = await node.execute.call(
+				createContext({ operation: 'aggregate', aggregate: 'individualFields', fieldsToAggregate: 'sku' }, groups),
+			);
+
+			expect(aggregated).toEqual([{ json: { sku: ['x', 'y'] }, pairedItem: [{ item: 0 }, { item: 1 }] }]);
+		});
+
+		test('should deduplicate items', async () => {
+			const [output] = await node.execute.call(
+				createContext({ operation: 'deduplicate', compareFields: 'customer' }, [...orders, orders[0]]),
+			);
+
+			expect(output.map(item => item.json.customer)).toEqual(['a', 'b']);
+		});
+
+		test('should require the field to split out unless continuing on fail', async () => {
+			await expect(
+				node.execute.call(createContext({ operation: 'splitOut', fieldToSplitOut: ' ' }, orders)),
+			).rejects.toThrow('Enter the field to split out');
+
+			const [output] = await node.execute.call(
+				createContext({ operation: 'splitOut', fieldToSplitOut: '' }, orders, true),
+			);
+
+			expect(output).toEqual([
+				{ json: { error: 'Enter the field to split out' }, pairedItem: [{ item: 0 }, { item: 1 }] },
+			]);
+		});
+	});
+});
@@ -0,0 +1,156 @@
+import {
+	aggregateItems,
+	deduplicateItems,
+	getOutputField,
+	groupItems,
+	reduceValues,
+	splitOutItems,
+} from '../../../src/nodes/ListOperations/operations';
+
+const toItems = (...json: Array<Record<string, unknown>>) => json.map(data => ({ json: data as any }));
+
+describe('ListOperations operations', () => {
+	describe('splitOutItems', () => {
+		const items = toItems({ id: 1, lines: [{ sku: 'a' }, { sku: 'b' }] }, { id: 2, lines: [] }, { id: 3, lines: ['x'] });
+
+		test('should turn list entries into items paired with their source', () => {
+			expect(splitOutItems(items, 'lines')).toEqual([
+				{ json: { sku: 'a' }, pairedItem: { item: 0 } },
+				{ json: { sku: 'b' }, pairedItem: { item: 0 } },
+				{ json: { lines: 'x' }, pairedItem: { item: 2 } },
+			]);
+		});
+
+		test('should include other fields, use a destination field and keep items without entries', () => {
+			expect(
+				splitOutItems(items, 'lines', { destinationField: 'line', includeOtherFields: true, keepItemsWithoutField: true }),
+			).toEqual([
+				{ json: { id: 1, line: { sku: 'a' } }, pairedItem: { item: 0 } },
+				{ json: { id: 1, line: { sku: 'b' } }, pairedItem: { item: 0 } },
+				{ json: { id: 2, lines: [] }, pairedItem: { item: 1 } },
+				{ json: { id: 3, line: 'x' }, pairedItem: { item: 2 } },
+			]);
+		});
+
+		test('should split nested lists without changing the input', () => {
+			const nested = toItems({ order: { id: 7, tags: ['a', 'b'] } });
+
+			expect(splitOutItems(nested, 'order.tags', { includeOtherFields: true }).map(item => item.json)).toEqual([
+				{ order: { id: 7, tags: 'a' } },
+				{ order: { id: 7, tags: 'b' } },
+			]);
+			expect(nested[0].json).toEqual({ order: { id: 7, tags: ['a', 'b'] } });
+		});
+
+		test('should not share objects with the input items', () => {
+			const input = toItems({ id: 1, lines: [{ sku: 'a', stock: { count: 1 } }] }, { id: 2 });
+			const [split, kept] = splitOutItems(input, 'lines', { keepItemsWithoutField: true });
+			const [destination] = splitOutItems(input, 'lines', { destinationField: 'line' });
+
+			split.json.sku = 'changed';
+			(split.json.stock as { count: number }).count = 2;
+			(destination.json.line as { sku: string }).sku = 'changed';
+			kept.json.id = 3;
+
+			expect(input.map(item => item.json)).toEqual([{ id: 1, lines: [{ sku: 'a', stock: { count: 1 } }] }, { id: 2 }]);
+		});
+	});
+
+	describe('aggregateItems', () => {
+		const items = toItems({ id: 1, user: { email: 'a@x' } }, { id: 2 }, { id: 3, user: { email: 'c@x' } });
+
+		test('should put all items into one, paired with every input', () => {
+			expect(aggregateItems(items, 'data')).toEqual([
+				{
+					json: { data: items.map(item => item.json) },
+					pairedItem: [{ item: 0 }, { item: 1 }, { item: 2 }],
+				},
+			]);
+			expect(aggregateItems([], 'data')).toEqual([]);
+		});
+
+		test('should collect individual fields into lists', () => {
+			expect(aggregateItems(items, '', ['id', 'user.email'])[0].json).toEqual({
+				id: [1, 2, 3],
+				user: { email: ['a@x', 'c@x'] },
+			});
+		});
+	});
+
+	describe('groupItems', () => {
+		const items = toItems(
+			{ customer: 'a', total: 10, at: '2024-01-02' },
+			{ customer: 'b', total: '5' },
+			{ customer: 'a', total: 30, at: '2024-01-01' },
+			{ customer: 'a', total: null },
+		);
+
+		test('should output one item per group with the reducer results', () => {
+			const reducers = (['count', 'sum', 'avg', 'min', 'max'] as const).map(reducer => ({ reducer, field: 'total' }));
+
+			expect(groupItems(items, ['customer'], [{ reducer: 'count', field: '' }, ...reducers])).toEqual([
+				{
+					json: { customer: 'a', count: 3, count_total: 2, sum_total: 40, avg_total: 20, min_total: 10, max_total: 30 },
+					pairedItem: [{ item: 0 }, { item: 2 }, { item: 3 }],
+				},
+				{
+					json: { customer: 'b', count: 1, count_total: 1, sum_total: 5, avg_total: 5, min_total: '5', max_total: '5' },
+					pairedItem: [{ item: 1 }],
+				},
+			]);
+		});
+
+		test('should collect, take first and last values and honor output fields', () => {
+			const [group] = groupItems(items, [], [
+				{ reducer: 'collect', field: 'customer', outputField: 'customers' },
+				{ reducer: 'first', field: 'at' },
+				{ reducer: 'last', field: 'at' },
+				{ reducer: 'min', field: 'at', outputField: 'stats.earliest' },
+			]);
+
+			expect(group.json).toEqual({
+				customers: ['a', 'b', 'a', 'a'],
+				first_at: '2024-01-02',
+				last_at: '2024-01-01',
+				stats: { earliest: '2024-01-01' },
+			});
+			expect(group.pairedItem).toHaveLength(4);
+		});
+
+		test('should group by nested and object values', () => {
+			const nested = toItems({ key: { a: 1 } }, { key: { a: 1 } }, { key: { a: 2 } });
+
+			expect(groupItems(nested, ['key'], []).map(item => item.json)).toEqual([{ key: { a: 1 } }, { key: { a: 2 } }]);
+		});
+	});
+
+	describe('reducers', () => {
+		test('should skip missing values and return null for empty groups', () => {
+			expect(reduceValues('avg', [undefined, 'x'])).toBeNull();
+			expect(reduceValues('min', [])).toBeNull();
+			expect(reduceValues('sum', [])).toBe(0);
+			expect(reduceValues('collect', [1, undefined, null, 2])).toEqual([1, 2]);
+		});
+
+		test('should name outputs after the reducer and field', () => {
+			expect(getOutputField({ reducer: 'sum', field: 'order.lines[0].price' })).toBe('sum_order_lines_0_price');
+			expect(getOutputField({ reducer: 'count', field: '' })).toBe('count');
+		});
+	});
+
+	describe('deduplicateItems', () => {
+		const items = toItems({ email: 'a', n: 1 }, { email: 'b', n: 2 }, { email: 'a', n: 3 }, { email: 'b', n: 2 });
+
+		test('should keep the first item of each key and pair it with its duplicates', () => {
+			expect(deduplicateItems(items, ['email'])).toEqual([
+				{ json: { email: 'a', n: 1 }, pairedItem: [{ item: 0 }, { item: 2 }] },
+				{ json: { email: 'b', n: 2 }, pairedItem: [{ item: 1 }, { item: 3 }] },
+			]);
+		});
+
+		test('should keep the last occurrence or compare whole items', () => {
+			expect(deduplicateItems(items, ['email'], 'last').map(item => item.json.n)).toEqual([3, 2]);
+			expect(deduplicateItems(items, []).map(item => item.json.n)).toEqual([1, 2, 3]);
+		});
+	});
+});
@@ -1,10 +1,14 @@
+import { IDataObject, INodeExecutionData, INodeParameters, INodeTypeDescription, NodeOperationError } from 'n8n-workflow';
+
 import { SimpleExample } from '../../src/nodes/SimpleExample.node';
+import { SimpleExampleV1 } from '../../src/nodes/SimpleExample/SimpleExampleV1';
+import { createExecuteContext, runExecute } from '../utils/harness';
 
 describe('SimpleExample Node', () => {
-	let node: SimpleExample;
+	let node: SimpleExampleV1;
 
 	beforeEach(() => {
-		node = new SimpleExample();
+		node = new SimpleExample().nodeVersions[1] as SimpleExampleV1;
 	});
 
 	describe('Node Description', () => {
@@ -38,5 +42,195 @@ describe('SimpleExample Node', () => {
 			expect(timestampParam?.type).toBe('boolean');
 			expect(timestampParam?.default).toBe(true);
 		});
+
+		test('should default to the wrap operation of nodes saved before the transformations', () => {
+			const operationParam = node.description.properties.find(p => p.name === 'operation');
+
+			expect(operationParam?.default).toBe('wrap');
+			expect((operationParam?.options as Array<{ value: string }>).map(o => o.value)).toEqual([
+				'cast',
+				'flatten',
+				'pick',
+				'remove',
+				'rename',
+				'set',
+				'template',
+				'unflatten',
+				'wrap',
+			]);
+		});
+	});
+
+	describe('execute()', () => {
+		const createContext = (
+			parameters: Record<string, unknown>,
+			items: INodeExecutionData[],
+			continueOnFail = false,
+		) => createExecuteContext(node, { parameters: parameters as INodeParameters, items, continueOnFail }).context;
+
+		const run = async (parameters: Record<string, unknown>, json: IDataObject) => {
+			const [output] = await node.execute.call(createContext(parameters, [{ json }]));
+
+			return output[0].json;
+		};
+
+		test('should wrap items with a message and timestamp by default', async () => {
+			jest.useFakeTimers({ now: new Date('2024-05-01T12:00:00.000Z') });
+
+			const [output] = await node.execute.call(
+				createContext({ message: 'Hi', addTimestamp: true }, [{ json: { a: 1 } }, { json: { a: 2 } }]),
+			);
+
+			jest.useRealTimers();
+
+			expect(output).toEqual([
+				{ json: { message: 'Hi', originalData: { a: 1 }, timestamp: '2024-05-01T12:00:00.000Z' }, pairedItem: { item: 0 } },
+				{ json: { message: 'Hi', originalData: { a: 2 }, timestamp: '2024-05-01T12:00:00.000Z' }, pairedItem: { item: 1 } },
+			]);
+		});
+
+		test('should leave out the timestamp when disabled', async () => {
+			const [output] = await node.execute.call(createContext({ message: 'Hi', addTimestamp: false }, [{ json: { a: 1 } }]));
+
+			expect(output[0].json).toEqual({ message: 'Hi', originalData: { a: 1 } });
+		});
+
+		test('should set fields by dot-path with an optional type', async () => {
+			const fields = {
+				field: [
+					{ path: 'address.city', type: 'auto', value: 'Berlin' },
+					{ path: 'tags[0]', type: 'auto', value: 'new' },
+					{ path: 'age', type: 'number', value: '42' },
+				],
+			};
+
+			await expect(run({ operation: 'set', fields }, { name: 'Ada' })).resolves.toEqual({
+				name: 'Ada',
+				address: { city: 'Berlin' },
+				tags: ['new'],
+				age: 42,
+			});
+		});
+
+		test('should rename fields and skip missing ones', async () => {
+			const renames = {
+				field: [
+					{ from: 'user.name', to: 'fullName' },
+					{ from: 'missing', to: 'other' },
+				],
+			};
+
+			await expect(run({ operation: 'rename', renames }, { user: { name: 'Ada', id: 1 } })).resolves.toEqual({
+				user: { id: 1 },
+				fullName: 'Ada',
+			});
+		});
+
+		test('should remove or pick fields', async () => {
+			const json = { id: 1, secret: 'x', address: { city: 'Berlin', zip: '10115' } };
+
+			await expect(run({ operation: 'remove', paths: 'secret, address.zip' }, json)).resolves.toEqual({
+				id: 1,
+				address: { city: 'Berlin' },
+			});
+			await expect(run({ operation: 'pick', paths: 'id, address.city' }, json)).resolves.toEqual({
+				id: 1,
+				address: { city: 'Berlin' },
+			});
+		});
+
+		test('should flatten and unflatten nested objects', async () => {
+			const json = { a: { b: 1, c: { d: 2 } }, tags: ['x'] };
+
+			await expect(run({ operation: 'flatten', separator: '_' }, json)).resolves.toEqual({
+				a_b: 1,
+				a_c_d: 2,
+				tags: ['x'],
+			});
+			await expect(run({ operation: 'unflatten', separator: '.' }, { 'a.b': 1, 'a.c.d': 2 })).resolves.toEqual({
+				a: { b: 1, c: { d: 2 } },
+			});
+		});
+
+		test('should cast types and render templates', async () => {
+			const casts = { field: [{ path: 'price', type: 'number' }, { path: 'active', type: 'boolean' }] };
+			const templates = { field: [{ path: 'greeting', template: 'Hello {{ user.name }}, {{ user.missing }}!' }] };
+
+			await expect(run({ operation: 'cast', casts }, { price: '9.5', active: 'yes' })).resolves.toEqual({
+				price: 9.5,
+				active: true,
+			});
+			await expect(run({ operation: 'template', templates }, { user: { name: 'Ada' } })).resolves.toEqual({
+				user: { name: 'Ada' },
+				greeting: 'Hello Ada, !',
+			});
+		});
+
+		test('should keep binary data, paired items and the input unchanged', async () => {
+			const items = [{ json: { a: { b: 1 } }, binary: { file: { data: 'abc', mimeType: 'text/plain' } } }];
+			const [output] = await node.execute.call(createContext({ operation: 'remove', paths: 'a.b' }, items));
+
+			expect(output).toEqual([{ json: { a: {} }, binary: { file: { data: 'abc', mimeType: 'text/plain' } }, pairedItem: { item: 0 } }]);
+			expect(items[0].json).toEqual({ a: { b: 1 } });
+		});
+
+		test('should fail on values that cannot be converted unless told to ignore them', async () => {
+			const casts = { field: [{ path: 'price', type: 'number' }] };
+			const items = [{ json: { price: 'abc' } }, { json: { price: '1' } }];
+
+			await expect(node.execute.call(createContext({ operation: 'cast', casts }, items))).rejects.toThrow(
+				new NodeOperationError({} as any, 'Cannot convert "abc" to number'),
+			);
+			await expect(
+				run({ operation: 'cast', casts, ignoreConversionErrors: true }, { price: 'abc' }),
+			).resolves.toEqual({ price: 'abc' });
+
+			const [output] = await node.execute.call(createContext({ operation: 'cast', casts }, items, true));
+
+			expect(output).toEqual([
+				{ json: { error: 'Cannot convert "abc" to number' }, pairedItem: { item: 0 } },
+				{ json: { price: 1 }, pairedItem: { item: 1 } },
+			]);
+		});
+	});
+
+	describe('Versions', () => {
+		const defaults = (description: INodeTypeDescription) =>
+			['operation', 'message', 'addTimestamp'].map(name => description.properties.find(p => p.name === name)?.default);
+
+		test('should create new nodes with version 2', () => {
+			const versioned = new SimpleExample();
+
+			expect(versioned.description.defaultVersion).toBe(2);
+			expect(versioned.getNodeType().description.version).toBe(2);
+			expect(Object.keys(versioned.nodeVersions)).toEqual(['1', '2']);
+		});
+
+		test('should only change the defaults of new nodes', () => {
+			const v2 = new SimpleExample().nodeVersions[2];
+
+			expect(defaults(node.description)).toEqual(['wrap', 'Hello from N8N-R8 Custom Node!', true]);
+			expect(defaults(v2.description)).toEqual(['set', '', false]);
+			expect(v2.description.properties.slice(3)).toEqual(node.description.properties.slice(3));
+		});
+
+		test('should set fields when version 2 has no operation', async () => {
+			const { output } = await runExecute(new SimpleExample(), { items: [{ json: { a: 1 } }] });
+
+			expect(output).toEqual([[{ json: { a: 1 }, pairedItem: { item: 0 } }]]);
+		});
+
+		test('should run the same transformations in both versions', async () => {
+			const fixture = {
+				parameters: { operation: 'template', templates: { field: [{ path: 'b', template: 'x{{ a }}' }] } },
+				items: [{ json: { a: 1 } }, { json: { a: 2 } }],
+			};
+
+			const v1 = await runExecute(new SimpleExample(), { ...fixture, node: { typeVersion: 1 } });
+			const v2 = await runExecute(new SimpleExample(), fixture);
+
+			expect(v2.output).toEqual(v1.output);
+			expect(v2.output[0].map(item => item.json.b)).toEqual(['x1', 'x2']);
+		});
 	});
 });
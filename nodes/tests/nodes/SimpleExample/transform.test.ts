@@ -0,0 +1,65 @@
+import {
+	castValue,
+	flattenObject,
+	renderTemplate,
+	unflattenObject,
+} from '../../../src/nodes/SimpleExample/transform';
+
+describe('SimpleExample transformations', () => {
+	describe('flatten', () => {
+		test('should flatten objects and keep arrays unless asked', () => {
+			const data = { a: { b: { c: 1 }, empty: {} }, list: [{ x: 1 }] };
+
+			expect(flattenObject(data)).toEqual({ 'a.b.c': 1, 'a.empty': {}, list: [{ x: 1 }] });
+			expect(flattenObject(data, '/', true)).toEqual({ 'a/b/c': 1, 'a/empty': {}, 'list/0/x': 1 });
+		});
+
+		test('should restore what was flattened, including arrays', () => {
+			const data = { a: { b: { c: 1 } }, list: [{ x: 1 }, { x: 2 }] };
+
+			expect(unflattenObject(flattenObject(data, '__', true), '__')).toEqual(data);
+			expect(unflattenObject({ 'a.b': 1 }, '_')).toEqual({ 'a.b': 1 });
+		});
+
+		test('should refuse keys that would pollute the object prototype', () => {
+			expect(() => unflattenObject({ '__proto__.polluted': 'yes' })).toThrow('must not contain "__proto__"');
+			expect(() => unflattenObject({ 'constructor.prototype.polluted': 'yes' })).toThrow('must not contain');
+			expect(({} as Record<string, unknown>).polluted).toBeUndefined();
+		});
+	});
+
+	describe('castValue', () => {
+		test.each([
+			['42', 'number', 42],
+			[true, 'number', 1],
+			['Yes', 'boolean', true],
+			[0, 'boolean', false],
+			['{"a":1}', 'json', { a: 1 }],
+			[{ a: 1 }, 'string', '{"a":1}'],
+			[null, 'string', ''],
+			['x', 'array', ['x']],
+			['[1,2]', 'array', [1, 2]],
+		] as const)('should convert %j to %s', (value, type, expected) => {
+			expect(castValue(value, type)).toEqual(expected);
+		});
+
+		test.each([
+			['abc', 'number'],
+			['', 'number'],
+			['maybe', 'boolean'],
+			['{oops', 'json'],
+		] as const)('should refuse to convert %j to %s', (value, type) => {
+			expect(() => castValue(value, type)).toThrow(`Cannot convert ${JSON.stringify(value)} to ${type}`);
+		});
+	});
+
+	describe('renderTemplate', () => {
+		test('should fill placeholders with values of the item', () => {
+			const data = { user: { name: 'Ada', tags: ['a', 'b'] }, count: 2 };
+
+			expect(renderTemplate('{{user.name}} has {{ count }} tags: {{ user.tags }}{{ missing }}', data)).toBe(
+				'Ada has 2 tags: ["a","b"]',
+			);
+		});
+	});
+});
@@ -0,0 +1,135 @@
+import { mkdirSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { dirname, join } from 'path';
+
+interface DiscoveredFile {
+	className: string;
+	module: string;
+}
+
+interface Discovered {
+	nodes: DiscoveredFile[];
+	credentials: DiscoveredFile[];
+	errors: string[];
+}
+
+// The build step is plain JavaScript, node runs it before anything is compiled
+const { discover, renderIndex, renderPackageJson, verifyBuild } = require('../../scripts/discover-nodes') as {
+	discover: (srcDir: string) => Discovered;
+	renderIndex: (found: Discovered, version: string) => string;
+	renderPackageJson: (packageJson: object, found: Discovered) => string;
+	verifyBuild: (packageDir: string) => Promise<string[]>;
+};
+
+const packageDir = join(__dirname, '..', '..');
+
+describe('discover-nodes', () => {
+	let folder: string;
+
+	const write = (files: Record<string, string>) => {
+		for (const [file, content] of Object.entries(files)) {
+			mkdirSync(dirname(join(folder, file)), { recursive: true });
+			writeFileSync(join(folder, file), content);
+		}
+	};
+
+	beforeEach(() => {
+		folder = mkdtempSync(join(tmpdir(), 'discover-nodes-'));
+	});
+
+	afterEach(() => {
+		rmSync(folder, { recursive: true, force: true });
+	});
+
+	describe('discover()', () => {
+		test('should find the nodes and credentials of src but not their versions and helpers', () => {
+			const { nodes, credentials, errors } = discover(join(packageDir, 'src'));
+
+			expect(errors).toEqual([]);
+			expect(nodes.map(node => node.className)).toEqual([
+				'ExampleDeclarative',
+				'ExampleNode',
+				'HttpRespond',
+				'HttpTrigger',
+				'ListOperations',
+				'SimpleExample',
+			]);
+			expect(credentials.map(credential => credential.module)).toContain('credentials/SimpleApi.credentials');
+		});
+
+		test('should report files n8n would miss or load as types of their own', () => {
+			write({
+				'nodes/Valid.node.ts': 'export class Valid implements INodeType {}',
+				'nodes/Renamed.node.ts': 'export class Original implements INodeType {}',
+				'nodes/Helper.ts': 'export const helper = 1;',
+				'nodes/Valid/ValidV1.node.ts': 'export class ValidV1 implements INodeType {}',
+				'nodes/Valid/shared.ts': 'export const shared = 1;',
+				'credentials/Simple.credential.ts': 'export class Simple implements ICredentialType {}',
+				'utils/request.ts': 'export const request = 1;',
+			});
+
+			const { nodes, errors } = discover(folder);
+
+			expect(nodes).toEqual([{ className: 'Valid', module: 'nodes/Valid.node' }]);
+			expect(errors).toEqual([
+				'src/credentials/Simple.credential.ts is not named <ClassName>.credentials.ts, so n8n would not load it',
+				'src/nodes/Helper.ts is not named <ClassName>.node.ts, so n8n would not load it',
+				'src/nodes/Renamed.node.ts must export a class named Renamed, n8n looks the class up by the file name',
+				'src/nodes/Valid/ValidV1.node.ts must be directly in src/nodes, n8n would load it from the custom folder on its own',
+			]);
+		});
+	});
+
+	describe('generated files', () => {
+		test('should be up to date with src, run `npm run discover` otherwise', () => {
+			const found = discover(join(packageDir, 'src'));
+			const packageJson = readFileSync(join(packageDir, 'package.json'), 'utf8');
+			const { version } = JSON.parse(packageJson) as { version: string };
+
+			expect(readFileSync(join(packageDir, 'src', 'index.ts'), 'utf8')).toBe(renderIndex(found, version));
+			expect(packageJson).toBe(renderPackageJson(JSON.parse(packageJson), found));
+		});
+
+		test('should list every compiled file in the manifest, as n8n expands no globs', () => {
+			const found = discover(join(packageDir, 'src'));
+			const { n8n } = JSON.parse(renderPackageJson({ n8n: { n8nNodesApiVersion: 1 } }, found));
+
+			expect(n8n.n8nNodesApiVersion).toBe(1);
+			expect(n8n.nodes).toContain('dist/nodes/HttpTrigger.node.js');
+			expect(n8n.credentials).toContain('dist/credentials/SimpleApi.credentials.js');
+			expect(n8n.credentials).toHaveLength(found.credentials.length);
+		});
+
+		test('should keep the manifest entries of other packages', () => {
+			const found = discover(join(packageDir, 'src'));
+			const external = 'node_modules/n8n-nodes-other/dist/nodes/Other.node.js';
+			const { n8n } = JSON.parse(
+				renderPackageJson({ n8n: { nodes: ['dist/nodes/Removed.node.js', external], credentials: [] } }, found),
+			);
+
+			expect(n8n.nodes).not.toContain('dist/nodes/Removed.node.js');
+			expect(n8n.nodes).toHaveLength(found.nodes.length + 1);
+			expect(n8n.nodes[n8n.nodes.length - 1]).toBe(external);
+		});
+	});
+
+	describe('verifyBuild()', () => {
+		test('should fail for manifest entries that do not exist', async () => {
+			write({
+				'package.json': JSON.stringify({
+					name: 'test-nodes',
+					n8n: {
+						nodes: ['dist/nodes/Missing.node.js', 'node_modules/@acme/n8n-nodes/dist/Acme.node.js'],
+						credentials: ['dist/credentials/*.credential.js'],
+					},
+				}),
+			});
+
+			await expect(verifyBuild(folder)).resolves.toEqual([
+				'package.json n8n.nodes lists dist/nodes/Missing.node.js, which does not exist',
+				'package.json n8n.nodes lists node_modules/@acme/n8n-nodes/dist/Acme.node.js, which does not exist, is @acme/n8n-nodes installed?',
+				'package.json n8n.credentials lists dist/credentials/*.credential.js, which does not exist',
+			]);
+		});
+	});
+});
@@ -18,86 +18,7 @@ afterEach(() => {
 	global.console = originalConsole;
 });
 
-// Mock N8N execution context
-export const mockExecuteFunctions = {
-	getInputData: jest.fn(),
-	getNodeParameter: jest.fn(),
-	getCredentials: jest.fn() as jest.MockedFunction<any>,
-	continueOnFail: jest.fn().mockReturnValue(false),
-	getNode: jest.fn().mockReturnValue({
-		name: 'Test Node',
-		type: 'test-node',
-		typeVersion: 1,
-	}),
-	helpers: {
-		request: jest.fn(),
-		requestWithAuthentication: jest.fn(),
-		returnJsonArray: jest.fn((data) => (Array.isArray(data) ? data : [data])),
-		constructExecutionMetaData: jest.fn((data: any[], metadata?: any) =>
-			(Array.isArray(data) ? data : [data]).map((item: any) => ({
-				json: item,
-				pairedItem:
-					metadata?.itemData?.item !== undefined ? { item: metadata.itemData.item } : undefined,
-			})),
-		),
-	},
-	logger: {
-		debug: jest.fn(),
-		info: jest.fn(),
-		warn: jest.fn(),
-		error: jest.fn(),
-	},
-};
-
-// Mock credentials
-export const mockCredentials = {
-	apiKey: 'test-api-key',
-	baseUrl: 'https://api.test.com',
-	username: 'testuser',
-	password: 'testpass',
-};
-
-// Helper function to reset all mocks
-export const resetAllMocks = () => {
-	Object.values(mockExecuteFunctions).forEach((mock) => {
-		if (typeof mock === 'object' && mock !== null) {
-			Object.values(mock).forEach((nestedMock) => {
-				if (jest.isMockFunction(nestedMock)) {
-					nestedMock.mockReset();
-				}
-			});
-		} else if (jest.isMockFunction(mock)) {
-			mock.mockReset();
-		}
-	});
-};
-
-// Helper function to setup common mocks
-export const setupCommonMocks = (inputData = [{ json: { test: 'data' } }]) => {
-	mockExecuteFunctions.getInputData.mockReturnValue(inputData);
-	(mockExecuteFunctions.getCredentials as jest.MockedFunction<any>).mockResolvedValue(
-		mockCredentials,
-	);
-	mockExecuteFunctions.continueOnFail.mockReturnValue(false);
-
-	return mockExecuteFunctions;
-};
-
-// Mock HTTP responses
-export const mockHttpResponse = {
-	success: {
-		status: 200,
-		data: { success: true, message: 'Operation completed' },
-	},
-	error: {
-		status: 400,
-		data: { error: true, message: 'Bad request' },
-	},
-	notFound: {
-		status: 404,
-		data: { error: true, message: 'Not found' },
-	},
-};
+// Node execution contexts are built from fixtures, see tests/utils/harness.ts
 
 // Test data generators
 export const generateTestUser = (id = 1) => ({
@@ -0,0 +1,76 @@
+import { chunk, runConcurrently } from '../../src/utils/batching';
+
+describe('Batching', () => {
+	describe('chunk', () => {
+		test('should split items into groups of the given size', () => {
+			expect(chunk([1, 2, 3, 4, 5], 2)).toEqual([[1, 2], [3, 4], [5]]);
+			expect(chunk([1, 2], 5)).toEqual([[1, 2]]);
+			expect(chunk([], 3)).toEqual([]);
+		});
+
+		test('should treat sizes below 1 as 1', () => {
+			expect(chunk([1, 2], 0)).toEqual([[1], [2]]);
+		});
+	});
+
+	describe('runConcurrently', () => {
+		const tick = async () => await new Promise((resolve) => setImmediate(resolve));
+
+		test('should keep the task order and limit the tasks in flight', async () => {
+			let inFlight = 0;
+			let maxInFlight = 0;
+
+			const results = await runConcurrently(
+				[5, 1, 4, 2, 3],
+				async (task) => {
+					inFlight++;
+					maxInFlight = Math.max(maxInFlight, inFlight);
+
+					for (let i = 0; i < task; i++) await tick();
+
+					inFlight--;
+
+					return task * 10;
+				},
+				{ concurrency: 2, interval: 0 },
+			);
+
+			expect(results).toEqual([50, 10, 40, 20, 30]);
+			expect(maxInFlight).toBe(2);
+		});
+
+		test('should wait between the tasks of a worker', async () => {
+			const sleeps: number[] = [];
+
+			await runConcurrently(
+				[1, 2, 3],
+				async (task) => task,
+				{ concurrency: 1, interval: 250 },
+				async (ms) => {
+					sleeps.push(ms);
+				},
+			);
+
+			expect(sleeps).toEqual([250, 250]);
+		});
+
+		test('should stop starting tasks after a failure', async () => {
+			const started: number[] = [];
+
+			await expect(
+				runConcurrently(
+					[1, 2, 3, 4],
+					async (task) => {
+						started.push(task);
+
+						if (task === 2) throw new Error('failed');
+
+						return task;
+					},
+					{ concurrency: 1, interval: 0 },
+				),
+			).rejects.toThrow('failed');
+			expect(started).toEqual([1, 2]);
+		});
+	});
+});
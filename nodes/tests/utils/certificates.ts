@@ -0,0 +1,52 @@
+import { execFileSync } from 'child_process';
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+
+export interface TestCertificates {
+	// Certificate of the CA that signed the server and client certificates
+	ca: string;
+	serverCert: string;
+	serverKey: string;
+	clientCert: string;
+	clientKey: string;
+}
+
+/**
+ * Creates a throwaway CA with a server certificate for 127.0.0.1 and a client
+ * certificate, using the `openssl` command line tool. Private keys are not kept
+ * in the repository, so the certificates are made fresh for every test run.
+ */
+export const createTestCertificates = (): TestCertificates => {
+	const folder = mkdtempSync(join(tmpdir(), 'n8n-r8-certificates-'));
+	const file = (name: string) => join(folder, name);
+	const openssl = (...args: string[]) => execFileSync('openssl', args, { stdio: 'pipe' });
+
+	// Signs a new key for `subject` with the CA, `extensions` go into the certificate
+	const issue = (name: string, subject: string, extensions: string) => {
+		writeFileSync(file(`${name}.ext`), extensions);
+		openssl('req', '-newkey', 'rsa:2048', '-nodes', '-keyout', file(`${name}.key`), '-out', file(`${name}.csr`), '-subj', subject);
+		openssl(
+			'x509', '-req', '-in', file(`${name}.csr`), '-CA', file('ca.pem'), '-CAkey', file('ca.key'),
+			'-CAcreateserial', '-days', '1', '-out', file(`${name}.pem`), '-extfile', file(`${name}.ext`),
+		);
+	};
+
+	try {
+		openssl('req', '-x509', '-newkey', 'rsa:2048', '-nodes', '-keyout', file('ca.key'), '-out', file('ca.pem'), '-days', '1', '-subj', '/CN=n8n-r8 Test CA');
+		issue('server', '/CN=127.0.0.1', 'subjectAltName=IP:127.0.0.1\n');
+		issue('client', '/CN=n8n-r8 Test Client', 'extendedKeyUsage=clientAuth\n');
+
+		const read = (name: string) => readFileSync(file(name), 'utf8');
+
+		return {
+			ca: read('ca.pem'),
+			serverCert: read('server.pem'),
+			serverKey: read('server.key'),
+			clientCert: read('client.pem'),
+			clientKey: read('client.key'),
+		};
+	} finally {
+		rmSync(folder, { recursive: true, force: true });
+	}
+};
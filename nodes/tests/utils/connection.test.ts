@@ -0,0 +1,50 @@
+import { rootCertificates } from 'tls';
+
+import { connectionProperties, getConnectionOptions, oAuth2ConnectionProperties } from '../../src/utils/connection';
+
+describe('Connection options', () => {
+	test('should apply a positive timeout', () => {
+		expect(getConnectionOptions({ timeout: 5000 })).toEqual({ timeout: 5000 });
+		expect(getConnectionOptions({ timeout: 0 })).toEqual({});
+	});
+
+	test('should trust the CA certificates in addition to the public CAs', () => {
+		const { agentOptions } = getConnectionOptions({ caCertificate: '-----BEGIN CERTIFICATE-----\\nabc' });
+
+		expect(agentOptions?.ca).toEqual([...rootCertificates, '-----BEGIN CERTIFICATE-----\nabc']);
+	});
+
+	test('should skip the verification instead of adding CA certificates', () => {
+		expect(getConnectionOptions({ skipTlsVerify: true, caCertificate: 'ca' })).toEqual({ rejectUnauthorized: false });
+	});
+
+	test('should still honor ignoreSSLIssues of credentials saved before the TLS options', () => {
+		expect(getConnectionOptions({ ignoreSSLIssues: true })).toEqual({ rejectUnauthorized: false });
+	});
+
+	test('should send a client certificate only together with its key', () => {
+		expect(getConnectionOptions({ clientCertificate: 'cert' })).toEqual({});
+		expect(
+			getConnectionOptions({ clientCertificate: 'cert', clientKey: 'key', clientKeyPassphrase: 'secret' }),
+		).toEqual({ agentOptions: { cert: 'cert', key: 'key', passphrase: 'secret' } });
+	});
+
+	test('should describe the timeout and TLS fields of a credential', () => {
+		expect(connectionProperties.map(({ name }) => name)).toEqual([
+			'timeout',
+			'skipTlsVerify',
+			'caCertificate',
+			'clientCertificate',
+			'clientKey',
+			'clientKeyPassphrase',
+		]);
+	});
+
+	test('should name the skip-verify toggle of OAuth2 credentials as n8n expects it', () => {
+		const names = oAuth2ConnectionProperties.map(({ name }) => name);
+		const ca = oAuth2ConnectionProperties.find(({ name }) => name === 'caCertificate');
+
+		expect(names).toEqual(['timeout', 'ignoreSSLIssues', ...names.slice(2)]);
+		expect(ca?.displayOptions).toEqual({ show: { ignoreSSLIssues: [false] } });
+	});
+});
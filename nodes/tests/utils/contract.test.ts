@@ -0,0 +1,207 @@
+import { INodeProperties, INodeTypeDescription } from 'n8n-workflow';
+
+import { SimpleApi } from '../../src/credentials/SimpleApi.credentials';
+import {
+	compareContracts,
+	describeCredentialType,
+	describeNodeType,
+	isVersionBumped,
+	TypeContract,
+} from './contract';
+
+const node = (properties: INodeProperties[], overrides: Partial<INodeTypeDescription> = {}): INodeTypeDescription => ({
+	displayName: 'Test',
+	name: 'test',
+	group: ['transform'],
+	version: 1,
+	description: '',
+	defaults: { name: 'Test' },
+	inputs: ['main'],
+	outputs: ['main'],
+	properties,
+	...overrides,
+});
+
+const operation: INodeProperties = {
+	displayName: 'Operation',
+	name: 'operation',
+	type: 'options',
+	options: [
+		{ name: 'Get', value: 'get' },
+		{ name: 'List', value: 'list' },
+	],
+	default: 'get',
+};
+
+const messages = (before: TypeContract, after: TypeContract) =>
+	compareContracts(before, after).map(change => `${change.kind}: ${change.message}`);
+
+describe('contract', () => {
+	describe('describeNodeType()', () => {
+		test('should keep what saved workflows rely on and flatten nested parameters', () => {
+			const contract = describeNodeType(
+				node([
+					operation,
+					{
+						displayName: 'Options',
+						name: 'options',
+						type: 'collection',
+						default: {},
+						options: [{ displayName: 'Limit', name: 'limit', type: 'number', default: 50 }],
+					},
+					{
+						displayName: 'Fields',
+						name: 'fields',
+						type: 'fixedCollection',
+						typeOptions: { multipleValues: true },
+						default: {},
+						options: [
+							{
+								displayName: 'Field',
+								name: 'field',
+								values: [{ displayName: 'Path', name: 'path', type: 'string', default: '', required: true }],
+							},
+						],
+					},
+				]),
+			);
+
+			expect(contract).toEqual({
+				kind: 'node',
+				name: 'test',
+				versions: [1],
+				inputs: ['main'],
+				outputs: ['main'],
+				credentials: [],
+				parameters: {
+					operation: { type: 'options', default: 'get', options: ['get', 'list'] },
+					options: { type: 'collection', default: {} },
+					'options.limit': { type: 'number', default: 50 },
+					fields: { type: 'fixedCollection', default: {}, multipleValues: true },
+					'fields.field.path': { type: 'string', default: '', required: true },
+				},
+			});
+		});
+
+		test('should tell parameters with the same name apart', () => {
+			const { parameters } = describeNodeType(
+				node([
+					{ ...operation, displayOptions: { show: { mode: ['one'] } } },
+					{ ...operation, type: 'multiOptions', default: [], displayOptions: { show: { mode: ['many'] } } },
+				]),
+			);
+
+			expect(Object.keys(parameters)).toEqual(['operation', 'operation@2']);
+			expect(parameters['operation@2'].type).toBe('multiOptions');
+		});
+
+		test('should produce the same contract whatever the order of keys', () => {
+			const first = describeNodeType(node([{ ...operation, default: { a: 1, b: 2 } as never }]));
+			const second = describeNodeType(node([{ ...operation, default: { b: 2, a: 1 } as never }]));
+
+			expect(JSON.stringify(first)).toBe(JSON.stringify(second));
+		});
+	});
+
+	describe('describeCredentialType()', () => {
+		test('should list the credential fields without display texts', () => {
+			const contract = describeCredentialType(new SimpleApi());
+
+			expect(contract.kind).toBe('credential');
+			expect(contract.versions).toBeUndefined();
+			expect(Object.keys(contract.parameters)).toContain('apiKey');
+			expect(JSON.stringify(contract)).not.toContain('displayName');
+		});
+	});
+
+	describe('compareContracts()', () => {
+		const before = describeNodeType(node([operation, { displayName: 'Id', name: 'id', type: 'string', default: '' }]));
+
+		test('should find no changes in the same contract', () => {
+			expect(compareContracts(before, before)).toEqual([]);
+		});
+
+		test('should accept added optional parameters, options and versions', () => {
+			const after = describeNodeType(
+				node(
+					[
+						{ ...operation, options: [...(operation.options as []), { name: 'Delete', value: 'delete' }] },
+						{ displayName: 'Id', name: 'id', type: 'string', default: '' },
+						{ displayName: 'Limit', name: 'limit', type: 'number', default: 50, required: true },
+					],
+					{ version: [1, 2] },
+				),
+			);
+
+			expect(messages(before, after)).toEqual([
+				'compatible: Version 2 was added',
+				'compatible: Parameter "operation" offers the new option "delete"',
+				'compatible: Parameter "limit" was added',
+			]);
+		});
+
+		test('should report renamed parameters and changed types, defaults and options as breaking', () => {
+			const after = describeNodeType(
+				node([
+					{ ...operation, default: 'list', options: [{ name: 'List', value: 'list' }] },
+					{ displayName: 'Id', name: 'recordId', type: 'number', default: 0 },
+				]),
+			);
+
+			expect(messages(before, after)).toEqual([
+				'breaking: Parameter "id" was removed or renamed',
+				'breaking: Parameter "operation" changed its default from "get" to "list"',
+				'breaking: Parameter "operation" no longer offers the option "get"',
+				'compatible: Parameter "recordId" was added',
+			]);
+		});
+
+		test('should report new required parameters without a default and changed types as breaking', () => {
+			const after = describeNodeType(
+				node([
+					operation,
+					{ displayName: 'Id', name: 'id', type: 'number', default: '' },
+					{ displayName: 'Key', name: 'key', type: 'string', default: '', required: true },
+				]),
+			);
+
+			expect(messages(before, after)).toEqual([
+				'breaking: Parameter "id" changed its type from string to number',
+				'breaking: Parameter "key" was added',
+			]);
+		});
+
+		test('should report removed and newly required credentials as breaking', () => {
+			const withCredentials = (credentials: INodeTypeDescription['credentials']) =>
+				describeNodeType(node([], { credentials }));
+
+			expect(
+				messages(
+					withCredentials([{ name: 'oneApi', required: false }, { name: 'twoApi' }]),
+					withCredentials([{ name: 'oneApi', required: true }, { name: 'threeApi' }]),
+				),
+			).toEqual([
+				'breaking: Credential "oneApi" became required',
+				'breaking: Credential "twoApi" was removed',
+				'compatible: Credential "threeApi" was added',
+			]);
+		});
+	});
+
+	describe('isVersionBumped()', () => {
+		test('should accept a higher node version only', () => {
+			const v1 = describeNodeType(node([]));
+			const v2 = describeNodeType(node([], { version: [1, 2] }));
+
+			expect(isVersionBumped(v1, v2)).toBe(true);
+			expect(isVersionBumped(v2, v1)).toBe(false);
+			expect(isVersionBumped(v1, v1)).toBe(false);
+		});
+
+		test('should never accept breaking credential changes', () => {
+			const credential = describeCredentialType(new SimpleApi());
+
+			expect(isVersionBumped(credential, credential)).toBe(false);
+		});
+	});
+});
@@ -0,0 +1,245 @@
+import {
+	ICredentialType,
+	IDataObject,
+	INodeProperties,
+	INodePropertyCollection,
+	INodePropertyOptions,
+	INodeTypeDescription,
+} from 'n8n-workflow';
+
+/**
+ * What saved workflows rely on for one parameter. Display names, descriptions
+ * and placeholders are left out: changing them never breaks a workflow.
+ */
+export interface ParameterContract {
+	type: string;
+	default?: unknown;
+	required?: boolean;
+	// Values of `options` and `multiOptions` parameters
+	options?: unknown[];
+	multipleValues?: boolean;
+	displayOptions?: unknown;
+}
+
+export interface TypeContract {
+	kind: 'node' | 'credential';
+	name: string;
+	// Versions the node type accepts, credential types have none
+	versions?: number[];
+	inputs?: unknown;
+	outputs?: unknown;
+	// Credential types the node uses, or the parent types a credential type extends
+	credentials?: Array<{ name: string; required: boolean }>;
+	extends?: string[];
+	// By dot-path, e.g. `options.rawBody` or `reducers.reducer.field`
+	parameters: Record<string, ParameterContract>;
+}
+
+export type ChangeKind = 'breaking' | 'compatible';
+
+export interface ContractChange {
+	kind: ChangeKind;
+	message: string;
+}
+
+// Round-trips through JSON with sorted object keys, so snapshots do not depend on property order
+const normalize = (value: unknown): unknown => {
+	if (Array.isArray(value)) return value.map(normalize);
+
+	if (value !== null && typeof value === 'object') {
+		return Object.fromEntries(
+			Object.keys(value)
+				.sort()
+				.filter((key) => (value as IDataObject)[key] !== undefined)
+				.map((key) => [key, normalize((value as IDataObject)[key])]),
+		);
+	}
+
+	return value;
+};
+
+const isOption = (option: unknown): option is INodePropertyOptions =>
+	typeof option === 'object' && option !== null && 'value' in option;
+
+const isCollection = (option: unknown): option is INodePropertyCollection =>
+	typeof option === 'object' && option !== null && 'values' in option;
+
+const describeParameter = (property: INodeProperties): ParameterContract => {
+	const options = (property.options ?? []) as unknown[];
+
+	return {
+		type: property.type,
+		default: normalize(property.default),
+		required: property.required === true ? true : undefined,
+		options: options.some(isOption)
+			? options.filter(isOption).map((option) => option.value)
+			: undefined,
+		multipleValues: property.typeOptions?.multipleValues === true ? true : undefined,
+		displayOptions: property.displayOptions ? normalize(property.displayOptions) : undefined,
+	};
+};
+
+// Parameters with the same name (alternatives shown for different settings) are told apart by `@2`, `@3`
+const collectParameters = (
+	properties: INodeProperties[],
+	prefix: string,
+	parameters: Record<string, ParameterContract>,
+) => {
+	for (const property of properties) {
+		const base = `${prefix}${property.name}`;
+		let path = base;
+
+		for (let count = 2; path in parameters; count++) path = `${base}@${count}`;
+
+		parameters[path] = describeParameter(property);
+
+		for (const option of (property.options ?? []) as unknown[]) {
+			if (isCollection(option)) {
+				collectParameters(option.values, `${path}.${option.name}.`, parameters);
+			} else if (!isOption(option)) {
+				collectParameters([option as INodeProperties], `${path}.`, parameters);
+			}
+		}
+	}
+
+	return parameters;
+};
+
+const toVersions = (version: number | number[]) => (Array.isArray(version) ? version : [version]);
+
+/** Serializes what saved workflows rely on in a node description. */
+export const describeNodeType = (description: INodeTypeDescription): TypeContract =>
+	normalize({
+		kind: 'node',
+		name: description.name,
+		versions: toVersions(description.version),
+		inputs: description.inputs,
+		outputs: description.outputs,
+		credentials: (description.credentials ?? []).map(({ name, required }) => ({
+			name,
+			required: required === true,
+		})),
+		parameters: collectParameters(description.properties, '', {}),
+	}) as TypeContract;
+
+/** Serializes what saved credentials rely on in a credential type. */
+export const describeCredentialType = (credentialType: ICredentialType): TypeContract =>
+	normalize({
+		kind: 'credential',
+		name: credentialType.name,
+		extends: credentialType.extends,
+		parameters: collectParameters(credentialType.properties, '', {}),
+	}) as TypeContract;
+
+const show = (value: unknown) => JSON.stringify(value) ?? 'nothing';
+
+const compareParameter = (path: string, before: ParameterContract, after: ParameterContract) => {
+	const changes: ContractChange[] = [];
+	const add = (kind: ChangeKind, message: string) =>
+		changes.push({ kind, message: `Parameter "${path}" ${message}` });
+
+	if (before.type !== after.type) {
+		add('breaking', `changed its type from ${before.type} to ${after.type}`);
+	}
+
+	if (show(before.default) !== show(after.default)) {
+		add('breaking', `changed its default from ${show(before.default)} to ${show(after.default)}`);
+	}
+
+	if (!before.required && after.required) add('breaking', 'became required');
+	if (before.required && !after.required) add('compatible', 'is no longer required');
+
+	for (const value of before.options ?? []) {
+		if (!after.options?.some((option) => show(option) === show(value))) {
+			add('breaking', `no longer offers the option ${show(value)}`);
+		}
+	}
+
+	for (const value of after.options ?? []) {
+		if (!before.options?.some((option) => show(option) === show(value))) {
+			add('compatible', `offers the new option ${show(value)}`);
+		}
+	}
+
+	if (Boolean(before.multipleValues) !== Boolean(after.multipleValues)) {
+		add(
+			'breaking',
+			after.multipleValues ? 'now takes multiple values' : 'no longer takes multiple values',
+		);
+	}
+
+	if (show(before.displayOptions) !== show(after.displayOptions)) {
+		add('compatible', 'is shown for other settings');
+	}
+
+	return changes;
+};
+
+/**
+ * Lists the differences between two contracts of a type. Removing or renaming
+ * parameters, changing their type, default or option values, and adding
+ * required parameters break saved workflows; everything else is compatible.
+ */
+export const compareContracts = (before: TypeContract, after: TypeContract): ContractChange[] => {
+	const changes: ContractChange[] = [];
+	const add = (kind: ChangeKind, message: string) => changes.push({ kind, message });
+
+	for (const version of before.versions ?? []) {
+		if (!after.versions?.includes(version)) add('breaking', `Version ${version} was removed`);
+	}
+
+	for (const version of after.versions ?? []) {
+		if (!before.versions?.includes(version)) add('compatible', `Version ${version} was added`);
+	}
+
+	for (const key of ['inputs', 'outputs', 'extends'] as const) {
+		if (show(before[key]) !== show(after[key])) {
+			add('breaking', `The ${key} changed from ${show(before[key])} to ${show(after[key])}`);
+		}
+	}
+
+	for (const { name, required } of before.credentials ?? []) {
+		const credential = after.credentials?.find((entry) => entry.name === name);
+
+		if (!credential) {
+			add('breaking', `Credential "${name}" was removed`);
+		} else if (!required && credential.required) {
+			add('breaking', `Credential "${name}" became required`);
+		}
+	}
+
+	for (const { name, required } of after.credentials ?? []) {
+		if (!before.credentials?.some((entry) => entry.name === name)) {
+			add(required ? 'breaking' : 'compatible', `Credential "${name}" was added`);
+		}
+	}
+
+	for (const [path, parameter] of Object.entries(before.parameters)) {
+		const current = after.parameters[path];
+
+		if (current) changes.push(...compareParameter(path, parameter, current));
+		else add('breaking', `Parameter "${path}" was removed or renamed`);
+	}
+
+	for (const [path, parameter] of Object.entries(after.parameters)) {
+		if (path in before.parameters) continue;
+
+		// A required parameter without a default cannot be filled in for saved workflows
+		const needsValue =
+			parameter.required && (parameter.default === '' || parameter.default === undefined);
+
+		add(needsValue ? 'breaking' : 'compatible', `Parameter "${path}" was added`);
+	}
+
+	return changes;
+};
+
+/**
+ * Breaking changes are only accepted together with a new node version, which
+ * keeps the old behaviour for saved workflows. Credential types have no
+ * versions, so their breaking changes need a new credential type instead.
+ */
+export const isVersionBumped = (before: TypeContract, after: TypeContract): boolean =>
+	before.versions !== undefined &&
+	after.versions !== undefined &&
+	Math.max(...after.versions) > Math.max(...before.versions);
@@ -0,0 +1,93 @@
+import {
+	ExecuteContext,
+	ExecutionLifecycleHooks,
+	RoutingNode,
+	WebhookContext,
+	WorkflowExecute,
+} from 'n8n-core';
+import {
+	ICredentialDataDecryptedObject,
+	IHttpRequestOptions,
+	INode,
+	INodeExecutionData,
+	INodeProperties,
+	INodeType,
+	IRun,
+	ITaskDataConnections,
+	IWebhookFunctions,
+	Workflow,
+} from 'n8n-workflow';
+
+import { createRequest, FakeResponse } from './harness';
+
+type WebhookContextArgs = ConstructorParameters<typeof WebhookContext>;
+type ExecuteContextArgs = ConstructorParameters<typeof ExecuteContext>;
+
+// What n8n-core declares for the values the runners hand to it
+export type CoreWorkflow = WebhookContextArgs[0];
+export type CoreNode = WebhookContextArgs[1];
+export type CoreAdditionalData = WebhookContextArgs[2];
+export type CoreWebhookData = WebhookContextArgs[4];
+export type CoreRunExecutionData = ExecuteContextArgs[4];
+export type CoreWorkflowData = ConstructorParameters<typeof ExecutionLifecycleHooks>[2];
+type CoreItems = ExecuteContextArgs[6];
+type CoreTaskData = ExecuteContextArgs[7];
+type CoreNodeType = ConstructorParameters<typeof RoutingNode>[1];
+type CoreRun = Awaited<ReturnType<WorkflowExecute['processRunExecutionData']>>;
+type CoreNodeOutput = Awaited<ReturnType<RoutingNode['runNode']>>;
+
+/** The credentials helper of the runners, n8n's own decrypts and stores credentials. */
+export interface RunnerCredentialsHelper {
+	getParentTypes: (type: string) => string[];
+	getDecrypted: (
+		additionalData: unknown,
+		nodeCredentials: unknown,
+		type: string,
+	) => Promise<ICredentialDataDecryptedObject>;
+	getCredentialsProperties: (type: string) => INodeProperties[];
+	authenticate: (
+		credentials: ICredentialDataDecryptedObject,
+		type: string,
+		requestOptions: IHttpRequestOptions,
+		workflow: unknown,
+		node: INode,
+	) => Promise<IHttpRequestOptions>;
+	preAuthentication: () => Promise<undefined>;
+	updateCredentials: () => Promise<undefined>;
+	updateCredentialsOauthTokenData?: () => Promise<undefined>;
+}
+
+/**
+ * The additional data the runners provide: what the nodes of this package use,
+ * with the fake request and response of the harness.
+ */
+export type RunnerAdditionalData = Partial<
+	Omit<CoreAdditionalData, 'credentialsHelper' | 'httpRequest' | 'httpResponse'>
+> & {
+	credentialsHelper: RunnerCredentialsHelper;
+	httpRequest?: ReturnType<typeof createRequest>;
+	httpResponse?: FakeResponse;
+};
+
+/*
+ * n8n-core bundles n8n-workflow 1.112, the nodes are built against a newer one.
+ * Plain data fits both, but classes with private members (Workflow, the node
+ * errors) and some widened unions do not. Values holding them cross between
+ * both versions here, each function only takes the one type it converts.
+ */
+
+export const toCore = {
+	workflow: (workflow: Workflow) => workflow as unknown as CoreWorkflow,
+	node: (node: INode) => node as unknown as CoreNode,
+	nodeType: (nodeType: INodeType) => nodeType as unknown as CoreNodeType,
+	items: (items: INodeExecutionData[]) => items as unknown as CoreItems,
+	taskData: (data: ITaskDataConnections) => data as unknown as CoreTaskData,
+	additionalData: (additionalData: RunnerAdditionalData) =>
+		additionalData as unknown as CoreAdditionalData,
+};
+
+export const fromCore = {
+	run: (run: CoreRun) => run as unknown as IRun,
+	nodeOutput: (output: CoreNodeOutput) => output as unknown as INodeExecutionData[][] | undefined,
+	webhookFunctions: (context: WebhookContext) => context as unknown as IWebhookFunctions,
+};
@@ -0,0 +1,28 @@
+import { ICredentialType, INodeType, IVersionedNodeType } from 'n8n-workflow';
+
+import * as customNodes from '../../src';
+
+// Versioned node types have a description too, with the versions in `nodeVersions`
+const isNodeType = (value: unknown): value is INodeType | IVersionedNodeType =>
+	typeof value === 'object' && value !== null && 'description' in value;
+
+const isCredentialType = (value: unknown): value is ICredentialType =>
+	typeof value === 'object' && value !== null && 'properties' in value && !('description' in value);
+
+// Instances of every class the sources export. n8n loads the compiled classes the
+// package.json manifest lists instead, which only `npm run build` verifies
+const packageExports = (Object.values(customNodes) as unknown[])
+	.filter((value): value is new () => unknown => typeof value === 'function')
+	.map((Export) => new Export());
+
+/** The node types the package exports, by their `description.name`. */
+export const nodeTypes = new Map(
+	packageExports.filter(isNodeType).map((nodeType) => [nodeType.description.name, nodeType]),
+);
+
+/** The credential types the package exports, by their `name`. */
+export const credentialTypes = new Map(
+	packageExports
+		.filter(isCredentialType)
+		.map((credentialType) => [credentialType.name, credentialType]),
+);
@@ -0,0 +1,172 @@
+import { HttpRespond } from '../../src/nodes/HttpRespond.node';
+import { HttpTrigger } from '../../src/nodes/HttpTrigger.node';
+import { SimpleExample } from '../../src/nodes/SimpleExample.node';
+import { createExecuteContext, createResponse, runExecute, runHook, runWebhook } from './harness';
+
+describe('test harness', () => {
+	describe('createExecuteContext()', () => {
+		test('should resolve dotted and per-item parameters with fallbacks', () => {
+			const { context } = createExecuteContext(new SimpleExample(), {
+				parameters: { message: 'hi', options: { retry: { count: 3 } } },
+				itemParameters: [{}, { message: 'second' }],
+				items: [{ json: {} }, { json: {} }],
+			});
+
+			expect(context.getNodeParameter('message', 0)).toBe('hi');
+			expect(context.getNodeParameter('message', 1)).toBe('second');
+			expect(context.getNodeParameter('options.retry.count', 0)).toBe(3);
+			expect(context.getNodeParameter('options.missing', 0, 'fallback')).toBe('fallback');
+		});
+
+		test('should describe the node and fail for credentials the fixture does not have', async () => {
+			const { context } = createExecuteContext(new SimpleExample(), {
+				credentials: { exampleApi: { apiKey: 'key' } },
+			});
+
+			expect(context.getNode()).toMatchObject({
+				name: 'Simple Example',
+				type: 'simpleExample',
+				typeVersion: 2,
+			});
+			await expect(context.getCredentials('exampleApi')).resolves.toEqual({ apiKey: 'key' });
+			await expect(context.getCredentials('otherApi')).rejects.toThrow(
+				'credentials of type "otherApi"',
+			);
+		});
+
+		test('should run the version of a versioned node the fixture asks for', async () => {
+			const items = [{ json: { id: 1 } }];
+			const v1 = await runExecute(new SimpleExample(), { node: { typeVersion: 1 }, items });
+			const latest = await runExecute(new SimpleExample(), { items });
+
+			// Without an operation version 1 wraps the items, version 2 sets fields
+			expect(v1.context.getNode().typeVersion).toBe(1);
+			expect(v1.output[0][0].json).toHaveProperty('originalData', { id: 1 });
+			expect(latest.context.getNode().typeVersion).toBe(2);
+			expect(latest.output[0][0].json).toEqual({ id: 1 });
+		});
+	});
+
+	describe('createResponse()', () => {
+		test('should record status, headers and body like the client receives them', () => {
+			const response = createResponse();
+
+			response.setHeader('X-Trace', 'abc');
+			response.status(201).json({ ok: true });
+
+			expect(response.getHeader('x-trace')).toBe('abc');
+			expect(response.recorded).toEqual({
+				statusCode: 201,
+				headers: { 'x-trace': 'abc', 'content-type': 'application/json; charset=utf-8' },
+				body: { ok: true },
+				sent: true,
+			});
+		});
+	});
+
+	describe('runExecute()', () => {
+		afterEach(() => {
+			jest.useRealTimers();
+		});
+
+		test('should add the current time to wrapped items only when enabled', async () => {
+			jest.useFakeTimers({ now: new Date('2024-05-01T12:00:00.000Z') });
+
+			const { output } = await runExecute(new SimpleExample(), {
+				parameters: { operation: 'wrap', message: 'Hello', addTimestamp: true },
+				itemParameters: [{}, { addTimestamp: false }],
+				items: [{ json: { id: 1 } }, { json: { id: 2 } }],
+			});
+
+			expect(output[0].map(item => item.json)).toEqual([
+				{ message: 'Hello', originalData: { id: 1 }, timestamp: '2024-05-01T12:00:00.000Z' },
+				{ message: 'Hello', originalData: { id: 2 } },
+			]);
+		});
+
+		test('should collect the responses HTTP Respond sends', async () => {
+			const { output, sentResponses } = await runExecute(new HttpRespond(), {
+				parameters: {
+					respondWith: 'json',
+					responseBody: '{"ok": true}',
+					options: { responseCode: 202 },
+				},
+			});
+
+			expect(sentResponses).toEqual([{ body: { ok: true }, headers: {}, statusCode: 202 }]);
+			expect(output).toEqual([[{ json: {} }]]);
+		});
+	});
+
+	describe('runWebhook()', () => {
+		const request = {
+			method: 'POST',
+			path: '/orders',
+			headers: { 'Content-Type': 'application/json' },
+			body: { id: 7 },
+		};
+
+		test('should answer onReceived requests itself and start the workflow', async () => {
+			const { result, response } = await runWebhook(new HttpTrigger(), {
+				parameters: { responseMode: 'onReceived', responseCode: 202 },
+				request,
+			});
+
+			expect(response).toMatchObject({ statusCode: 202, body: { message: 'success' }, sent: true });
+			expect(result.noWebhookResponse).toBe(true);
+			expect(result.workflowData?.[0][0].json).toMatchObject({
+				body: { id: 7 },
+				method: 'POST',
+				url: '/orders',
+			});
+		});
+
+		test.each(['lastNode', 'responseNode'])(
+			'should leave the %s response to n8n but set its headers',
+			async responseMode => {
+				const { result, response } = await runWebhook(new HttpTrigger(), {
+					parameters: {
+						responseMode,
+						options: {
+							responseHeaders: { entries: [{ name: 'X-Order', value: '{{ body.id }}' }] },
+						},
+					},
+					request,
+				});
+
+				expect(response).toEqual({ headers: { 'x-order': '7' }, sent: false });
+				expect(result.noWebhookResponse).toBeUndefined();
+				expect(result.workflowData?.[0]).toHaveLength(1);
+			},
+		);
+
+		test('should record a rejected request', async () => {
+			const { result, response } = await runWebhook(new HttpTrigger(), {
+				parameters: { authentication: 'headerAuth' },
+				credentials: { webhookHeaderAuthApi: { name: 'X-Api-Key', value: 'secret' } },
+				request: { ...request, headers: { 'X-Api-Key': 'wrong' } },
+			});
+
+			expect(result).toEqual({ noWebhookResponse: true });
+			expect(response.statusCode).toBe(403);
+			expect(response.sent).toBe(true);
+		});
+	});
+
+	describe('runHook()', () => {
+		test('should register and remove the webhook in the node static data', async () => {
+			const node = new HttpTrigger();
+			const staticData = {};
+			const fixture = { staticData, webhookUrl: 'https://n8n.example.com/webhook/orders' };
+
+			expect((await runHook(node, 'checkExists', fixture)).result).toBe(false);
+			expect((await runHook(node, 'create', fixture)).result).toBe(true);
+			expect(staticData).toEqual({ node: { webhookId: 'https://n8n.example.com/webhook/orders' } });
+			expect((await runHook(node, 'checkExists', fixture)).result).toBe(true);
+
+			await runHook(node, 'delete', fixture);
+
+			expect((await runHook(node, 'checkExists', fixture)).result).toBe(false);
+		});
+	});
+});
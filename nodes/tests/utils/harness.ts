@@ -0,0 +1,361 @@
+import { Readable } from 'stream';
+
+import { constructExecutionMetaData, returnJsonArray } from 'n8n-core';
+import {
+	IBinaryData,
+	ICredentialDataDecryptedObject,
+	IDataObject,
+	IExecuteFunctions,
+	IExecuteResponsePromiseData,
+	IHookFunctions,
+	INode,
+	INodeExecutionData,
+	INodeParameters,
+	INodeType,
+	IVersionedNodeType,
+	IWebhookFunctions,
+	IWebhookResponseData,
+	NodeHelpers,
+	NodeParameterValueType,
+} from 'n8n-workflow';
+
+// Functions of T become typed jest mocks, so both the node and the test see their real signatures
+type Mocked<T> = {
+	[K in keyof T]: T[K] extends (...args: never[]) => unknown ? jest.MockedFunction<T[K]> : T[K];
+};
+
+export interface FixtureRequest {
+	method?: string;
+	// Path of the webhook request, the query is appended to form `url`
+	path?: string;
+	headers?: Record<string, string>;
+	query?: IDataObject;
+	params?: IDataObject;
+	body?: unknown;
+	// Defaults to the JSON of `body`
+	rawBody?: Buffer | string;
+	ip?: string;
+	// Serves the raw body as the request stream instead of setting `rawBody`, like a
+	// request nothing has read yet. Reading a consumed stream fails like it does in n8n
+	stream?: boolean;
+}
+
+/**
+ * Describes everything a node sees when it runs. Parameters are shared by all
+ * items, `itemParameters[i]` overrides them for item `i`. Credentials are keyed
+ * by their type; asking for any other type fails like it does in n8n.
+ */
+export interface NodeFixture {
+	parameters?: INodeParameters;
+	itemParameters?: INodeParameters[];
+	credentials?: Record<string, ICredentialDataDecryptedObject>;
+	items?: INodeExecutionData[];
+	// Mutated in place, so it can be shared between runs like n8n's static data
+	staticData?: { global?: IDataObject; node?: IDataObject };
+	request?: FixtureRequest;
+	continueOnFail?: boolean;
+	// `typeVersion` picks the version of a versioned node type, its default version otherwise
+	node?: Partial<INode>;
+	webhookUrl?: string;
+	// Replaces or adds `this.helpers` functions, e.g. `httpRequestWithAuthentication`
+	helpers?: Record<string, unknown>;
+}
+
+/** What a webhook wrote to its response object, as the client would receive it. */
+export interface RecordedResponse {
+	statusCode?: number;
+	// Header names are lower case
+	headers: Record<string, string>;
+	body?: unknown;
+	sent: boolean;
+}
+
+export type FakeResponse = Mocked<{
+	status: (code: number) => FakeResponse;
+	json: (body: unknown) => FakeResponse;
+	send: (body: unknown) => FakeResponse;
+	end: (body?: unknown) => FakeResponse;
+	writeHead: (code: number, headers?: Record<string, string>) => FakeResponse;
+	setHeader: (name: string, value: string) => FakeResponse;
+	getHeader: (name: string) => string | undefined;
+}> & { recorded: RecordedResponse };
+
+export type ExecuteContext = Mocked<IExecuteFunctions>;
+export type WebhookContext = Mocked<IWebhookFunctions>;
+export type HookContext = Mocked<IHookFunctions>;
+
+// Resolves dotted parameter names like `options.responseHeaders` the way n8n does
+const resolveParameter = (
+	parameters: INodeParameters,
+	name: string,
+	fallback?: unknown,
+): NodeParameterValueType | object => {
+	const value = name
+		.split('.')
+		.reduce<unknown>(
+			(parent, key) =>
+				parent !== null && typeof parent === 'object' ? (parent as IDataObject)[key] : undefined,
+			parameters,
+		);
+
+	return (value === undefined ? fallback : value) as NodeParameterValueType;
+};
+
+const resolveNodeType = (nodeType: INodeType | IVersionedNodeType, fixture: NodeFixture) =>
+	NodeHelpers.getVersionedNodeType(nodeType, fixture.node?.typeVersion);
+
+const createNode = (nodeType: INodeType, fixture: NodeFixture): INode => ({
+	id: 'node-1',
+	name:
+		(nodeType.description.defaults.name as string | undefined) ?? nodeType.description.displayName,
+	type: nodeType.description.name,
+	typeVersion: Array.isArray(nodeType.description.version)
+		? Math.max(...nodeType.description.version)
+		: nodeType.description.version,
+	position: [0, 0],
+	parameters: fixture.parameters ?? {},
+	...fixture.node,
+});
+
+/** Creates a response object that records what the node sends, like an express response. */
+export const createResponse = (): FakeResponse => {
+	const recorded: RecordedResponse = { headers: {}, sent: false };
+	const response = { recorded } as FakeResponse;
+	const sendBody = (body: unknown) => {
+		if (body !== undefined) recorded.body = body;
+		recorded.statusCode ??= 200;
+		recorded.sent = true;
+
+		return response;
+	};
+
+	response.status = jest.fn((code: number) => {
+		recorded.statusCode = code;
+
+		return response;
+	});
+	response.json = jest.fn((body: unknown) => {
+		recorded.headers['content-type'] ??= 'application/json; charset=utf-8';
+
+		return sendBody(body);
+	});
+	response.send = jest.fn(sendBody);
+	response.end = jest.fn(sendBody);
+	response.writeHead = jest.fn((code: number, headers: Record<string, string> = {}) => {
+		recorded.statusCode = code;
+		for (const [name, value] of Object.entries(headers))
+			recorded.headers[name.toLowerCase()] = value;
+
+		return response;
+	});
+	response.setHeader = jest.fn((name: string, value: string) => {
+		recorded.headers[name.toLowerCase()] = value;
+
+		return response;
+	});
+	response.getHeader = jest.fn((name: string) => recorded.headers[name.toLowerCase()]);
+
+	return response;
+};
+
+// The members all contexts share: node, workflow, credentials, static data and logging
+const createBaseContext = (nodeType: INodeType, fixture: NodeFixture) => {
+	const node = createNode(nodeType, fixture);
+	const staticData = fixture.staticData ?? {};
+
+	return {
+		getNode: jest.fn(() => node),
+		getWorkflow: jest.fn(() => ({ id: 'workflow-1', name: 'Test Workflow', active: true })),
+		getMode: jest.fn(() => 'manual'),
+		getCredentials: jest.fn(async (type: string) => {
+			const credentials = fixture.credentials?.[type];
+
+			if (credentials === undefined) {
+				throw new Error(`Node "${node.name}" does not have any credentials of type "${type}" set`);
+			}
+
+			return credentials;
+		}),
+		getWorkflowStaticData: jest.fn((type: 'global' | 'node') => (staticData[type] ??= {})),
+		getNodeWebhookUrl: jest.fn(
+			(name: string) => fixture.webhookUrl ?? `http://localhost:5678/webhook/${node.id}/${name}`,
+		),
+		getTimezone: jest.fn(() => 'UTC'),
+		continueOnFail: jest.fn(() => fixture.continueOnFail ?? false),
+		logger: { debug: jest.fn(), info: jest.fn(), warn: jest.fn(), error: jest.fn() },
+	};
+};
+
+// Keeps binary data in memory as base64, like n8n's default binary data mode
+const createPrepareBinaryData = () =>
+	jest.fn(
+		async (data: Buffer, fileName?: string, mimeType?: string): Promise<IBinaryData> => ({
+			data: data.toString('base64'),
+			fileName,
+			mimeType: mimeType ?? 'application/octet-stream',
+			fileSize: String(data.length),
+		}),
+	);
+
+/**
+ * Builds the `this` of a node's execute(). Parameters are read per item and
+ * responses sent with `sendResponse` (HTTP Respond) are collected.
+ */
+export const createExecuteContext = (
+	nodeType: INodeType | IVersionedNodeType,
+	fixture: NodeFixture = {},
+) => {
+	const items = fixture.items ?? [{ json: {} }];
+	const sentResponses: IExecuteResponsePromiseData[] = [];
+
+	const context = {
+		...createBaseContext(resolveNodeType(nodeType, fixture), fixture),
+		getInputData: jest.fn(() => items),
+		getNodeParameter: jest.fn((name: string, itemIndex: number, fallback?: unknown) =>
+			resolveParameter(
+				{ ...fixture.parameters, ...fixture.itemParameters?.[itemIndex] },
+				name,
+				fallback,
+			),
+		),
+		sendResponse: jest.fn((response: IExecuteResponsePromiseData) => {
+			sentResponses.push(response);
+		}),
+		helpers: {
+			returnJsonArray: jest.fn(returnJsonArray),
+			constructExecutionMetaData: jest.fn(constructExecutionMetaData),
+			prepareBinaryData: createPrepareBinaryData(),
+			...fixture.helpers,
+		},
+	} as unknown as ExecuteContext;
+
+	return { context, sentResponses };
+};
+
+/** Creates an express-like request with lower case headers and a raw body. */
+export const createRequest = (request: FixtureRequest = {}) => {
+	const headers = Object.fromEntries(
+		Object.entries(request.headers ?? {}).map(([name, value]) => [name.toLowerCase(), value]),
+	);
+	const query = request.query ?? {};
+	const search = new URLSearchParams(query as Record<string, string>).toString();
+	const body =
+		request.rawBody ?? (request.body === undefined ? undefined : JSON.stringify(request.body));
+	const rawBody = typeof body === 'string' ? Buffer.from(body) : body;
+	const ip = request.ip ?? '127.0.0.1';
+
+	const stream = Readable.from(request.stream && rawBody ? [rawBody] : [], { objectMode: false });
+	const req = Object.assign(stream, {
+		method: request.method ?? 'POST',
+		path: request.path ?? '/webhook',
+		url: `${request.path ?? '/webhook'}${search ? `?${search}` : ''}`,
+		headers,
+		query,
+		params: request.params ?? {},
+		body: request.body,
+		rawBody: request.stream ? undefined : rawBody,
+		readRawBody: jest.fn(async () => {
+			if (!stream.readable) throw new Error('stream is not readable');
+
+			const chunks: Buffer[] = [];
+
+			for await (const chunk of stream) chunks.push(chunk as Buffer);
+			req.rawBody = Buffer.concat(chunks);
+		}),
+		ip,
+		socket: { remoteAddress: ip },
+	});
+
+	return req;
+};
+
+/**
+ * Builds the `this` of a node's webhook() around a fake request. The response
+ * object records the status, headers and body the node sends.
+ */
+export const createWebhookContext = (
+	nodeType: INodeType | IVersionedNodeType,
+	fixture: NodeFixture = {},
+) => {
+	const req = createRequest(fixture.request);
+	const response = createResponse();
+
+	const context = {
+		...createBaseContext(resolveNodeType(nodeType, fixture), fixture),
+		getNodeParameter: jest.fn((name: string, fallback?: unknown) =>
+			resolveParameter(fixture.parameters ?? {}, name, fallback),
+		),
+		getWebhookName: jest.fn(() => 'default'),
+		getRequestObject: jest.fn(() => req),
+		getResponseObject: jest.fn(() => response),
+		getHeaderData: jest.fn(() => req.headers),
+		getQueryData: jest.fn(() => req.query),
+		getParamsData: jest.fn(() => req.params),
+		getBodyData: jest.fn(() => req.body ?? {}),
+		helpers: {
+			prepareBinaryData: createPrepareBinaryData(),
+			returnJsonArray: jest.fn(returnJsonArray),
+			...fixture.helpers,
+		},
+	} as unknown as WebhookContext;
+
+	return { context, response };
+};
+
+/** Builds the `this` of the webhook methods n8n calls on activation. */
+export const createHookContext = (
+	nodeType: INodeType | IVersionedNodeType,
+	fixture: NodeFixture = {},
+) => {
+	const context = {
+		...createBaseContext(resolveNodeType(nodeType, fixture), fixture),
+		getNodeParameter: jest.fn((name: string, fallback?: unknown) =>
+			resolveParameter(fixture.parameters ?? {}, name, fallback),
+		),
+		getWebhookName: jest.fn(() => 'default'),
+		getActivationMode: jest.fn(() => 'activate'),
+		helpers: { ...fixture.helpers },
+	} as unknown as HookContext;
+
+	return { context };
+};
+
+/** Runs execute() of a node and returns its outputs and any responses it sent. */
+export const runExecute = async (
+	nodeType: INodeType | IVersionedNodeType,
+	fixture: NodeFixture = {},
+) => {
+	const { context, sentResponses } = createExecuteContext(nodeType, fixture);
+	const output = await resolveNodeType(nodeType, fixture).execute!.call(context);
+
+	return { output: output as INodeExecutionData[][], sentResponses, context };
+};
+
+/** Runs webhook() of a node and returns its result and the recorded HTTP response. */
+export const runWebhook = async (
+	nodeType: INodeType | IVersionedNodeType,
+	fixture: NodeFixture = {},
+): Promise<{
+	result: IWebhookResponseData;
+	response: RecordedResponse;
+	context: WebhookContext;
+}> => {
+	const { context, response } = createWebhookContext(nodeType, fixture);
+	const result = await resolveNodeType(nodeType, fixture).webhook!.call(context);
+
+	return { result, response: response.recorded, context };
+};
+
+/** Runs one of the `default` webhook methods, e.g. `create` on activation. */
+export const runHook = async (
+	nodeType: INodeType | IVersionedNodeType,
+	method: 'checkExists' | 'create' | 'delete',
+	fixture: NodeFixture = {},
+) => {
+	const { context } = createHookContext(nodeType, fixture);
+	const result = await resolveNodeType(nodeType, fixture).webhookMethods!.default![method].call(
+		context,
+	);
+
+	return { result, context };
+};
@@ -0,0 +1,146 @@
+import { createServer, IncomingHttpHeaders, RequestListener } from 'http';
+import { createServer as createTlsServer, ServerOptions } from 'https';
+import { AddressInfo } from 'net';
+
+export interface RecordedRequest {
+	method: string;
+	path: string;
+	query: Record<string, string>;
+	headers: IncomingHttpHeaders;
+	body: unknown;
+}
+
+export interface MockResponse {
+	status?: number;
+	headers?: Record<string, string>;
+	body?: unknown;
+}
+
+export interface MockServer {
+	url: string;
+	requests: RecordedRequest[];
+	close: () => Promise<void>;
+}
+
+// Parses JSON and form-encoded request bodies
+const parseBody = (raw: string, contentType = ''): unknown => {
+	if (raw === '') return undefined;
+
+	if (contentType.startsWith('application/x-www-form-urlencoded')) {
+		return Object.fromEntries(new URLSearchParams(raw));
+	}
+
+	return JSON.parse(raw);
+};
+
+/**
+ * Starts an HTTP server on a random local port. Every request is recorded and
+ * answered by the handler, JSON bodies are parsed both ways.
+ * With `tls` options (certificate, key, client certificate checks) it serves HTTPS.
+ */
+export const startMockServer = async (
+	handler: (request: RecordedRequest) => MockResponse | Promise<MockResponse>,
+	tls?: ServerOptions,
+): Promise<MockServer> => {
+	const requests: RecordedRequest[] = [];
+
+	const listener: RequestListener = async (req, res) => {
+		const chunks: Buffer[] = [];
+
+		for await (const chunk of req) chunks.push(chunk as Buffer);
+
+		const raw = Buffer.concat(chunks).toString();
+		const url = new URL(req.url ?? '/', 'http://localhost');
+		const request: RecordedRequest = {
+			method: req.method ?? 'GET',
+			path: url.pathname,
+			query: Object.fromEntries(url.searchParams),
+			headers: req.headers,
+			body: parseBody(raw, req.headers['content-type']),
+		};
+
+		requests.push(request);
+
+		const { status = 200, headers = {}, body } = await handler(request);
+
+		res.writeHead(status, {
+			...(body === undefined ? {} : { 'Content-Type': 'application/json' }),
+			...headers,
+		});
+		res.end(body === undefined ? undefined : JSON.stringify(body));
+	};
+	const server = tls ? createTlsServer(tls, listener) : createServer(listener);
+
+	await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+
+	const { port } = server.address() as AddressInfo;
+
+	return {
+		url: `${tls ? 'https' : 'http'}://127.0.0.1:${port}`,
+		requests,
+		close: async () =>
+			await new Promise<void>((resolve) => {
+				server.close(() => resolve());
+				// Keep-alive connections of HTTP clients would hold the server open
+				server.closeAllConnections();
+			}),
+	};
+};
+
+/**
+ * Sends request-style options (uri, qs, body, form, json) over the network and fails
+ * like n8n's request helpers do: with `statusCode`, the parsed body in `error` and
+ * the status and headers in `response`.
+ * With `resolveWithFullResponse` the body, headers and status code are returned.
+ */
+export const sendRequest = async (options: {
+	method?: string;
+	uri?: string;
+	url?: string;
+	qs?: Record<string, unknown>;
+	headers?: Record<string, unknown>;
+	body?: unknown;
+	form?: Record<string, unknown>;
+	resolveWithFullResponse?: boolean;
+}): Promise<unknown> => {
+	const url = new URL((options.uri ?? options.url) as string);
+
+	for (const [key, value] of Object.entries(options.qs ?? {})) {
+		url.searchParams.set(key, String(value));
+	}
+
+	const form =
+		options.form &&
+		new URLSearchParams(Object.entries(options.form).map(([key, value]): [string, string] => [key, String(value)]));
+	const response = await fetch(url, {
+		method: options.method ?? 'GET',
+		headers: {
+			...(options.headers as Record<string, string>),
+			...(options.body === undefined ? {} : { 'Content-Type': 'application/json' }),
+		},
+		body: form ?? (options.body === undefined ? undefined : JSON.stringify(options.body)),
+	});
+	const text = await response.text();
+	const body = text === '' ? '' : JSON.parse(text);
+
+	if (response.status >= 400) {
+		throw Object.assign(new Error(`${response.status} - ${text}`), {
+			statusCode: response.status,
+			error: body,
+			response: {
+				status: response.status,
+				headers: Object.fromEntries(response.headers),
+			},
+		});
+	}
+
+	if (options.resolveWithFullResponse) {
+		return {
+			body,
+			headers: Object.fromEntries(response.headers),
+			statusCode: response.status,
+		};
+	}
+
+	return body;
+};
@@ -0,0 +1,54 @@
+import { getPath, hasPath, parsePath, parsePathList, pickPaths, setPath, unsetPath } from '../../src/utils/objectPath';
+
+describe('Object paths', () => {
+	test('should parse dot-paths with array indexes', () => {
+		expect(parsePath('items[0].name')).toEqual(['items', '0', 'name']);
+		expect(parsePath(' a . b ')).toEqual(['a', 'b']);
+		expect(getPath({ items: [{ name: 'x' }] }, 'items.0.name')).toBe('x');
+		expect(getPath({ a: 1 }, 'a.b')).toBeUndefined();
+	});
+
+	test('should create missing objects and arrays when setting', () => {
+		const data: Record<string, any> = { a: 'replaced' };
+
+		setPath(data, 'a.b', 1);
+		setPath(data, 'list[1].id', 2);
+
+		expect(data).toEqual({ a: { b: 1 }, list: [undefined, { id: 2 }] });
+		expect(() => setPath(data, '', 1)).toThrow('The field path is empty');
+	});
+
+	test('should remove object keys and array entries', () => {
+		const data = { a: { b: 1, c: 2 }, list: ['x', 'y', 'z'] };
+
+		unsetPath(data, 'a.b');
+		unsetPath(data, 'list[1]');
+		unsetPath(data, 'missing.path');
+
+		expect(data).toEqual({ a: { c: 2 }, list: ['x', 'z'] });
+	});
+
+	test('should tell missing paths apart from undefined values', () => {
+		expect(hasPath({ a: { b: undefined } }, 'a.b')).toBe(true);
+		expect(hasPath({ a: 1 }, 'a.b')).toBe(false);
+		expect(parsePathList('a, b.c ,, d[0]')).toEqual(['a', 'b.c', 'd[0]']);
+	});
+
+	test('should never read or write through the object prototype', () => {
+		const data: Record<string, any> = {};
+
+		expect(() => setPath(data, '__proto__.polluted', 'yes')).toThrow('must not contain "__proto__"');
+		expect(() => setPath(data, 'a.constructor.prototype.polluted', 'yes')).toThrow('must not contain "constructor"');
+		expect(() => unsetPath(data, 'constructor.prototype.toString')).toThrow('must not contain');
+		expect(({} as Record<string, unknown>).polluted).toBeUndefined();
+		expect(getPath(data, 'constructor')).toBeUndefined();
+		expect(hasPath(data, 'toString')).toBe(false);
+	});
+
+	test('should pick paths keeping their nesting', () => {
+		expect(pickPaths({ a: { b: 1, c: 2 }, d: null, e: 3 }, ['a.b', 'd', 'missing'])).toEqual({
+			a: { b: 1 },
+			d: null,
+		});
+	});
+});
@@ -0,0 +1,181 @@
+import {
+	extractItems,
+	PageRequest,
+	PageResponse,
+	paginate,
+	PaginationOptions,
+	parseLinkHeader,
+} from '../../src/utils/pagination';
+
+describe('Pagination', () => {
+	const collect = async (
+		fetchPage: (request: PageRequest) => Promise<PageResponse>,
+		options: Partial<PaginationOptions>,
+	) => {
+		const pages = [];
+
+		for await (const page of paginate(fetchPage, {
+			style: 'offset',
+			pageSize: 2,
+			maxPages: 10,
+			...options,
+		})) {
+			pages.push(page.map((item) => item.id));
+		}
+
+		return pages;
+	};
+
+	const records = Array.from({ length: 5 }, (_, index) => ({ id: index + 1 }));
+
+	describe('extractItems', () => {
+		test('should find the item list', () => {
+			expect(extractItems([{ id: 1 }])).toEqual([{ id: 1 }]);
+			expect(extractItems({ results: [{ id: 1 }] })).toEqual([{ id: 1 }]);
+			expect(extractItems({ meta: { users: [{ id: 1 }] } }, 'meta.users')).toEqual([{ id: 1 }]);
+			expect(extractItems({ id: 1 })).toEqual([{ id: 1 }]);
+			expect(extractItems('')).toEqual([]);
+		});
+	});
+
+	describe('parseLinkHeader', () => {
+		test('should parse relations', () => {
+			expect(
+				parseLinkHeader(
+					'<https://api.test/items?page=2>; rel="next", <https://api.test/items?page=9>; rel=last',
+				),
+			).toEqual({
+				next: 'https://api.test/items?page=2',
+				last: 'https://api.test/items?page=9',
+			});
+			expect(parseLinkHeader(undefined)).toEqual({});
+		});
+	});
+
+	describe('paginate', () => {
+		test('should page by offset until a short page', async () => {
+			const requests: PageRequest[] = [];
+			const pages = await collect(async (request) => {
+				requests.push(request);
+				const offset = request.qs.offset as number;
+
+				return { body: records.slice(offset, offset + 2), headers: {} };
+			}, {});
+
+			expect(pages).toEqual([[1, 2], [3, 4], [5]]);
+			expect(requests.map((request) => request.qs)).toEqual([
+				{ limit: 2, offset: 0 },
+				{ limit: 2, offset: 2 },
+				{ limit: 2, offset: 4 },
+			]);
+		});
+
+		test('should page by page number with custom parameter names', async () => {
+			const requests: PageRequest[] = [];
+			const pages = await collect(
+				async (request) => {
+					requests.push(request);
+					const page = request.qs.p as number;
+
+					return { body: { data: records.slice(page * 2, page * 2 + 2) }, headers: {} };
+				},
+				{ style: 'page', pageParameter: 'p', limitParameter: 'per_page', firstPage: 0 },
+			);
+
+			expect(pages).toEqual([[1, 2], [3, 4], [5]]);
+			expect(requests[1].qs).toEqual({ per_page: 2, p: 1 });
+		});
+
+		test('should follow cursors until none is returned', async () => {
+			const pages = await collect(
+				async (request) => {
+					const start = Number(request.qs.token ?? 0);
+
+					return {
+						body: {
+							items: records.slice(start, start + 2),
+							meta: { next: start + 2 < records.length ? String(start + 2) : null },
+						},
+						headers: {},
+					};
+				},
+				{ style: 'cursor', cursorParameter: 'token', nextCursorPath: 'meta.next' },
+			);
+
+			expect(pages).toEqual([[1, 2], [3, 4], [5]]);
+		});
+
+		test('should follow relative Link headers', async () => {
+			const urls: Array<string | undefined> = [];
+			const pages = await collect(
+				async (request) => {
+					urls.push(request.url);
+					const page = request.url ? Number(new URL(request.url).searchParams.get('page')) : 1;
+
+					return {
+						body: records.slice((page - 1) * 2, page * 2),
+						headers: page < 3 ? { Link: `</items?page=${page + 1}>; rel="next"` } : {},
+						url: request.url ?? 'https://api.test/items',
+					};
+				},
+				{ style: 'linkHeader' },
+			);
+
+			expect(pages).toEqual([[1, 2], [3, 4], [5]]);
+			expect(urls).toEqual([
+				undefined,
+				'https://api.test/items?page=2',
+				'https://api.test/items?page=3',
+			]);
+		});
+
+		test('should stop when a Link header or cursor points back to a page already requested', async () => {
+			const linked = jest.fn(async (request: PageRequest) => ({
+				body: records.slice(0, 2),
+				headers: { Link: `</items?page=${request.url ? 1 : 2}>; rel="next"` },
+				url: request.url ?? 'https://api.test/items',
+			}));
+			const cursored = jest.fn(async () => ({
+				body: { items: records.slice(0, 2), next_cursor: 'same' },
+				headers: {},
+			}));
+
+			expect(await collect(linked, { style: 'linkHeader' })).toHaveLength(3);
+			expect(linked).toHaveBeenLastCalledWith({ url: 'https://api.test/items?page=1', qs: {} });
+			expect(await collect(cursored, { style: 'cursor' })).toHaveLength(2);
+		});
+
+		test('should refuse Link headers to other hosts', async () => {
+			const fetchPage = jest.fn(async () => ({
+				body: records.slice(0, 2),
+				headers: { Link: '<https://attacker.test/items?page=2>; rel="next"' },
+				url: 'https://api.test/items',
+			}));
+
+			await expect(collect(fetchPage, { style: 'linkHeader' })).rejects.toThrow(
+				'The API linked the next page to https://attacker.test, other hosts than https://api.test are not followed',
+			);
+			expect(fetchPage).toHaveBeenCalledTimes(1);
+		});
+
+		test('should stop at the limit', async () => {
+			const fetchPage = jest.fn(async (request: PageRequest) => {
+				const offset = request.qs.offset as number;
+
+				return { body: records.slice(offset, offset + (request.qs.limit as number)), headers: {} };
+			});
+
+			expect(await collect(fetchPage, { limit: 3 })).toEqual([[1, 2], [3]]);
+			expect(fetchPage).toHaveBeenCalledTimes(2);
+			expect(await collect(fetchPage, { limit: 1 })).toEqual([[1]]);
+			expect(fetchPage).toHaveBeenLastCalledWith({ qs: { limit: 1, offset: 0 } });
+		});
+
+		test('should stop at the page cap', async () => {
+			const fetchPage = jest.fn(async () => ({ body: [{ id: 1 }, { id: 2 }], headers: {} }));
+
+			expect(await collect(fetchPage, { maxPages: 3 })).toHaveLength(3);
+			expect(fetchPage).toHaveBeenCalledTimes(3);
+		});
+	});
+});
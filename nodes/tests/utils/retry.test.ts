@@ -0,0 +1,235 @@
+import { Logger } from 'n8n-workflow';
+
+import {
+	backoffDelay,
+	checkCircuit,
+	CircuitOpenError,
+	CircuitStore,
+	getRetryAfter,
+	getStatusCode,
+	isRetryableError,
+	recordFailure,
+	RetrySettings,
+	withRetry,
+} from '../../src/utils/retry';
+
+const httpError = (status: number, headers: Record<string, string> = {}) =>
+	Object.assign(new Error(`${status} - {}`), {
+		statusCode: status,
+		response: { status, headers },
+	});
+
+describe('Retry', () => {
+	describe('error classification', () => {
+		test('should find the status code along the cause chain', () => {
+			const wrapped = Object.assign(new Error('wrapped'), { cause: httpError(503) });
+
+			expect(getStatusCode(wrapped)).toBe(503);
+			expect(getStatusCode({ httpCode: '429' })).toBe(429);
+			expect(getStatusCode({ httpCode: 'ECONNREFUSED' })).toBeUndefined();
+		});
+
+		test('should retry rate limits, server and network errors only', () => {
+			expect(isRetryableError(httpError(429))).toBe(true);
+			expect(isRetryableError(httpError(502))).toBe(true);
+			expect(isRetryableError(httpError(404))).toBe(false);
+			expect(isRetryableError({ code: 'ECONNRESET' })).toBe(true);
+			expect(
+				isRetryableError(new TypeError('fetch failed', { cause: { code: 'ECONNREFUSED' } })),
+			).toBe(true);
+			expect(isRetryableError(new Error('Invalid URL'))).toBe(false);
+		});
+
+		test('should retry POST and PATCH only when the server cannot have handled them', () => {
+			expect(isRetryableError(httpError(429), 'POST')).toBe(true);
+			expect(isRetryableError({ code: 'ECONNREFUSED' }, 'post')).toBe(true);
+			expect(isRetryableError(httpError(502), 'POST')).toBe(false);
+			expect(isRetryableError({ code: 'ECONNRESET' }, 'PATCH')).toBe(false);
+			expect(isRetryableError(httpError(502), 'PUT')).toBe(true);
+			expect(isRetryableError({ code: 'ETIMEDOUT' }, 'DELETE')).toBe(true);
+		});
+
+		test('should read Retry-After in seconds and as a date', () => {
+			const now = Date.parse('2024-01-01T00:00:00Z');
+
+			expect(getRetryAfter(httpError(429, { 'retry-after': '3' }), now)).toBe(3000);
+			expect(
+				getRetryAfter(httpError(503, { 'Retry-After': 'Mon, 01 Jan 2024 00:00:10 GMT' }), now),
+			).toBe(10000);
+			expect(getRetryAfter(httpError(503), now)).toBeUndefined();
+		});
+	});
+
+	describe('backoffDelay', () => {
+		const settings: RetrySettings = { maxRetries: 5, initialDelay: 100, maxDelay: 1000 };
+
+		test('should double the upper bound per attempt and cap it', () => {
+			expect([0, 1, 2, 3, 4].map((attempt) => backoffDelay(attempt, settings, () => 1))).toEqual([
+				100, 200, 400, 800, 1000,
+			]);
+		});
+
+		test('should apply jitter', () => {
+			expect(backoffDelay(2, settings, () => 0.5)).toBe(200);
+			expect(backoffDelay(2, settings, () => 0)).toBe(0);
+		});
+	});
+
+	describe('circuit breaker', () => {
+		test('should open after the threshold and allow a trial after the timeout', () => {
+			const store: CircuitStore = new Map();
+			const settings = { failureThreshold: 2, resetTimeout: 1000 };
+
+			recordFailure(store, 'cred', settings, 0);
+			expect(checkCircuit(store, 'cred', 0)).toBe(0);
+
+			recordFailure(store, 'cred', settings, 0);
+			expect(checkCircuit(store, 'cred', 400)).toBe(600);
+			expect(checkCircuit(store, 'cred', 1000)).toBe(0);
+			expect(checkCircuit(store, 'other', 400)).toBe(0);
+		});
+	});
+
+	describe('withRetry', () => {
+		const settings: RetrySettings = { maxRetries: 3, initialDelay: 100, maxDelay: 5000 };
+		let logger: jest.Mocked<Logger>;
+		let sleeps: number[];
+
+		const hooks = () => ({
+			logger,
+			sleep: async (ms: number) => {
+				sleeps.push(ms);
+			},
+			random: () => 1,
+		});
+
+		const failing = (...results: unknown[]) => {
+			const request = jest.fn();
+
+			for (const result of results) {
+				if (result instanceof Error) {
+					request.mockRejectedValueOnce(result);
+				} else {
+					request.mockResolvedValueOnce(result);
+				}
+			}
+
+			return request;
+		};
+
+		beforeEach(() => {
+			logger = { warn: jest.fn(), debug: jest.fn(), info: jest.fn(), error: jest.fn() };
+			sleeps = [];
+		});
+
+		test('should retry with exponential backoff until the request succeeds', async () => {
+			const request = failing(httpError(500), httpError(503), 'ok');
+
+			await expect(
+				withRetry(request, settings, { ...hooks(), metadata: { node: 'n' } }),
+			).resolves.toBe('ok');
+			expect(request).toHaveBeenCalledTimes(3);
+			expect(sleeps).toEqual([100, 200]);
+			expect(logger.warn).toHaveBeenCalledWith('Request failed with HTTP 500, retrying in 100ms', {
+				node: 'n',
+				attempt: 1,
+				maxRetries: 3,
+				delay: 100,
+				reason: 'HTTP 500',
+			});
+		});
+
+		test('should wait as long as Retry-After asks', async () => {
+			const request = failing(httpError(429, { 'retry-after': '2' }), 'ok');
+
+			await withRetry(request, settings, hooks());
+
+			expect(sleeps).toEqual([2000]);
+		});
+
+		test('should not retry when Retry-After exceeds the maximum delay', async () => {
+			const error = httpError(429, { 'retry-after': '60' });
+
+			await expect(withRetry(failing(error), settings, hooks())).rejects.toBe(error);
+			expect(sleeps).toEqual([]);
+		});
+
+		test('should fail right away on client errors', async () => {
+			const error = httpError(400);
+			const request = failing(error);
+
+			await expect(withRetry(request, settings, hooks())).rejects.toBe(error);
+			expect(request).toHaveBeenCalledTimes(1);
+			expect(logger.warn).not.toHaveBeenCalled();
+		});
+
+		test('should not resend a POST the server may have handled', async () => {
+			const error = httpError(500);
+			const request = failing(error, 'ok');
+
+			await expect(withRetry(request, settings, { ...hooks(), method: 'POST' })).rejects.toBe(error);
+			expect(request).toHaveBeenCalledTimes(1);
+
+			const limited = failing(httpError(429), 'ok');
+
+			await expect(withRetry(limited, settings, { ...hooks(), method: 'POST' })).resolves.toBe('ok');
+			expect(limited).toHaveBeenCalledTimes(2);
+		});
+
+		test('should give up after the maximum number of retries', async () => {
+			const request = jest.fn().mockRejectedValue(httpError(500));
+
+			await expect(withRetry(request, settings, hooks())).rejects.toThrow('500');
+			expect(request).toHaveBeenCalledTimes(4);
+			expect(logger.warn).toHaveBeenLastCalledWith(
+				'Request failed with HTTP 500, giving up after 3 retries',
+				{ attempt: 4, reason: 'HTTP 500' },
+			);
+		});
+
+		test('should share the retry budget between requests', async () => {
+			const budget = { remaining: 2 };
+			const request = jest.fn().mockRejectedValue(httpError(500));
+
+			await expect(withRetry(request, settings, { ...hooks(), budget })).rejects.toThrow();
+			await expect(withRetry(request, settings, { ...hooks(), budget })).rejects.toThrow();
+
+			expect(request).toHaveBeenCalledTimes(4);
+			expect(budget.remaining).toBe(0);
+		});
+
+		test('should refuse requests once the circuit opened', async () => {
+			const circuit = {
+				store: new Map(),
+				key: 'credential-1',
+				settings: { failureThreshold: 2, resetTimeout: 30000 },
+			};
+			const request = jest.fn().mockRejectedValue(httpError(502));
+
+			await expect(withRetry(request, settings, { ...hooks(), circuit })).rejects.toThrow('502');
+			expect(request).toHaveBeenCalledTimes(2);
+
+			const error = await withRetry(request, settings, { ...hooks(), circuit }).catch(
+				(e: unknown) => e,
+			);
+
+			expect(error).toBeInstanceOf(CircuitOpenError);
+			expect((error as CircuitOpenError).message).toBe(
+				'Too many failed requests, new requests are paused for 30s',
+			);
+			expect(request).toHaveBeenCalledTimes(2);
+		});
+
+		test('should close the circuit after a successful request', async () => {
+			const circuit = {
+				store: new Map([['credential-1', { failures: 1 }]]),
+				key: 'credential-1',
+				settings: { failureThreshold: 2, resetTimeout: 30000 },
+			};
+
+			await withRetry(failing('ok'), settings, { ...hooks(), circuit });
+
+			expect(circuit.store.size).toBe(0);
+		});
+	});
+});
@@ -0,0 +1,222 @@
+import { Container } from '@n8n/di';
+import { ExecuteContext, RoutingNode } from 'n8n-core';
+import { SSHClientsManager } from 'n8n-core/dist/execution-engine/ssh-clients-manager';
+import {
+	ICredentialDataDecryptedObject,
+	ICredentialTestRequest,
+	ICredentialType,
+	IDataObject,
+	IHttpRequestOptions,
+	INode,
+	INodeExecutionData,
+	INodeParameters,
+	INodeType,
+	Workflow,
+} from 'n8n-workflow';
+import { tmpdir } from 'os';
+import { join } from 'path';
+
+import { CoreRunExecutionData, fromCore, RunnerAdditionalData, toCore } from './core';
+
+// n8n-core keeps its settings in the user folder, which must not be the home directory in tests
+process.env.N8N_USER_FOLDER ??= join(tmpdir(), 'n8n-r8-tests');
+process.env.N8N_ENFORCE_SETTINGS_FILE_PERMISSIONS ??= 'false';
+
+export interface RoutingCase {
+	parameters: INodeParameters;
+	credentials?: ICredentialDataDecryptedObject;
+	items?: INodeExecutionData[];
+}
+
+// Applies a generic `authenticate` block the way n8n's credentials helper does
+export const authenticate = (
+	credentialType: ICredentialType | undefined,
+	credentials: ICredentialDataDecryptedObject,
+	requestOptions: IHttpRequestOptions,
+	workflow: Workflow,
+	node: INode,
+) => {
+	const auth = credentialType?.authenticate;
+
+	if (auth === undefined) return requestOptions;
+
+	if (typeof auth === 'function') return auth(credentials, requestOptions);
+
+	const resolve = (value: unknown) =>
+		typeof value === 'string' && value.startsWith('=')
+			? workflow.expression.getSimpleParameterValue(
+					node,
+					value,
+					'internal',
+					{ $credentials: credentials },
+					undefined,
+					'',
+				)
+			: value;
+
+	for (const [target, values] of Object.entries(auth.properties as IDataObject)) {
+		if (target === 'auth') {
+			const { username, password } = values as IDataObject;
+
+			requestOptions.auth = {
+				username: resolve(username) as string,
+				password: resolve(password) as string,
+			};
+			continue;
+		}
+
+		const options = requestOptions as unknown as Record<string, IDataObject | undefined>;
+
+		options[target] ??= {};
+
+		for (const [key, value] of Object.entries(values as IDataObject)) {
+			options[target][resolve(key) as string] = resolve(value) as string;
+		}
+	}
+
+	return requestOptions;
+};
+
+/**
+ * Runs a declarative node through n8n-core's RoutingNode, so the requests are
+ * built by n8n itself from the node's `routing` metadata.
+ */
+export const runRoutingNode = async (
+	nodeType: INodeType,
+	{ parameters, credentials = {}, items = [{ json: {} }] }: RoutingCase,
+	credentialType?: ICredentialType,
+): Promise<INodeExecutionData[][] | undefined> => {
+	const { description } = nodeType;
+	const node: INode = {
+		id: 'node-1',
+		name: description.defaults.name ?? description.displayName,
+		type: description.name,
+		typeVersion: Array.isArray(description.version)
+			? Math.max(...description.version)
+			: description.version,
+		position: [0, 0],
+		parameters,
+		credentials: Object.fromEntries(
+			(description.credentials ?? []).map(({ name }) => [name, { id: '1', name }]),
+		),
+	};
+	const workflow = new Workflow({
+		nodes: [node],
+		connections: {},
+		active: false,
+		nodeTypes: {
+			getByName: () => nodeType,
+			getByNameAndVersion: () => nodeType,
+			getKnownTypes: () => ({}),
+		},
+	});
+	const additionalData: RunnerAdditionalData = {
+		variables: {},
+		restApiUrl: '',
+		webhookBaseUrl: '',
+		instanceBaseUrl: '',
+		credentialsHelper: {
+			getParentTypes: () => [],
+			getDecrypted: async () => credentials,
+			getCredentialsProperties: () => credentialType?.properties ?? [],
+			preAuthentication: async () => undefined,
+			updateCredentials: async () => undefined,
+			authenticate: async (
+				decrypted: ICredentialDataDecryptedObject,
+				_typeName: string,
+				requestOptions: IHttpRequestOptions,
+			) => authenticate(credentialType, decrypted, requestOptions, workflow, node),
+		},
+	};
+	const inputData = toCore.taskData({ main: [items] });
+	const runExecutionData: CoreRunExecutionData = { resultData: { runData: {} } };
+
+	const context = new ExecuteContext(
+		toCore.workflow(workflow),
+		toCore.node(node),
+		toCore.additionalData(additionalData),
+		'manual',
+		runExecutionData,
+		0,
+		toCore.items(items),
+		inputData,
+		{ node: toCore.node(node), data: inputData, source: null },
+		[],
+	);
+
+	return fromCore.nodeOutput(await new RoutingNode(context, toCore.nodeType(nodeType)).runNode());
+};
+
+/**
+ * Stops the background timers n8n-core starts on first use, so that Jest can exit.
+ */
+export const shutdownRoutingNode = () => {
+	Container.get(SSHClientsManager).onShutdown();
+};
+
+/**
+ * Runs the declarative `test` of a credential type the way n8n's credentials
+ * tester does: the request goes through RoutingNode, `responseCode` rules are
+ * checked on failed requests and `responseSuccessBody` rules on the response.
+ */
+export const runCredentialTestRequest = async (
+	credentialType: ICredentialType,
+	credentials: ICredentialDataDecryptedObject,
+): Promise<{ status: 'OK' | 'Error'; message: string }> => {
+	const test = credentialType.test as ICredentialTestRequest;
+	const rules = (test.rules ?? []) as Array<{ type: string; properties: IDataObject }>;
+	const nodeType: INodeType = {
+		description: {
+			displayName: 'Credential Test',
+			name: 'credentialTest',
+			group: ['transform'],
+			version: 1,
+			description: '',
+			defaults: {},
+			inputs: ['main'],
+			outputs: ['main'],
+			credentials: [{ name: credentialType.name, required: true }],
+			properties: [
+				{
+					displayName: 'Temp',
+					name: 'temp',
+					type: 'hidden',
+					default: '',
+					routing: { request: test.request },
+				},
+			],
+		} as INodeType['description'],
+	};
+
+	let json: IDataObject;
+
+	try {
+		const output = await runRoutingNode(nodeType, { parameters: {}, credentials }, credentialType);
+
+		json = output?.[0]?.[0]?.json ?? {};
+	} catch (error) {
+		const { httpCode, cause, message } = error as {
+			httpCode?: string | null;
+			cause?: { code?: string };
+			message: string;
+		};
+
+		if (httpCode) {
+			const rule = rules.find(
+				({ type, properties }) => type === 'responseCode' && String(properties.value) === httpCode,
+			);
+
+			return { status: 'Error', message: (rule?.properties.message as string | undefined) ?? message };
+		}
+
+		return { status: 'Error', message: cause?.code ?? message };
+	}
+
+	for (const { type, properties } of rules) {
+		if (type === 'responseSuccessBody' && json[properties.key as string] === properties.value) {
+			return { status: 'Error', message: properties.message as string };
+		}
+	}
+
+	return { status: 'OK', message: 'Connection successful' };
+};
@@ -0,0 +1,272 @@
+import { ExecutionLifecycleHooks, WebhookContext, WorkflowExecute } from 'n8n-core';
+import {
+	ICredentialDataDecryptedObject,
+	IConnections,
+	IDataObject,
+	IExecuteResponsePromiseData,
+	IHttpRequestMethods,
+	IHttpRequestOptions,
+	INode,
+	INodeExecutionData,
+	INodeType,
+	IRun,
+	IWebhookResponseData,
+	IWorkflowSettings,
+	NodeHelpers,
+	Workflow,
+} from 'n8n-workflow';
+import { readFileSync } from 'fs';
+
+import { credentialTypes, nodeTypes } from './customNodes';
+import { createRequest, createResponse, FixtureRequest, RecordedResponse } from './harness';
+import {
+	CoreRunExecutionData,
+	CoreWebhookData,
+	CoreWorkflowData,
+	fromCore,
+	RunnerAdditionalData,
+	toCore,
+} from './core';
+import { authenticate } from './routing';
+
+/** The parts of an exported workflow JSON the runner needs. */
+export interface WorkflowFile {
+	id?: string;
+	name?: string;
+	nodes: INode[];
+	connections: IConnections;
+	settings?: IWorkflowSettings;
+	staticData?: IDataObject;
+}
+
+export interface WorkflowRunOptions {
+	// Decrypted credentials by type, for nodes that reference credentials of that type
+	credentials?: Record<string, ICredentialDataDecryptedObject>;
+	// Fires the webhook of the start node with this request
+	request?: FixtureRequest;
+	// Input of the start node when the workflow does not start with a webhook
+	items?: INodeExecutionData[];
+	// Defaults to the first node without incoming connections
+	startNode?: string;
+}
+
+export interface WorkflowRunResult {
+	// Missing when the webhook answered without starting the workflow
+	run?: IRun;
+	// Output of the last run of every executed node, per output
+	outputs: Record<string, INodeExecutionData[][]>;
+	executedNodes: string[];
+	// What the client that sent `request` receives, however the workflow answered
+	response?: RecordedResponse;
+	webhookResult?: IWebhookResponseData;
+}
+
+// Node types are used in workflows as `CUSTOM.<name>` when mounted into n8n's
+// custom folder, or with the package name when installed as a community package
+const typePrefixes = ['CUSTOM', 'n8n-r8-custom-nodes'];
+
+// Versioned node types resolve to the class of the version, the latest without one
+const getNodeType = (type: string, version?: number): INodeType => {
+	const [prefix, name] = type.split('.');
+	const nodeType = typePrefixes.includes(prefix) ? nodeTypes.get(name) : undefined;
+
+	if (nodeType === undefined) {
+		throw new Error(
+			`Unknown node type "${type}", the runner only knows ${typePrefixes[0]}.<name> nodes of this package`,
+		);
+	}
+
+	return NodeHelpers.getVersionedNodeType(nodeType, version);
+};
+
+/** Reads an exported workflow JSON, e.g. one of `tests/workflows`. */
+export const loadWorkflow = (path: string): WorkflowFile =>
+	JSON.parse(readFileSync(path, 'utf8')) as WorkflowFile;
+
+const notSupported = (feature: string) => async () => {
+	throw new Error(`${feature} is not supported by the workflow runner`);
+};
+
+/**
+ * Runs a workflow in-process with n8n-core's WorkflowExecute and the nodes of
+ * this package. With a `request` the start node's webhook() answers it first,
+ * like n8n's webhook server, and its output starts the execution.
+ *
+ * The nodes come from the TypeScript sources, not from the compiled `dist` that
+ * n8n loads through the package.json manifest. `npm run build` checks those.
+ */
+export const runWorkflow = async (
+	workflowFile: WorkflowFile,
+	{ credentials = {}, request, items = [{ json: {} }], startNode }: WorkflowRunOptions = {},
+): Promise<WorkflowRunResult> => {
+	const workflow = new Workflow({
+		id: workflowFile.id ?? 'workflow-1',
+		name: workflowFile.name,
+		nodes: workflowFile.nodes,
+		connections: workflowFile.connections,
+		active: false,
+		settings: { executionOrder: 'v1', ...workflowFile.settings },
+		staticData: workflowFile.staticData,
+		nodeTypes: {
+			getByName: getNodeType,
+			getByNameAndVersion: getNodeType,
+			getKnownTypes: () => ({}),
+		},
+	});
+	const start = startNode
+		? workflow.getNode(startNode)
+		: workflowFile.nodes.find((node) => workflow.getParentNodes(node.name).length === 0);
+
+	if (!start) throw new Error(`The workflow has no start node ${startNode ?? ''}`.trim());
+
+	const mode = request ? 'webhook' : 'manual';
+	const response = request ? createResponse() : undefined;
+	const workflowData: CoreWorkflowData = {
+		id: workflow.id,
+		name: workflowFile.name ?? 'Workflow',
+		active: false,
+		isArchived: false,
+		createdAt: new Date(),
+		updatedAt: new Date(),
+		nodes: workflowFile.nodes.map(toCore.node),
+		connections: workflowFile.connections,
+		settings: workflowFile.settings,
+		staticData: workflowFile.staticData,
+	};
+	const hooks = new ExecutionLifecycleHooks(mode, 'execution-1', workflowData);
+
+	// HTTP Respond answers the webhook request through this hook
+	hooks.addHandler('sendResponse', ({ body, headers, statusCode }: IExecuteResponsePromiseData) => {
+		response?.writeHead(
+			(statusCode as number | undefined) ?? 200,
+			headers as Record<string, string>,
+		);
+		response?.end(body);
+	});
+
+	const additionalData: RunnerAdditionalData = {
+		credentialsHelper: {
+			getParentTypes: (type: string) => credentialTypes.get(type)?.extends ?? [],
+			getDecrypted: async (_additionalData: unknown, _details: unknown, type: string) => {
+				if (!(type in credentials)) {
+					throw new Error(`No credentials of type "${type}" were given to the workflow runner`);
+				}
+
+				return credentials[type];
+			},
+			getCredentialsProperties: (type: string) => credentialTypes.get(type)?.properties ?? [],
+			authenticate: async (
+				decrypted: ICredentialDataDecryptedObject,
+				type: string,
+				requestOptions: IHttpRequestOptions,
+				_workflow: unknown,
+				node: INode,
+			) => authenticate(credentialTypes.get(type), decrypted, requestOptions, workflow, node),
+			preAuthentication: async () => undefined,
+			updateCredentials: async () => undefined,
+			updateCredentialsOauthTokenData: async () => undefined,
+		},
+		hooks,
+		executionId: 'execution-1',
+		currentNodeExecutionIndex: 0,
+		restApiUrl: 'http://localhost:5678/rest',
+		instanceBaseUrl: 'http://localhost:5678/',
+		formWaitingBaseUrl: 'http://localhost:5678/form-waiting',
+		webhookBaseUrl: 'http://localhost:5678/webhook',
+		webhookWaitingBaseUrl: 'http://localhost:5678/webhook-waiting',
+		webhookTestBaseUrl: 'http://localhost:5678/webhook-test',
+		variables: {},
+		httpRequest: request ? createRequest(request) : undefined,
+		httpResponse: response,
+		executeWorkflow: notSupported('Executing sub-workflows'),
+		getRunExecutionData: notSupported('Loading executions'),
+		startRunnerTask: notSupported('Running code in a task runner'),
+		logAiEvent: () => {},
+	};
+	const coreWorkflow = toCore.workflow(workflow);
+	const coreAdditionalData = toCore.additionalData(additionalData);
+
+	let input: INodeExecutionData[][] = [items];
+	let webhookResult: IWebhookResponseData | undefined;
+
+	if (request) {
+		const nodeType = getNodeType(start.type, start.typeVersion);
+		const [webhookDescription] = nodeType.description.webhooks ?? [];
+
+		if (!nodeType.webhook || !webhookDescription) {
+			throw new Error(`The start node "${start.name}" does not receive webhooks`);
+		}
+
+		const webhookData: CoreWebhookData = {
+			httpMethod: (request.method ?? 'POST') as IHttpRequestMethods,
+			node: start.name,
+			path: (start.parameters.path as string | undefined) ?? '',
+			webhookDescription,
+			workflowId: workflow.id,
+			workflowExecuteAdditionalData: coreAdditionalData,
+			webhookId: start.webhookId,
+		};
+		const context = new WebhookContext(
+			coreWorkflow,
+			toCore.node(start),
+			coreAdditionalData,
+			mode,
+			webhookData,
+			[],
+			null,
+		);
+
+		webhookResult = await nodeType.webhook.call(fromCore.webhookFunctions(context));
+
+		if (webhookResult.workflowData === undefined) {
+			return { outputs: {}, executedNodes: [], response: response?.recorded, webhookResult };
+		}
+
+		input = webhookResult.workflowData;
+	}
+
+	const runExecutionData: CoreRunExecutionData = {
+		startData: {},
+		resultData: { runData: {} },
+		executionData: {
+			contextData: {},
+			metadata: {},
+			// The start node gets the webhook output as input and passes it on
+			nodeExecutionStack: [
+				{ node: toCore.node(start), data: toCore.taskData({ main: input }), source: null },
+			],
+			waitingExecution: {},
+			waitingExecutionSource: {},
+		},
+	};
+	const run = fromCore.run(
+		await new WorkflowExecute(coreAdditionalData, mode, runExecutionData).processRunExecutionData(
+			coreWorkflow,
+		),
+	);
+
+	const { runData, lastNodeExecuted } = run.data.resultData;
+	const outputs = Object.fromEntries(
+		Object.entries(runData).map(([name, tasks]) => [
+			name,
+			(tasks[tasks.length - 1].data?.main ?? []).map((output) => output ?? []),
+		]),
+	);
+
+	// Without noWebhookResponse n8n answers once the workflow finished: with the
+	// first item of the last node, unless HTTP Respond already answered
+	if (response && !webhookResult?.noWebhookResponse && !response.recorded.sent) {
+		const lastOutput = lastNodeExecuted ? outputs[lastNodeExecuted]?.[0] : undefined;
+
+		response.status((start.parameters.responseCode as number | undefined) ?? 200);
+		response.json(lastOutput?.[0]?.json ?? {});
+	}
+
+	return {
+		run,
+		outputs,
+		executedNodes: Object.keys(runData),
+		response: response?.recorded,
+		webhookResult,
+	};
+};
@@ -0,0 +1,149 @@
+import { join } from 'path';
+
+import { shutdownRoutingNode } from '../utils/routing';
+import { loadWorkflow, runWorkflow, WorkflowRunOptions } from '../utils/workflow';
+
+const workflowFile = (name: string) => loadWorkflow(join(__dirname, `${name}.json`));
+
+const orderRequest = {
+	method: 'POST',
+	path: '/orders',
+	headers: { 'content-type': 'application/json' },
+	body: { lines: [{ sku: 'x', qty: 1 }, { sku: 'y', qty: 2 }, { sku: 'x', qty: 4 }] },
+};
+
+const greetingCredentials = { webhookHeaderAuthApi: { name: 'X-Api-Key', value: 'secret' } };
+const greetingRequest = (apiKey: string) => ({
+	method: 'POST',
+	path: '/greetings',
+	headers: { 'content-type': 'application/json', 'x-api-key': apiKey },
+	body: { name: 'Ada' },
+});
+
+const statusRequest = {
+	method: 'GET',
+	path: '/orders/42',
+	headers: { accept: 'application/json' },
+	query: { expand: 'lines' },
+	params: { orderId: '42' },
+};
+
+describe('Workflows', () => {
+	afterAll(() => {
+		shutdownRoutingNode();
+	});
+
+	describe('Order Summary', () => {
+		const request = orderRequest;
+
+		test('should run every node on the webhook data and answer with the last node', async () => {
+			const { run, executedNodes, outputs, response } = await runWorkflow(workflowFile('order-summary'), { request });
+
+			expect(run?.data.resultData.error).toBeUndefined();
+			expect(executedNodes).toEqual(['Order Webhook', 'Split Lines', 'Group By SKU', 'Write Summary']);
+			expect(outputs['Split Lines'][0]).toHaveLength(3);
+			expect(outputs['Write Summary'][0].map(item => item.json)).toEqual([
+				{ sku: 'x', quantity: 5, summary: '5 x x' },
+				{ sku: 'y', quantity: 2, summary: '2 x y' },
+			]);
+			expect(response).toMatchObject({ statusCode: 200, body: { sku: 'x', quantity: 5, summary: '5 x x' } });
+		});
+
+		test('should keep the paired items back to the webhook item', async () => {
+			const { outputs } = await runWorkflow(workflowFile('order-summary'), { request });
+
+			expect(outputs['Group By SKU'][0].map(item => item.pairedItem)).toEqual([
+				[{ item: 0 }, { item: 2 }],
+				[{ item: 1 }],
+			]);
+		});
+
+		test('should start at another node with the given items', async () => {
+			const { executedNodes, outputs, response } = await runWorkflow(workflowFile('order-summary'), {
+				startNode: 'Group By SKU',
+				items: [{ json: { sku: 'z', qty: 3 } }],
+			});
+
+			expect(executedNodes).toEqual(['Group By SKU', 'Write Summary']);
+			expect(outputs['Write Summary'][0][0].json.summary).toBe('3 x z');
+			expect(response).toBeUndefined();
+		});
+	});
+
+	describe('Respond to Webhook', () => {
+		const credentials = greetingCredentials;
+		const request = greetingRequest;
+
+		test('should answer with the HTTP Respond node', async () => {
+			const { response, outputs } = await runWorkflow(workflowFile('respond-to-webhook'), {
+				credentials,
+				request: request('secret'),
+			});
+
+			expect(response).toMatchObject({ statusCode: 201, body: { greeting: 'Hello Ada' }, sent: true });
+			expect(outputs.Respond[0][0].json.greeting).toBe('Hello Ada');
+		});
+
+		test('should reject the request without starting the workflow', async () => {
+			const { run, executedNodes, response } = await runWorkflow(workflowFile('respond-to-webhook'), {
+				credentials,
+				request: request('wrong'),
+			});
+
+			expect(run).toBeUndefined();
+			expect(executedNodes).toEqual([]);
+			expect(response).toMatchObject({ statusCode: 403, sent: true });
+		});
+	});
+
+	describe('Version 1 Nodes', () => {
+		// Only the clock is faked, the execution itself still needs real timers
+		beforeEach(() => {
+			jest.useFakeTimers({
+				now: new Date('2024-01-15T10:30:00.000Z'),
+				doNotFake: ['nextTick', 'setImmediate', 'clearImmediate', 'setTimeout', 'clearTimeout', 'setInterval', 'clearInterval', 'queueMicrotask'],
+			});
+		});
+
+		afterEach(() => {
+			jest.useRealTimers();
+		});
+
+		const runs: Array<[string, WorkflowRunOptions]> = [
+			['order-status', { request: statusRequest }],
+			['order-summary', { request: orderRequest }],
+			['respond-to-webhook', { credentials: greetingCredentials, request: greetingRequest('secret') }],
+		];
+
+		// The snapshots were recorded before the nodes got a version 2, saved workflows must not notice it
+		test.each(runs)('%s should keep producing the same output', async (name, options) => {
+			const { outputs, response } = await runWorkflow(workflowFile(name), options);
+
+			// As JSON, so that the order of the fields is compared too
+			expect(JSON.stringify({ outputs, response }, null, 2)).toMatchSnapshot();
+		});
+
+		test('should run the new behaviour once the nodes are on version 2', async () => {
+			const workflow = workflowFile('order-status');
+
+			workflow.nodes.forEach(node => {
+				node.typeVersion = 2;
+			});
+
+			const { outputs } = await runWorkflow(workflow, { request: statusRequest });
+			const [received] = outputs['Status Webhook'][0];
+
+			expect(received.json).toMatchObject({ params: { orderId: '42' }, query: { expand: 'lines' } });
+			// Without parameters version 2 sets no fields instead of wrapping the item
+			expect(outputs['Wrap Status'][0][0].json).toEqual(received.json);
+		});
+	});
+
+	test('should fail clearly for node types of other packages', async () => {
+		const workflow = workflowFile('order-summary');
+
+		workflow.nodes[1].type = 'n8n-nodes-base.splitOut';
+
+		await expect(runWorkflow(workflow)).rejects.toThrow('Unknown node type "n8n-nodes-base.splitOut"');
+	});
+});
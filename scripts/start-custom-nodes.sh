@@ -108,7 +108,7 @@ build_nodes() {
     local node_count
     node_count=$(find dist -name "*.node.js" 2>/dev/null | wc -l)
     local credential_count
-    credential_count=$(find dist -name "*.credential.js" 2>/dev/null | wc -l)
+    credential_count=$(find dist -name "*.credentials.js" 2>/dev/null | wc -l)
     log "Build completed: $node_count node(s), $credential_count credential(s)"
 }
 # Start development environment
@@ -83,7 +83,7 @@ build_custom_nodes() {
     local node_files
     node_files="$(find dist -name "*.node.js" 2>/dev/null | wc -l)"
     local credential_files
-    credential_files="$(find dist -name "*.credential.js" 2>/dev/null | wc -l)"
+    credential_files="$(find dist -name "*.credentials.js" 2>/dev/null | wc -l)"
     log "✅ Custom nodes built successfully"
     info "Built ${node_files} node(s) and ${credential_files} credential(s)"
     return 0
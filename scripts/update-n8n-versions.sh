@@ -84,6 +84,21 @@ if [[ "${LATEST_NPM}" != "unknown" ]] && [[ "${CURRENT_NPM}" != "${LATEST_NPM}"
     npm install
     
     echo -e "${GREEN}✅ Updated npm packages to ${LATEST_NPM}${NC}"
+
+    # The workflow tests run the sources, the build compiles them against the new
+    # packages and checks the files the package.json manifest lists
+    echo -e "${YELLOW}🔨 Building the custom nodes against the updated packages...${NC}"
+    if ! npm run build; then
+        echo -e "${RED}❌ Build failed, check the custom nodes before committing${NC}"
+    fi
+
+    # Runs the example workflows in-process on the new n8n-core, no container needed
+    echo -e "${YELLOW}🧪 Running workflow tests against the updated packages...${NC}"
+    if npx jest tests/workflows; then
+        echo -e "${GREEN}✅ Workflow tests passed${NC}"
+    else
+        echo -e "${RED}❌ Workflow tests failed, check the custom nodes before committing${NC}"
+    fi
     cd ..
 else
     echo -e "${GREEN}✅ npm packages are already up to date${NC}"